@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { HashChains, toPublicHashChain } from '@/lib/hash-chain';
+import { SHARED_TABLES } from '@/lib/shared-tables';
+import { HashChainResponse, TableHashChains } from '@/lib/api';
+
+export async function GET() {
+  try {
+    // Read only: chains are committed at startup and by the table tickers
+    const tables = await Promise.all(SHARED_TABLES.map(async (table): Promise<TableHashChains> => {
+      const active = await HashChains.getActive(prisma, table.id);
+
+      // Most recently exhausted chain, so its last rounds can still be checked
+      const previous = await prisma.hashChain.findFirst({
+        where: { tableId: table.id, status: 'EXHAUSTED' },
+        orderBy: { exhaustedAt: 'desc' },
+      });
+
+      return {
+        tableId: table.id,
+        active: active ? toPublicHashChain(active) : null,
+        previous: previous ? toPublicHashChain(previous) : null,
+      };
+    }));
+
+    return NextResponse.json<HashChainResponse>({ tables });
+
+  } catch (error) {
+    console.error('Error fetching hash chains:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch hash chains' },
+      { status: 500 }
+    );
+  }
+}
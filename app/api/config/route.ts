@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getCurrentPaytable } from '@/lib/paytables';
+import { TableLimits, getTableConfig } from '@/lib/table-config';
+import { BoardLimits, TableConfigResponse } from '@/lib/api';
+
+export async function GET() {
+  try {
+    const config = getTableConfig();
+
+    // Effective limits for every playable board, so clients don't redo the max win arithmetic
+    const boards = config.allowedRows.flatMap(rows =>
+      config.allowedRisks.flatMap((risk): BoardLimits[] => {
+        const paytable = getCurrentPaytable(risk, rows);
+        if (!paytable) return [];
+        return [{
+          rows,
+          risk,
+          paytableId: paytable.id,
+          maxMultiplier: Math.max(...paytable.multipliers),
+          minBetCents: config.minBetCents,
+          maxBetCents: TableLimits.maxBetFor(config, paytable),
+        }];
+      })
+    );
+
+    return NextResponse.json<TableConfigResponse>({ ...config, boards });
+
+  } catch (error) {
+    console.error('Error fetching table config:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch table config' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPaytable } from '@/lib/paytables';
+import { RtpCalculator, getRtpBand, isReportWithinBand } from '@/lib/rtp';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const paytable = getPaytable(id);
+
+    if (!paytable) {
+      return NextResponse.json(
+        { error: 'Paytable not found' },
+        { status: 404 }
+      );
+    }
+
+    const report = RtpCalculator.computeReport(paytable);
+    const band = getRtpBand();
+
+    return NextResponse.json({
+      ...report,
+      risk: paytable.risk,
+      version: paytable.version,
+      multipliers: paytable.multipliers,
+      band,
+      activatable: isReportWithinBand(report, band),
+    });
+
+  } catch (error) {
+    console.error('Error computing paytable RTP:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute paytable RTP' },
+      { status: 500 }
+    );
+  }
+}
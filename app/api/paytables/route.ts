@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { CURRENT_PAYTABLE_VERSION, listPaytables } from '@/lib/paytables';
+import { invalidRequest } from '@/lib/api';
+import { paytablesQuery } from '@/lib/schemas';
+import { queryToObject, validate } from '@/lib/validation';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const parsed = validate(paytablesQuery, queryToObject(searchParams));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    // Default to the tables new rounds are played with; ?version=all lists every version
+    const { version = CURRENT_PAYTABLE_VERSION } = parsed.value;
+
+    return NextResponse.json({
+      currentVersion: CURRENT_PAYTABLE_VERSION,
+      paytables: listPaytables(version === 'all' ? undefined : version),
+    });
+
+  } catch (error) {
+    console.error('Error listing paytables:', error);
+    return NextResponse.json(
+      { error: 'Failed to list paytables' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { PlayerResponse, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await PlayerAuth.authenticate(prisma, request, id);
+    if (!player) {
+      return unauthorized();
+    }
+
+    return NextResponse.json<PlayerResponse>({
+      playerId: player.id,
+      balanceCents: player.balanceCents,
+    });
+
+  } catch (error) {
+    console.error('Error fetching balance:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch balance' },
+      { status: 500 }
+    );
+  }
+}
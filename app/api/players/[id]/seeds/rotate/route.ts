@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { SeedPairConflictError, SeedPairs, toPublicSeedPair } from '@/lib/seed-pairs';
+import { SeedPairsResponse, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { Prisma } from '@prisma/client';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await PlayerAuth.authenticate(prisma, request, id);
+    if (!player) {
+      return unauthorized();
+    }
+
+    // Reveal the current server seed and commit a new one (client seed carries over)
+    const { active, revealed } = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      SeedPairs.rotate(tx, id)
+    );
+
+    return NextResponse.json<SeedPairsResponse>({
+      active: toPublicSeedPair(active),
+      previous: revealed ? toPublicSeedPair(revealed) : null,
+    });
+
+  } catch (error) {
+    // Another request rotated the seed pair at the same time
+    if (error instanceof SeedPairConflictError) {
+      return NextResponse.json(
+        { error: 'Seed pair was rotated by another request; try again' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error rotating seed pair:', error);
+    return NextResponse.json(
+      { error: 'Failed to rotate seed pair' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { SeedPairConflictError, SeedPairs, toPublicSeedPair } from '@/lib/seed-pairs';
+import { SeedPairsResponse, invalidRequest, readJson, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { setClientSeedBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+import { Prisma } from '@prisma/client';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const player = await PlayerAuth.authenticate(prisma, request, id);
+    if (!player) {
+      return unauthorized();
+    }
+
+    const active = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      SeedPairs.getOrCreateActive(tx, id)
+    );
+
+    // Most recently revealed pair, so the player can verify their last rounds
+    const previous = await prisma.seedPair.findFirst({
+      where: { playerId: id, status: 'ROTATED' },
+      orderBy: { revealedAt: 'desc' },
+    });
+
+    return NextResponse.json<SeedPairsResponse>({
+      active: toPublicSeedPair(active),
+      previous: previous ? toPublicSeedPair(previous) : null,
+    });
+
+  } catch (error) {
+    console.error('Error fetching seed pair:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch seed pair' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const parsed = validate(setClientSeedBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { clientSeed } = parsed.value;
+
+    const player = await PlayerAuth.authenticate(prisma, request, id);
+    if (!player) {
+      return unauthorized();
+    }
+
+    const { active, revealed } = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      SeedPairs.setClientSeed(tx, id, clientSeed)
+    );
+
+    return NextResponse.json<SeedPairsResponse>({
+      active: toPublicSeedPair(active),
+      previous: revealed ? toPublicSeedPair(revealed) : null,
+    });
+
+  } catch (error) {
+    // Another request rotated the seed pair at the same time
+    if (error instanceof SeedPairConflictError) {
+      return NextResponse.json(
+        { error: 'Seed pair was rotated by another request; try again' },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error setting client seed:', error);
+    return NextResponse.json(
+      { error: 'Failed to set client seed' },
+      { status: 500 }
+    );
+  }
+}
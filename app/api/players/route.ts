@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { CreatePlayerResponse } from '@/lib/api';
+import { Ledger, getStartingBalanceCents } from '@/lib/ledger';
+import { PlayerAuth } from '@/lib/player-auth';
+import { Prisma } from '@prisma/client';
+
+export async function POST() {
+  try {
+    // Create the player and fund the starting balance through the ledger
+    const startingBalanceCents = getStartingBalanceCents();
+    const playerToken = PlayerAuth.generateToken();
+    const player = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const created = await tx.player.create({ data: { tokenHash: PlayerAuth.hashToken(playerToken) } });
+      const balanceCents = await Ledger.credit(tx, created.id, startingBalanceCents, 'DEPOSIT');
+      return { ...created, balanceCents };
+    });
+
+    return NextResponse.json<CreatePlayerResponse>({
+      playerId: player.id,
+      balanceCents: player.balanceCents,
+      playerToken,
+    });
+
+  } catch (error) {
+    console.error('Error creating player:', error);
+    return NextResponse.json(
+      { error: 'Failed to create player' },
+      { status: 500 }
+    );
+  }
+}
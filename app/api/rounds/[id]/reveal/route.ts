@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { ProvablyFairProtocol } from '@/lib/prng';
+import { SeedPairConflictError } from '@/lib/seed-pairs';
+import { RoundReveal, toRevealPayload } from '@/lib/reveal';
+import { RoundStateMachine } from '@/lib/round-state';
+import { invalidRequest, readJson, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { revealRoundBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+import { Prisma } from '@prisma/client';
 
 export async function POST(
   request: NextRequest,
@@ -8,6 +15,13 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
+    const parsed = validate(revealRoundBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { playerId } = parsed.value;
+
     // Get the round
     const round = await prisma.round.findUnique({
       where: { id },
@@ -20,46 +34,59 @@ export async function POST(
       );
     }
 
-    if (round.status !== 'STARTED') {
+    // Rounds from before player accounts have no owner and stay open to anyone.
+    // Revealing rotates the owner's seed pair and voids their unplayed rounds,
+    // so owned rounds need the owner's token, not just their ID.
+    if (round.playerId) {
+      if (round.playerId !== playerId) {
+        return NextResponse.json(
+          { error: 'Round belongs to another player' },
+          { status: 403 }
+        );
+      }
+      if (!(await PlayerAuth.authenticate(prisma, request, playerId))) {
+        return unauthorized();
+      }
+    }
+
+    if (round.status !== 'REVEALED' && !RoundStateMachine.canTransition(round.status, 'REVEALED')) {
       return NextResponse.json(
-        { error: 'Round must be started before revealing' },
+        {
+          error: round.status === 'CREATED'
+            ? 'Round must be started before revealing'
+            : `Round cannot be revealed (status ${round.status})`,
+        },
         { status: 400 }
       );
     }
 
-    // Update round status to revealed
-    const updatedRound = await prisma.round.update({
-      where: { id },
-      data: {
-        status: 'REVEALED',
-        revealedAt: new Date(),
-      },
-    });
-
-    // Verify the commitment for transparency
-    const isValid = ProvablyFairProtocol.verifyCommit(
-      updatedRound.serverSeed!,
-      updatedRound.nonce,
-      updatedRound.commitHex
+    // Idempotent: a revealed round returns the same payload again
+    const revealed = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+      RoundReveal.reveal(tx, id)
     );
 
-    // Return the revealed server seed and verification
-    return NextResponse.json({
-      roundId: updatedRound.id,
-      serverSeed: updatedRound.serverSeed,
-      nonce: updatedRound.nonce,
-      clientSeed: updatedRound.clientSeed,
-      combinedSeed: updatedRound.combinedSeed,
-      commitHex: updatedRound.commitHex,
-      isValid,
-      revealedAt: updatedRound.revealedAt,
-    });
+    if (!revealed) {
+      return NextResponse.json(
+        { error: 'Round could not be revealed' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(toRevealPayload(revealed));
 
   } catch (error) {
+    // Another request rotated the seed pair at the same time
+    if (error instanceof SeedPairConflictError) {
+      return NextResponse.json(
+        { error: 'Seed pair was rotated by another request; try again' },
+        { status: 409 }
+      );
+    }
+
     console.error('Error revealing round:', error);
     return NextResponse.json(
       { error: 'Failed to reveal round' },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
+import { toPublicRound } from '@/lib/rounds';
+import { PublicRound } from '@/lib/api';
 
 export async function GET(
   request: NextRequest,
@@ -20,35 +22,7 @@ export async function GET(
     }
 
     // Return different levels of detail based on round status
-    const response: any = {
-      id: round.id,
-      createdAt: round.createdAt,
-      status: round.status,
-      nonce: round.nonce,
-      commitHex: round.commitHex,
-      rows: round.rows,
-    };
-
-    // Add details if round has started
-    if (round.status === 'STARTED' || round.status === 'REVEALED') {
-      response.clientSeed = round.clientSeed;
-      response.combinedSeed = round.combinedSeed;
-      response.pegMapHash = round.pegMapHash;
-      response.dropColumn = round.dropColumn;
-      response.binIndex = round.binIndex;
-      response.payoutMultiplier = round.payoutMultiplier;
-      response.betCents = round.betCents;
-      response.pathJson = round.pathJson;
-      response.winAmount = Math.round(round.betCents * round.payoutMultiplier);
-    }
-
-    // Add server seed only if revealed
-    if (round.status === 'REVEALED') {
-      response.serverSeed = round.serverSeed;
-      response.revealedAt = round.revealedAt;
-    }
-
-    return NextResponse.json(response);
+    return NextResponse.json<PublicRound>(toPublicRound(round));
 
   } catch (error) {
     console.error('Error fetching round:', error);
@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
 import { ProvablyFairProtocol } from '@/lib/prng';
 import { PlinkoEngine } from '@/lib/engine';
+import { DEFAULT_RISK, getCurrentPaytable, getPaytable } from '@/lib/paytables';
+import { InsufficientFundsError, Ledger, PlayerNotFoundError } from '@/lib/ledger';
+import { SeedPairs } from '@/lib/seed-pairs';
+import { RoundStateConflictError, RoundStateMachine } from '@/lib/round-state';
+import { TableLimits, getTableConfig } from '@/lib/table-config';
+import { InsufficientFundsResponse, StartRoundResponse, invalidRequest, readJson, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { startRoundBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+import { Prisma } from '@prisma/client';
 
 export async function POST(
   request: NextRequest,
@@ -9,33 +19,21 @@ export async function POST(
 ) {
   try {
     const { id } = await params;
-    const { clientSeed, betCents, dropColumn } = await request.json();
-
-    // Validate input
-    if (!clientSeed || typeof clientSeed !== 'string') {
-      return NextResponse.json(
-        { error: 'Client seed is required and must be a string' },
-        { status: 400 }
-      );
+    const parsed = validate(startRoundBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
     }
 
-    if (!betCents || betCents <= 0) {
-      return NextResponse.json(
-        { error: 'Bet amount must be positive' },
-        { status: 400 }
-      );
-    }
+    const { playerId, betCents, dropColumn } = parsed.value;
 
-    if (dropColumn < 0 || dropColumn > 12) {
-      return NextResponse.json(
-        { error: 'Drop column must be between 0 and 12' },
-        { status: 400 }
-      );
+    if (!(await PlayerAuth.authenticate(prisma, request, playerId))) {
+      return unauthorized();
     }
 
-    // Get the round
+    // Get the round with the seed pair it was committed under
     const round = await prisma.round.findUnique({
       where: { id },
+      include: { seedPair: true },
     });
 
     if (!round) {
@@ -45,66 +43,138 @@ export async function POST(
       );
     }
 
-    if (round.status !== 'CREATED') {
+    if (!RoundStateMachine.canTransition(round.status, 'STARTED')) {
       return NextResponse.json(
-        { error: 'Round has already been started' },
-        { status: 400 }
+        { error: `Round cannot be started (status ${round.status})` },
+        { status: 409 }
+      );
+    }
+
+    if (round.playerId !== playerId) {
+      return NextResponse.json(
+        { error: 'Round belongs to another player' },
+        { status: 403 }
+      );
+    }
+
+    // Once a pair is rotated its server seed is public, so its unplayed rounds are dead
+    const seedPair = round.seedPair;
+    if (!seedPair || seedPair.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { error: 'Seed pair is no longer active; commit a new round' },
+        { status: 409 }
       );
     }
 
+    // Drop column range depends on the committed board size
+    if (!PlinkoEngine.isValidDropColumn(dropColumn, round.rows)) {
+      return invalidRequest({ dropColumn: `must be at most ${round.rows}` });
+    }
+
+    // Bet limits for the committed board; rounds from before paytables were recorded used the medium table
+    const paytable = round.paytableId
+      ? getPaytable(round.paytableId)
+      : getCurrentPaytable(DEFAULT_RISK, round.rows);
+    const betError = paytable && TableLimits.checkBet(getTableConfig(), paytable, betCents);
+    if (betError) {
+      return invalidRequest({ betCents: betError });
+    }
+
+    // Client seed was fixed on the seed pair when the round was committed
+    const clientSeed = round.clientSeed;
+    const serverSeed = SeedPairs.getServerSeed(seedPair);
+
     // Generate combined seed
     const combinedSeed = ProvablyFairProtocol.generateCombinedSeed(
-      round.serverSeed!,
+      serverSeed,
       clientSeed,
       round.nonce
     );
 
     // Play the round
     const gameResult = PlinkoEngine.playRound(
-      round.serverSeed!,
+      serverSeed,
       clientSeed,
       round.nonce,
       dropColumn,
       round.rows,
-      betCents
+      betCents,
+      PlinkoEngine.storedRoundOptions(round)
     );
 
-    // Update round in database
-    const updatedRound = await prisma.round.update({
-      where: { id },
-      data: {
-        status: 'STARTED',
-        clientSeed,
-        combinedSeed,
-        pegMapHash: gameResult.pegMapHash,
-        dropColumn,
-        binIndex: gameResult.binIndex,
-        payoutMultiplier: gameResult.payoutMultiplier,
-        betCents,
-        pathJson: gameResult.path as any,
-      },
-    });
+    const winAmount = gameResult.payoutCents;
+
+    // Record the result, debit the bet and credit the win atomically. The
+    // status check above can race with another start request, so the
+    // transition only applies while the round is still CREATED; it is the
+    // first write so the losing request never touches the ledger.
+    const startedAt = new Date();
+    const { updatedRound, balanceCents } = await prisma.$transaction(
+      async (tx: Prisma.TransactionClient) => {
+        const updatedRound = await RoundStateMachine.transition(tx, id, 'CREATED', 'STARTED', {
+          combinedSeed,
+          pegMapHash: gameResult.pegMapHash,
+          dropColumn,
+          binIndex: gameResult.binIndex,
+          payoutMultiplier: gameResult.payoutMultiplier,
+          betCents,
+          pathJson: gameResult.path as any,
+        }, startedAt);
+
+        await Ledger.debit(tx, playerId, betCents, 'BET', id);
+        const balanceCents = await Ledger.credit(tx, playerId, winAmount, 'WIN', id);
+        return { updatedRound, balanceCents };
+      }
+    );
 
     // Return game result (still don't reveal server seed)
-    return NextResponse.json({
+    return NextResponse.json<StartRoundResponse>({
       roundId: updatedRound.id,
-      status: updatedRound.status,
+      seedPairId: seedPair.id,
+      status: 'STARTED',
+      startedAt,
       nonce: updatedRound.nonce,
       commitHex: updatedRound.commitHex,
       clientSeed: updatedRound.clientSeed,
       combinedSeed: updatedRound.combinedSeed,
       pegMapHash: updatedRound.pegMapHash,
       rows: updatedRound.rows,
+      paytableId: updatedRound.paytableId,
+      rngVersion: updatedRound.rngVersion,
+      hashVersion: updatedRound.hashVersion,
       dropColumn: updatedRound.dropColumn,
       binIndex: updatedRound.binIndex,
       payoutMultiplier: updatedRound.payoutMultiplier,
       betCents: updatedRound.betCents,
       pegMap: gameResult.pegMap,
       path: gameResult.path,
-      winAmount: Math.round(betCents * gameResult.payoutMultiplier),
+      winAmount,
+      balanceCents,
     });
 
   } catch (error) {
+    // Another request started the round first
+    if (error instanceof RoundStateConflictError) {
+      return NextResponse.json(
+        { error: 'Round has already been started' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof PlayerNotFoundError) {
+      return NextResponse.json(
+        { error: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof InsufficientFundsError) {
+      return NextResponse.json<InsufficientFundsResponse>(
+        { error: 'Insufficient funds', balanceCents: error.balanceCents },
+        { status: 402 }
+      );
+    }
+
     console.error('Error starting round:', error);
     return NextResponse.json(
       { error: 'Failed to start round' },
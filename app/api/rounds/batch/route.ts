@@ -0,0 +1,195 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { PlinkoEngine, CURRENT_HASH_VERSION } from '@/lib/engine';
+import { PaytableRtpError, getActivePaytable } from '@/lib/rtp';
+import { SeedPairs } from '@/lib/seed-pairs';
+import { CURRENT_RNG_VERSION, ProvablyFairProtocol } from '@/lib/prng';
+import { RoundStateMachine } from '@/lib/round-state';
+import { TableLimits, getTableConfig } from '@/lib/table-config';
+import { InsufficientFundsError, Ledger, PlayerNotFoundError } from '@/lib/ledger';
+import { AutoBet, AutoBetStopReason } from '@/lib/auto-bet';
+import {
+  AutoBetResponse,
+  AutoBetRound,
+  InsufficientFundsResponse,
+  invalidRequest,
+  readJson,
+  unauthorized,
+} from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { autoBetBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+import { Prisma } from '@prisma/client';
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = validate(autoBetBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { playerId, rows, risk, dropColumn, ...settings } = parsed.value;
+
+    if (!PlinkoEngine.isValidDropColumn(dropColumn, rows)) {
+      return invalidRequest({ dropColumn: `must be at most ${rows}` });
+    }
+
+    const tableConfig = getTableConfig();
+    const boardErrors = TableLimits.checkBoard(tableConfig, rows, risk);
+    if (boardErrors) {
+      return invalidRequest(boardErrors);
+    }
+
+    const paytable = getActivePaytable(risk, rows)!;
+
+    const betError = TableLimits.checkBet(tableConfig, paytable, settings.betCents);
+    if (betError) {
+      return invalidRequest({ betCents: betError });
+    }
+    const maxBetCents = TableLimits.maxBetFor(tableConfig, paytable);
+
+    const player = await PlayerAuth.authenticate(prisma, request, playerId);
+    if (!player) {
+      return unauthorized();
+    }
+
+    if (settings.betCents > player.balanceCents) {
+      return NextResponse.json<InsufficientFundsResponse>(
+        { error: 'Insufficient funds', balanceCents: player.balanceCents },
+        { status: 402 }
+      );
+    }
+
+    let state = AutoBet.initialState(settings);
+    let balanceCents: number = player.balanceCents;
+    let stopReason: AutoBetStopReason | null = AutoBet.stopReason(settings, state, balanceCents, maxBetCents);
+    const rounds: AutoBetRound[] = [];
+
+    // Each drop commits and plays in its own transaction, so a failure part way
+    // through keeps the rounds already played
+    while (!stopReason) {
+      const betCents = AutoBet.nextBet(state, maxBetCents);
+      let played;
+      try {
+        played = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+          const seedPair = await SeedPairs.getOrCreateActive(tx, playerId);
+          const nonce = (await SeedPairs.allocateNonce(tx, seedPair.id)).toString();
+          const serverSeed = SeedPairs.getServerSeed(seedPair);
+
+          const gameResult = PlinkoEngine.playRound(
+            serverSeed,
+            seedPair.clientSeed,
+            nonce,
+            dropColumn,
+            rows,
+            betCents,
+            { paytableId: paytable.id, rngVersion: CURRENT_RNG_VERSION, hashVersion: CURRENT_HASH_VERSION }
+          );
+
+          // Committed and started in one step: the seed pair hash was published beforehand
+          const round = await tx.round.create({
+            data: {
+              ...RoundStateMachine.createData('STARTED'),
+              playerId,
+              seedPairId: seedPair.id,
+              nonce,
+              commitHex: seedPair.serverSeedHash,
+              serverSeed: null,
+              clientSeed: seedPair.clientSeed,
+              combinedSeed: ProvablyFairProtocol.generateCombinedSeed(serverSeed, seedPair.clientSeed, nonce),
+              pegMapHash: gameResult.pegMapHash,
+              rows,
+              paytableId: paytable.id,
+              rngVersion: CURRENT_RNG_VERSION,
+              hashVersion: CURRENT_HASH_VERSION,
+              dropColumn,
+              binIndex: gameResult.binIndex,
+              payoutMultiplier: gameResult.payoutMultiplier,
+              betCents,
+              pathJson: gameResult.path as any,
+            },
+          });
+
+          await Ledger.debit(tx, playerId, betCents, 'BET', round.id);
+          const balanceCents = await Ledger.credit(tx, playerId, gameResult.payoutCents, 'WIN', round.id);
+
+          return { round, seedPair, gameResult, balanceCents };
+        });
+      } catch (error) {
+        // The balance changed under us (another session); stop with what was played
+        if (error instanceof InsufficientFundsError) {
+          balanceCents = error.balanceCents;
+          stopReason = 'INSUFFICIENT_FUNDS';
+          break;
+        }
+        // Nothing played yet: fail the request as a whole
+        if (rounds.length === 0) {
+          throw error;
+        }
+        // Rounds already played are settled; return them rather than a bare 500
+        console.error('Error playing round in batch:', error);
+        stopReason = 'ERROR';
+        break;
+      }
+
+      balanceCents = played.balanceCents;
+      state = AutoBet.recordRound(settings, state, betCents, played.gameResult.payoutCents);
+      stopReason = AutoBet.stopReason(settings, state, balanceCents, maxBetCents);
+      rounds.push({
+        roundId: played.round.id,
+        seedPairId: played.seedPair.id,
+        nonce: played.round.nonce,
+        commitHex: played.round.commitHex,
+        clientSeed: played.round.clientSeed,
+        pegMapHash: played.round.pegMapHash,
+        dropColumn,
+        binIndex: played.gameResult.binIndex,
+        payoutMultiplier: played.gameResult.payoutMultiplier,
+        betCents,
+        winAmount: played.gameResult.payoutCents,
+        balanceCents,
+        pegMap: played.gameResult.pegMap,
+        path: played.gameResult.path,
+      });
+    }
+
+    return NextResponse.json<AutoBetResponse>({
+      rows,
+      paytableId: paytable.id,
+      multipliers: paytable.multipliers,
+      rngVersion: CURRENT_RNG_VERSION,
+      hashVersion: CURRENT_HASH_VERSION,
+      rounds,
+      summary: {
+        played: state.played,
+        totalBetCents: rounds.reduce((sum, round) => sum + round.betCents, 0),
+        totalWinCents: rounds.reduce((sum, round) => sum + round.winAmount, 0),
+        profitCents: state.profitCents,
+        balanceCents,
+        stopReason,
+      },
+    });
+
+  } catch (error) {
+    if (error instanceof PaytableRtpError) {
+      console.error('Refusing to activate paytable:', error.message);
+      return NextResponse.json(
+        { error: `Paytable ${error.paytableId} is not active` },
+        { status: 503 }
+      );
+    }
+
+    if (error instanceof PlayerNotFoundError) {
+      return NextResponse.json(
+        { error: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error playing round batch:', error);
+    return NextResponse.json(
+      { error: 'Failed to play round batch' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,43 +1,95 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { prisma } from '@/lib/db';
-import { ProvablyFairProtocol } from '@/lib/prng';
+import { CURRENT_HASH_VERSION } from '@/lib/engine';
+import { PaytableRtpError, getActivePaytable } from '@/lib/rtp';
+import { SeedPairs } from '@/lib/seed-pairs';
+import { CURRENT_RNG_VERSION } from '@/lib/prng';
+import { RoundStateMachine } from '@/lib/round-state';
+import { TableLimits, getTableConfig } from '@/lib/table-config';
+import { CommitRoundResponse, invalidRequest, readJson, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { commitRoundBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+import { Prisma } from '@prisma/client';
 
 export async function POST(request: NextRequest) {
   try {
-    // Generate server-side randomness
-    const serverSeed = ProvablyFairProtocol.generateServerSeed();
-    const nonce = ProvablyFairProtocol.generateNonce();
-    
-    // Create commitment hash
-    const commitHex = ProvablyFairProtocol.createCommitHash(serverSeed, nonce);
-
-    // Create new round in database with CREATED status
-    const round = await prisma.round.create({
-      data: {
-        status: 'CREATED',
-        nonce,
-        commitHex,
-        serverSeed, // Store server seed for later reveal
-        clientSeed: '', // Will be provided when starting the round
-        combinedSeed: '', // Will be generated when starting
-        pegMapHash: '', // Will be computed when starting
-        rows: 12,
-        dropColumn: 0, // Will be set when starting
-        binIndex: 0, // Will be computed when starting
-        payoutMultiplier: 0, // Will be computed when starting
-        betCents: 0, // Will be set when starting
-        pathJson: [], // Will be populated when starting
-      },
+    // Rows and risk default to the standard board
+    const parsed = validate(commitRoundBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { playerId, rows, risk } = parsed.value;
+
+    const boardErrors = TableLimits.checkBoard(getTableConfig(), rows, risk);
+    if (boardErrors) {
+      return invalidRequest(boardErrors);
+    }
+
+    // Commit to the current published paytable for this board (RTP-checked)
+    const paytable = getActivePaytable(risk, rows)!;
+
+    const player = await PlayerAuth.authenticate(prisma, request, playerId);
+    if (!player) {
+      return unauthorized();
+    }
+
+    // Take the next nonce from the player's active seed pair
+    const { round, seedPair } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const seedPair = await SeedPairs.getOrCreateActive(tx, playerId);
+      const nonce = await SeedPairs.allocateNonce(tx, seedPair.id);
+
+      // Create new round in database with CREATED status
+      const round = await tx.round.create({
+        data: {
+          ...RoundStateMachine.createData(),
+          playerId,
+          seedPairId: seedPair.id,
+          nonce: nonce.toString(),
+          commitHex: seedPair.serverSeedHash, // Seed pair commitment
+          serverSeed: null, // Copied onto the round when the pair is rotated
+          clientSeed: seedPair.clientSeed,
+          combinedSeed: '', // Will be generated when starting
+          pegMapHash: '', // Will be computed when starting
+          rows, // Committed up front so the board size can't change after commit
+          paytableId: paytable.id,
+          rngVersion: CURRENT_RNG_VERSION,
+          hashVersion: CURRENT_HASH_VERSION,
+          dropColumn: 0, // Will be set when starting
+          binIndex: 0, // Will be computed when starting
+          payoutMultiplier: 0, // Will be computed when starting
+          betCents: 0, // Will be set when starting
+          pathJson: [], // Will be populated when starting
+        },
+      });
+
+      return { round, seedPair };
     });
 
     // Return commitment information (do not reveal server seed yet)
-    return NextResponse.json({
+    return NextResponse.json<CommitRoundResponse>({
       roundId: round.id,
-      commitHex,
-      nonce,
+      seedPairId: seedPair.id,
+      commitHex: round.commitHex,
+      clientSeed: round.clientSeed,
+      nonce: round.nonce,
+      rows,
+      paytableId: paytable.id,
+      multipliers: paytable.multipliers,
+      rngVersion: round.rngVersion,
+      hashVersion: round.hashVersion,
     });
 
   } catch (error) {
+    if (error instanceof PaytableRtpError) {
+      console.error('Refusing to activate paytable:', error.message);
+      return NextResponse.json(
+        { error: `Paytable ${error.paytableId} is not active` },
+        { status: 503 }
+      );
+    }
+
     console.error('Error creating round commitment:', error);
     return NextResponse.json(
       { error: 'Failed to create round commitment' },
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import {
+  ROUND_HISTORY_ORDER,
+  buildRoundHistoryWhere,
+  encodeCursor,
+  parseRoundHistoryQuery,
+  toPublicRound,
+} from '@/lib/rounds';
+import { RoundHistoryResponse, invalidRequest, unauthorized } from '@/lib/api';
+import { OperatorAuth } from '@/lib/operator-auth';
+import { PlayerAuth } from '@/lib/player-auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = parseRoundHistoryQuery(request.nextUrl.searchParams);
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { query } = parsed;
+
+    // Operators can search across players; players can only list their own rounds
+    if (!OperatorAuth.isOperator(request)) {
+      if (!query.playerId) {
+        return invalidRequest({ playerId: 'is required' });
+      }
+      if (!(await PlayerAuth.authenticate(prisma, request, query.playerId))) {
+        return unauthorized();
+      }
+    }
+
+    // Fetch one extra row to know whether there is another page
+    const rounds = await prisma.round.findMany({
+      where: buildRoundHistoryWhere(query),
+      orderBy: ROUND_HISTORY_ORDER,
+      take: query.limit + 1,
+    });
+
+    const page = rounds.slice(0, query.limit);
+    const hasMore = rounds.length > query.limit;
+
+    return NextResponse.json<RoundHistoryResponse>({
+      rounds: page.map(toPublicRound),
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1]) : null,
+    });
+
+  } catch (error) {
+    console.error('Error listing rounds:', error);
+    return NextResponse.json(
+      { error: 'Failed to list rounds' },
+      { status: 500 }
+    );
+  }
+}
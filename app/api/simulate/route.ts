@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PlinkoEngine } from '@/lib/engine';
+import { getCurrentPaytable, getPaytable } from '@/lib/paytables';
+import { Simulator } from '@/lib/simulation';
+import { SimulationResponse, invalidRequest, readJson, unauthorized } from '@/lib/api';
+import { OperatorAuth } from '@/lib/operator-auth';
+import { simulateBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+
+export async function POST(request: NextRequest) {
+  try {
+    // Simulations run synchronously on the request thread, so only operators may start them
+    if (!OperatorAuth.isOperator(request)) {
+      return unauthorized('Operator token required');
+    }
+
+    const parsed = validate(simulateBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { rows, risk, paytableId, dropColumn, ...options } = parsed.value;
+
+    if (!PlinkoEngine.isValidDropColumn(dropColumn, rows)) {
+      return invalidRequest({ dropColumn: `must be at most ${rows}` });
+    }
+
+    // Simulations may use any published table, not only the active ones
+    const paytable = paytableId === undefined ? getCurrentPaytable(risk, rows) : getPaytable(paytableId);
+    if (!paytable || paytable.rows !== rows) {
+      return invalidRequest({ paytableId: `is not published for ${rows} rows` });
+    }
+
+    const report = Simulator.run({ paytable, dropColumn, ...options });
+
+    return NextResponse.json<SimulationResponse>(report);
+
+  } catch (error) {
+    console.error('Error running simulation:', error);
+    return NextResponse.json(
+      { error: 'Failed to run simulation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { PlinkoEngine } from '@/lib/engine';
+import { getCurrentPaytable } from '@/lib/paytables';
+import { InsufficientFundsError, PlayerNotFoundError } from '@/lib/ledger';
+import {
+  DuplicateTableBetError,
+  SharedTables,
+  TableRoundClosedError,
+  getSharedTable,
+  toPublicTableRound,
+} from '@/lib/shared-tables';
+import { TableFeed } from '@/lib/table-feed';
+import { TableLimits, getTableConfig } from '@/lib/table-config';
+import { InsufficientFundsResponse, TableBetResponse, invalidRequest, readJson, unauthorized } from '@/lib/api';
+import { PlayerAuth } from '@/lib/player-auth';
+import { tableBetBody } from '@/lib/schemas';
+import { validate } from '@/lib/validation';
+import { generateClientSeed } from '@/lib/utils';
+import { Prisma } from '@prisma/client';
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const parsed = validate(tableBetBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    // Tables whose board the configuration doesn't allow are closed
+    const tableConfig = getTableConfig();
+    const table = getSharedTable(id, tableConfig);
+    if (!table) {
+      return NextResponse.json(
+        { error: 'Table not found' },
+        { status: 404 }
+      );
+    }
+
+    const { playerId, dropColumn, betCents } = parsed.value;
+    const clientSeed = parsed.value.clientSeed ?? generateClientSeed();
+
+    if (!PlinkoEngine.isValidDropColumn(dropColumn, table.rows)) {
+      return invalidRequest({ dropColumn: `must be at most ${table.rows}` });
+    }
+
+    const betError = TableLimits.checkBet(tableConfig, getCurrentPaytable(table.risk, table.rows)!, betCents);
+    if (betError) {
+      return invalidRequest({ betCents: betError });
+    }
+
+    const player = await PlayerAuth.authenticate(prisma, request, playerId);
+    if (!player) {
+      return unauthorized();
+    }
+
+    // Bets only go into a round the feed has already opened (and published)
+    const { tableRound, bet, balanceCents } = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      const tableRound = await SharedTables.getOpenRound(tx, table.id);
+      if (!tableRound) {
+        throw new TableRoundClosedError(table.id);
+      }
+
+      const placed = await SharedTables.placeBet(tx, tableRound, { playerId, clientSeed, dropColumn, betCents });
+      return { tableRound, ...placed };
+    });
+
+    TableFeed.publish(table.id, { type: 'bet', tableRoundId: tableRound.id, bet });
+    // Keep the ticker going so the ball drops even if nobody is watching
+    TableFeed.ensureRunning(table);
+
+    return NextResponse.json<TableBetResponse>({
+      round: toPublicTableRound(tableRound),
+      bet,
+      balanceCents,
+    });
+
+  } catch (error) {
+    if (error instanceof TableRoundClosedError) {
+      return NextResponse.json(
+        { error: 'Betting is closed; wait for the next round' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof DuplicateTableBetError) {
+      return NextResponse.json(
+        { error: 'You already have a ball in this round' },
+        { status: 409 }
+      );
+    }
+
+    if (error instanceof PlayerNotFoundError) {
+      return NextResponse.json(
+        { error: 'Player not found' },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof InsufficientFundsError) {
+      return NextResponse.json<InsufficientFundsResponse>(
+        { error: 'Insufficient funds', balanceCents: error.balanceCents },
+        { status: 402 }
+      );
+    }
+
+    console.error('Error placing table bet:', error);
+    return NextResponse.json(
+      { error: 'Failed to place bet' },
+      { status: 500 }
+    );
+  }
+}
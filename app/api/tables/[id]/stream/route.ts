@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSharedTable } from '@/lib/shared-tables';
+import { TableFeed } from '@/lib/table-feed';
+import { getTableConfig } from '@/lib/table-config';
+import type { TableEvent } from '@/lib/api';
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Server-Sent Events: the current round on connect, then `bet`, `drop` and
+ * `round` events as the table plays
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const table = getSharedTable(id, getTableConfig());
+  if (!table) {
+    return NextResponse.json(
+      { error: 'Table not found' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let close = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: TableEvent) => {
+        controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+      const heartbeat = setInterval(() => controller.enqueue(encoder.encode(': ping\n\n')), HEARTBEAT_INTERVAL_MS);
+      const unsubscribe = TableFeed.subscribe(table, send);
+
+      let closed = false;
+      close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+      request.signal.addEventListener('abort', () => close());
+    },
+    cancel() {
+      close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { listSharedTables, toSharedTableSummary } from '@/lib/shared-tables';
+import { getTableConfig } from '@/lib/table-config';
+import { SharedTablesResponse } from '@/lib/api';
+
+export async function GET() {
+  try {
+    const config = getTableConfig();
+
+    return NextResponse.json<SharedTablesResponse>({
+      tables: listSharedTables(config).map(table => toSharedTableSummary(table, config)),
+    });
+
+  } catch (error) {
+    console.error('Error listing shared tables:', error);
+    return NextResponse.json(
+      { error: 'Failed to list shared tables' },
+      { status: 500 }
+    );
+  }
+}
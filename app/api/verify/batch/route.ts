@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db';
+import { MAX_VERIFY_BATCH, RoundVerification, RoundVerifier } from '@/lib/verification';
+import { PLAYED_STATUSES } from '@/lib/round-state';
+import { VerifyBatchResponse, invalidRequest, readJson } from '@/lib/api';
+import { verifyBatchBody } from '@/lib/schemas';
+import { FieldErrors, Infer, validate } from '@/lib/validation';
+import type { Round } from '@prisma/client';
+
+type VerifyBatchBody = Infer<typeof verifyBatchBody>;
+
+/**
+ * Nonces from an explicit list or an inclusive integer range
+ */
+function resolveNonces({ nonces, nonceRange }: VerifyBatchBody): string[] | FieldErrors {
+  if (nonces !== undefined) {
+    return nonces.map(String);
+  }
+
+  if (nonceRange === undefined) {
+    return { nonces: 'are required: provide nonces, a nonceRange { from, to } or roundIds' };
+  }
+  const { from, to } = nonceRange;
+  if (to < from) {
+    return { 'nonceRange.to': 'must not be less than nonceRange.from' };
+  }
+  if (to - from + 1 > MAX_VERIFY_BATCH) {
+    return { nonceRange: `must cover at most ${MAX_VERIFY_BATCH} nonces` };
+  }
+  return Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const parsed = validate(verifyBatchBody, await readJson(request));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const body = parsed.value;
+    const { serverSeed } = body;
+
+    let results: RoundVerification[];
+
+    if (body.roundIds !== undefined) {
+      // By round ID: the server seed may come from the request or from a revealed round
+      const { roundIds } = body;
+
+      const rounds = await prisma.round.findMany({
+        where: { id: { in: roundIds }, status: { in: PLAYED_STATUSES } },
+      });
+      const byId = new Map(rounds.map((round: Round) => [round.id, round]));
+
+      results = roundIds.map((roundId: string): RoundVerification => {
+        const round = byId.get(roundId);
+        if (!round) {
+          return { roundId, status: 'NOT_FOUND' };
+        }
+        const seed = serverSeed ?? round.serverSeed;
+        if (!seed) {
+          return { roundId, nonce: round.nonce, status: 'SEED_UNAVAILABLE', error: 'Server seed not revealed yet' };
+        }
+        return RoundVerifier.verify(round, seed);
+      });
+    } else {
+      // By seeds and nonces: find the played rounds committed to this server seed
+      const { clientSeed } = body;
+      if (!serverSeed || !clientSeed) {
+        const missing: FieldErrors = {};
+        if (!serverSeed) missing.serverSeed = 'is required when verifying by nonce';
+        if (!clientSeed) missing.clientSeed = 'is required when verifying by nonce';
+        return invalidRequest(missing);
+      }
+
+      const nonces = resolveNonces(body);
+      if (!Array.isArray(nonces)) {
+        return invalidRequest(nonces);
+      }
+
+      const rounds = await prisma.round.findMany({
+        where: { clientSeed, nonce: { in: nonces }, status: { in: PLAYED_STATUSES } },
+      });
+      // Other players can share a client seed and nonce; only this server seed's rounds count
+      const committed = rounds.filter((round: Round) => RoundVerifier.commitMatches(serverSeed, round));
+
+      results = nonces.flatMap((nonce): RoundVerification[] => {
+        const matching = committed.filter((round: Round) => round.nonce === nonce);
+        if (matching.length === 0) {
+          return [{ nonce, status: 'NOT_FOUND' }];
+        }
+        return matching.map((round: Round) => RoundVerifier.verify(round, serverSeed));
+      });
+    }
+
+    return NextResponse.json<VerifyBatchResponse>({
+      results,
+      summary: RoundVerifier.summarize(results),
+    });
+
+  } catch (error) {
+    console.error('Error verifying rounds:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify rounds' },
+      { status: 500 }
+    );
+  }
+}
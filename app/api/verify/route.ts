@@ -1,34 +1,38 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ProvablyFairProtocol } from '@/lib/prng';
 import { PlinkoEngine } from '@/lib/engine';
+import { DEFAULT_RISK, getCurrentPaytable, getPaytable } from '@/lib/paytables';
+import { VerifyResponse, invalidRequest } from '@/lib/api';
+import { verifyQuery } from '@/lib/schemas';
+import { queryToObject, validate } from '@/lib/validation';
 
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    
-    const serverSeed = searchParams.get('serverSeed');
-    const clientSeed = searchParams.get('clientSeed');
-    const nonce = searchParams.get('nonce');
-    const dropColumn = searchParams.get('dropColumn');
 
-    // Validate required parameters
-    if (!serverSeed || !clientSeed || !nonce || dropColumn === null) {
-      return NextResponse.json(
-        { error: 'Missing required parameters: serverSeed, clientSeed, nonce, dropColumn' },
-        { status: 400 }
-      );
+    // Rows, RNG version and hash version default to what rounds used before each was versioned
+    const parsed = validate(verifyQuery, queryToObject(searchParams));
+    if ('errors' in parsed) {
+      return invalidRequest(parsed.errors);
+    }
+
+    const { serverSeed, clientSeed, nonce, dropColumn, rows, paytableId, rngVersion, hashVersion } = parsed.value;
+
+    if (!PlinkoEngine.isValidDropColumn(dropColumn, rows)) {
+      return invalidRequest({ dropColumn: `must be at most ${rows}` });
     }
 
-    const dropCol = parseInt(dropColumn);
-    if (isNaN(dropCol) || dropCol < 0 || dropCol > 12) {
-      return NextResponse.json(
-        { error: 'Drop column must be a number between 0 and 12' },
-        { status: 400 }
-      );
+    // Replay against the round's recorded paytable; the current medium table otherwise
+    const paytable = paytableId === undefined
+      ? getCurrentPaytable(DEFAULT_RISK, rows)
+      : getPaytable(paytableId);
+    if (!paytable || paytable.rows !== rows) {
+      return invalidRequest({ paytableId: `is not published for ${rows} rows` });
     }
 
     // Recompute all values
     const commitHex = ProvablyFairProtocol.createCommitHash(serverSeed, nonce);
+    const serverSeedHash = ProvablyFairProtocol.createServerSeedHash(serverSeed);
     const combinedSeed = ProvablyFairProtocol.generateCombinedSeed(serverSeed, clientSeed, nonce);
     
     // Replay the game
@@ -36,23 +40,25 @@ export async function GET(request: NextRequest) {
       serverSeed,
       clientSeed, 
       nonce,
-      dropCol,
-      12, // ROWS
-      100 // Bet amount doesn't affect outcome
+      dropColumn,
+      rows,
+      100, // Bet amount doesn't affect outcome
+      { paytableId: paytable.id, rngVersion, hashVersion }
     );
 
     // Verify commitment
     const commitValid = ProvablyFairProtocol.verifyCommit(serverSeed, nonce, commitHex);
 
-    return NextResponse.json({
+    return NextResponse.json<VerifyResponse>({
       // Input values
       serverSeed,
       clientSeed,
       nonce,
-      dropColumn: dropCol,
+      dropColumn,
       
       // Computed values
-      commitHex,
+      commitHex, // Legacy per-round commitment: SHA256(serverSeed:nonce)
+      serverSeedHash, // Seed pair commitment: SHA256(serverSeed)
       combinedSeed,
       pegMapHash: gameResult.pegMapHash,
       binIndex: gameResult.binIndex,
@@ -66,7 +72,11 @@ export async function GET(request: NextRequest) {
       commitValid,
       
       // Additional info
-      rows: 12,
+      rows,
+      paytableId: paytable.id,
+      multipliers: paytable.multipliers,
+      rngVersion,
+      hashVersion,
     });
 
   } catch (error) {
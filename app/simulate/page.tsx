@@ -0,0 +1,285 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { formatCents } from '@/lib/utils';
+import { ROWS, MIN_ROWS, MAX_ROWS } from '@/lib/plinko-core';
+import { DEFAULT_RISK, RISK_LEVELS, RiskLevel } from '@/lib/paytables';
+import type { ErrorResponse, SimulationResponse } from '@/lib/api';
+
+const CHART_HEIGHT = 240;
+
+function formatPercent(value: number, digits = 2): string {
+  return `${(value * 100).toFixed(digits)}%`;
+}
+
+/**
+ * Bin histogram: bars are the simulated share of rounds, ticks the exact probability
+ */
+function BinChart({ report }: { report: SimulationResponse }) {
+  const frequencies = report.histogram.map(count => count / report.rounds);
+  const scale = Math.max(...frequencies, ...report.theoreticalProbabilities) || 1;
+
+  return (
+    <div>
+      <div className="flex items-end gap-1" style={{ height: CHART_HEIGHT }}>
+        {frequencies.map((frequency, bin) => (
+          <div
+            key={bin}
+            className="relative flex-1 h-full"
+            title={`Bin ${bin}: ${report.histogram[bin]} rounds (${formatPercent(frequency)}), expected ${formatPercent(report.theoreticalProbabilities[bin])}`}
+          >
+            <div
+              className="absolute bottom-0 w-full rounded-t bg-indigo-500"
+              style={{ height: `${(frequency / scale) * 100}%` }}
+            />
+            <div
+              className="absolute w-full border-t-2 border-orange-500"
+              style={{ bottom: `${(report.theoreticalProbabilities[bin] / scale) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-1 mt-1">
+        {report.multipliers.map((multiplier, bin) => (
+          <div key={bin} className="flex-1 text-center text-xs text-gray-600">
+            {multiplier}x
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-4 mt-3 text-sm text-gray-600">
+        <span><span className="inline-block w-3 h-3 bg-indigo-500 mr-1" />Simulated</span>
+        <span><span className="inline-block w-3 border-t-2 border-orange-500 mr-1 align-middle" />Theoretical</span>
+      </div>
+    </div>
+  );
+}
+
+export default function SimulatePage() {
+  const [rows, setRows] = useState(ROWS);
+  const [risk, setRisk] = useState<RiskLevel>(DEFAULT_RISK);
+  const [paytableId, setPaytableId] = useState('');
+  const [dropColumn, setDropColumn] = useState(Math.floor(ROWS / 2));
+  const [rounds, setRounds] = useState(10000);
+  const [betCents, setBetCents] = useState(100);
+  const [operatorToken, setOperatorToken] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [report, setReport] = useState<SimulationResponse | null>(null);
+  const [error, setError] = useState('');
+
+  const handleSimulate = async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/simulate', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${operatorToken}`,
+        },
+        body: JSON.stringify({
+          rows,
+          risk,
+          paytableId: paytableId || undefined,
+          dropColumn,
+          rounds,
+          betCents,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error }: ErrorResponse = await response.json();
+        throw new Error(error);
+      }
+
+      setReport(await response.json());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Simulation failed');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const stats: [string, string][] = report
+    ? [
+        ['RTP', `${formatPercent(report.rtp)} (theoretical ${formatPercent(report.theoreticalRtp)})`],
+        ['Hit Frequency', formatPercent(report.hitFrequency)],
+        ['Variance', report.variance.toFixed(4)],
+        ['Standard Deviation', report.standardDeviation.toFixed(4)],
+        ['Total Bet', formatCents(report.totalBetCents)],
+        ['Total Won', formatCents(report.totalWinCents)],
+        ['Player Profit', `${report.profitCents < 0 ? '-' : ''}${formatCents(Math.abs(report.profitCents))}`],
+        ['Max Drawdown', formatCents(report.maxDrawdownCents)],
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Simulation Report
+          </h1>
+          <p className="text-lg text-gray-600">
+            How a board behaves over many rounds
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <Card>
+            <CardHeader>
+              <CardTitle>Parameters</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="rows">Rows</Label>
+                <Input
+                  id="rows"
+                  type="number"
+                  min={MIN_ROWS}
+                  max={MAX_ROWS}
+                  value={rows}
+                  onChange={(e) => setRows(parseInt(e.target.value, 10))}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="risk">Risk</Label>
+                <select
+                  id="risk"
+                  value={risk}
+                  onChange={(e) => setRisk(e.target.value as RiskLevel)}
+                  className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs capitalize"
+                >
+                  {RISK_LEVELS.map(level => (
+                    <option key={level} value={level}>{level}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <Label htmlFor="paytable-id">Paytable</Label>
+                <Input
+                  id="paytable-id"
+                  type="text"
+                  value={paytableId}
+                  onChange={(e) => setPaytableId(e.target.value)}
+                  placeholder="e.g. v1-medium-12 (defaults to current)"
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="drop-column">Drop Column</Label>
+                <Input
+                  id="drop-column"
+                  type="number"
+                  min={0}
+                  max={rows}
+                  value={dropColumn}
+                  onChange={(e) => setDropColumn(parseInt(e.target.value, 10))}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="rounds">Rounds</Label>
+                <Input
+                  id="rounds"
+                  type="number"
+                  min={1}
+                  value={rounds}
+                  onChange={(e) => setRounds(parseInt(e.target.value, 10))}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="bet-cents">Bet (cents)</Label>
+                <Input
+                  id="bet-cents"
+                  type="number"
+                  min={1}
+                  value={betCents}
+                  onChange={(e) => setBetCents(parseInt(e.target.value, 10))}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="operator-token">Operator Token</Label>
+                <Input
+                  id="operator-token"
+                  type="password"
+                  value={operatorToken}
+                  onChange={(e) => setOperatorToken(e.target.value)}
+                  className="font-mono text-sm"
+                />
+              </div>
+
+              {error && (
+                <div className="text-red-600 text-sm bg-red-50 p-3 rounded">
+                  {error}
+                </div>
+              )}
+
+              <Button
+                onClick={handleSimulate}
+                disabled={isLoading}
+                className="w-full"
+                size="lg"
+              >
+                {isLoading ? 'Simulating...' : 'Run Simulation'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <div className="lg:col-span-2 space-y-6">
+            {report ? (
+              <>
+                <Card>
+                  <CardHeader>
+                    <CardTitle>
+                      Bin Distribution ({report.paytableId}, column {report.dropColumn}, {report.rounds.toLocaleString()} rounds)
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <BinChart report={report} />
+                  </CardContent>
+                </Card>
+
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Summary</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                      {stats.map(([label, value]) => (
+                        <div key={label} className="flex justify-between border-b border-gray-200 pb-1">
+                          <span className="text-gray-600">{label}:</span>
+                          <span className="font-semibold">{value}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-500 mt-4 font-mono break-all">
+                      Server seed {report.serverSeed}, client seed {report.clientSeed}, nonces 0–{report.rounds - 1}
+                    </p>
+                  </CardContent>
+                </Card>
+              </>
+            ) : (
+              <Card>
+                <CardContent className="p-6 text-gray-600">
+                  Runs the real engine with throwaway seeds and compares the
+                  result with the exact bin probabilities. Nothing is stored and
+                  no balance changes.
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
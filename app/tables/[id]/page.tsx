@@ -0,0 +1,422 @@
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { useParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import PlinkoAnimation, { AnimatedBall } from '@/components/PlinkoAnimation';
+import { PLAYER_ID_STORAGE_KEY, PLAYER_TOKEN_STORAGE_KEY } from '@/components/PlinkoGame';
+import { PegMap } from '@/lib/plinko-core';
+import { formatCents, formatHash, parseDollars, playerHeaders } from '@/lib/utils';
+import type {
+  CreatePlayerResponse,
+  ErrorResponse,
+  PlayerResponse,
+  PublicTableRound,
+  SharedTableSummary,
+  SharedTablesResponse,
+  TableBall,
+  TableBet,
+  TableBetResponse,
+  TableEvent,
+} from '@/lib/api';
+
+type EventOf<T extends TableEvent['type']> = Extract<TableEvent, { type: T }>;
+
+/**
+ * Even pegs, so the board can be drawn before any ball has dropped
+ */
+function evenPegMap(rows: number): PegMap {
+  return Array.from({ length: rows }, (_, row) => new Array(row + 1).fill(0.5));
+}
+
+export default function SharedTablePage() {
+  const { id } = useParams<{ id: string }>();
+  const [table, setTable] = useState<SharedTableSummary | null>(null);
+  const [playerId, setPlayerId] = useState('');
+  const [playerToken, setPlayerToken] = useState('');
+  // The feed doesn't name players, so our balls are known by the round IDs we placed
+  const [myRoundIds, setMyRoundIds] = useState<string[]>([]);
+  const [balanceCents, setBalanceCents] = useState<number | null>(null);
+  const [round, setRound] = useState<PublicTableRound | null>(null);
+  const [bets, setBets] = useState<TableBet[]>([]);
+  const [lastDrop, setLastDrop] = useState<EventOf<'drop'> | null>(null);
+  const [isAnimating, setIsAnimating] = useState(false);
+  const [isConnected, setIsConnected] = useState(false);
+  const [now, setNow] = useState(() => Date.now());
+  const [dropColumn, setDropColumn] = useState(0);
+  const [betAmount, setBetAmount] = useState('1.00');
+  const [clientSeed, setClientSeed] = useState('');
+  const [isPlacing, setIsPlacing] = useState(false);
+  const [error, setError] = useState('');
+
+  const betCents = parseDollars(betAmount);
+  const secondsLeft = round ? Math.max(0, Math.ceil((new Date(round.closesAt).getTime() - now) / 1000)) : 0;
+  const isMine = (roundId: string) => myRoundIds.includes(roundId);
+  const myBet = bets.find(bet => isMine(bet.roundId));
+  const betOutsideLimits = !!table && (betCents < table.minBetCents || betCents > table.maxBetCents);
+  const canBet = !!playerId && !!round && secondsLeft > 0 && !myBet && !isPlacing &&
+    betCents > 0 && !betOutsideLimits && (balanceCents === null || betCents <= balanceCents);
+
+  // Load the stored player, creating one on first visit (same storage as the main game)
+  useEffect(() => {
+    const loadPlayer = async () => {
+      try {
+        const storedId = window.localStorage.getItem(PLAYER_ID_STORAGE_KEY);
+        const storedToken = window.localStorage.getItem(PLAYER_TOKEN_STORAGE_KEY);
+        if (storedId && storedToken) {
+          const response = await fetch(`/api/players/${storedId}/balance`, { headers: playerHeaders(storedToken) });
+          if (response.ok) {
+            const data: PlayerResponse = await response.json();
+            setPlayerId(data.playerId);
+            setPlayerToken(storedToken);
+            setBalanceCents(data.balanceCents);
+            return;
+          }
+        }
+
+        const response = await fetch('/api/players', { method: 'POST' });
+        if (!response.ok) {
+          throw new Error('Failed to create player');
+        }
+        const data: CreatePlayerResponse = await response.json();
+        window.localStorage.setItem(PLAYER_ID_STORAGE_KEY, data.playerId);
+        window.localStorage.setItem(PLAYER_TOKEN_STORAGE_KEY, data.playerToken);
+        setPlayerId(data.playerId);
+        setPlayerToken(data.playerToken);
+        setBalanceCents(data.balanceCents);
+      } catch (err) {
+        console.error('Error loading player:', err);
+      }
+    };
+
+    loadPlayer();
+  }, []);
+
+  useEffect(() => {
+    fetch('/api/tables')
+      .then(response => response.json())
+      .then((data: SharedTablesResponse) => {
+        const summary = data.tables.find(t => t.tableId === id) ?? null;
+        setTable(summary);
+        if (summary) {
+          setDropColumn(Math.floor(summary.rows / 2));
+        }
+      })
+      .catch(err => console.error('Error loading tables:', err));
+  }, [id]);
+
+  // Live feed; EventSource reconnects on its own and the server replays the current round
+  useEffect(() => {
+    const source = new EventSource(`/api/tables/${id}/stream`);
+
+    source.onopen = () => setIsConnected(true);
+    source.onerror = () => setIsConnected(false);
+
+    source.addEventListener('round', (message) => {
+      const event: EventOf<'round'> = JSON.parse((message as MessageEvent).data);
+      setRound(event.round);
+      setBets(event.bets);
+    });
+
+    source.addEventListener('bet', (message) => {
+      const event: EventOf<'bet'> = JSON.parse((message as MessageEvent).data);
+      setBets(prev =>
+        prev.some(bet => bet.roundId === event.bet.roundId) ? prev : [...prev, event.bet]
+      );
+    });
+
+    source.addEventListener('drop', (message) => {
+      const event: EventOf<'drop'> = JSON.parse((message as MessageEvent).data);
+      setLastDrop(event);
+      setRound(prev => (prev?.tableRoundId === event.round.tableRoundId ? null : prev));
+      setIsAnimating(event.balls.length > 0);
+    });
+
+    return () => source.close();
+  }, [id]);
+
+  // Countdown to the close of betting
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(timer);
+  }, []);
+
+  const refreshBalance = useCallback(async () => {
+    if (!playerId) return;
+    try {
+      const response = await fetch(`/api/players/${playerId}/balance`, { headers: playerHeaders(playerToken) });
+      if (response.ok) {
+        const data: PlayerResponse = await response.json();
+        setBalanceCents(data.balanceCents);
+      }
+    } catch (err) {
+      console.error('Error refreshing balance:', err);
+    }
+  }, [playerId, playerToken]);
+
+  const handleAnimationComplete = useCallback(() => {
+    setIsAnimating(false);
+    // Wins are credited when the round drops
+    if (lastDrop?.balls.some(ball => myRoundIds.includes(ball.roundId))) {
+      refreshBalance();
+    }
+  }, [lastDrop, myRoundIds, refreshBalance]);
+
+  const handlePlaceBet = async () => {
+    setIsPlacing(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/api/tables/${id}/bets`, {
+        method: 'POST',
+        headers: playerHeaders(playerToken, true),
+        body: JSON.stringify({
+          playerId,
+          dropColumn,
+          betCents,
+          clientSeed: clientSeed || undefined,
+        }),
+      });
+
+      if (!response.ok) {
+        const { error }: ErrorResponse = await response.json();
+        throw new Error(error);
+      }
+
+      const data: TableBetResponse = await response.json();
+      setBalanceCents(data.balanceCents);
+      setMyRoundIds(prev => [...prev, data.bet.roundId]);
+      setBets(prev => (prev.some(bet => bet.roundId === data.bet.roundId) ? prev : [...prev, data.bet]));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to place bet');
+    } finally {
+      setIsPlacing(false);
+    }
+  };
+
+  const rows = table?.rows ?? lastDrop?.round.rows ?? 12;
+  const myBall = lastDrop?.balls.find(ball => isMine(ball.roundId));
+  const pegMap = useMemo(
+    () => (myBall ?? lastDrop?.balls[0])?.pegMap ?? evenPegMap(rows),
+    [myBall, lastDrop, rows]
+  );
+  const balls = useMemo<AnimatedBall[] | undefined>(
+    () => lastDrop?.balls.map((ball: TableBall) => ({ path: ball.path, dropColumn: ball.dropColumn })),
+    [lastDrop]
+  );
+
+  const ballLabel = (roundId: string) => (isMine(roundId) ? 'You' : formatHash(roundId, 6));
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 py-8">
+      <div className="container mx-auto px-4">
+        <div className="text-center mb-8">
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            {table?.name ?? 'Shared Table'}
+          </h1>
+          <p className="text-lg text-gray-600">
+            One server seed per round • Everyone&apos;s balls drop together
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <div className="lg:col-span-2 space-y-6">
+            <Card>
+              <CardContent className="p-6">
+                <PlinkoAnimation
+                  pegMap={pegMap}
+                  balls={balls}
+                  isAnimating={isAnimating}
+                  onAnimationComplete={handleAnimationComplete}
+                  dropColumn={myBet?.dropColumn ?? dropColumn}
+                  rows={rows}
+                  multipliers={round?.multipliers ?? lastDrop?.round.multipliers}
+                  enableSound={false}
+                />
+              </CardContent>
+            </Card>
+
+            {lastDrop && !isAnimating && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Last Drop (chain index {lastDrop.round.chainIndex})</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {lastDrop.balls.length === 0 ? (
+                    <p className="text-sm text-gray-600">Nobody played this round.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1 pr-2 font-medium">Ball</th>
+                          <th className="py-1 pr-2 font-medium">Column</th>
+                          <th className="py-1 pr-2 font-medium">Bin</th>
+                          <th className="py-1 pr-2 font-medium">Win</th>
+                          <th className="py-1" />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {lastDrop.balls.map(ball => (
+                          <tr
+                            key={ball.roundId}
+                            className={`border-t border-gray-100 ${isMine(ball.roundId) ? 'font-semibold' : ''}`}
+                          >
+                            <td className="py-1 pr-2">{ballLabel(ball.roundId)}</td>
+                            <td className="py-1 pr-2">{ball.dropColumn}</td>
+                            <td className="py-1 pr-2">{ball.binIndex} ({ball.payoutMultiplier}x)</td>
+                            <td className="py-1 pr-2">{formatCents(ball.winAmount)}</td>
+                            <td className="py-1 text-right">
+                              <a href={`/verify?roundId=${ball.roundId}`} className="text-blue-600 hover:underline">
+                                Verify
+                              </a>
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <p className="text-xs text-gray-500 font-mono break-all">
+                    Server seed {lastDrop.round.serverSeed}
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  Current Round
+                  <span className={`text-xs font-normal ${isConnected ? 'text-green-600' : 'text-orange-600'}`}>
+                    {isConnected ? '● Live' : '● Reconnecting'}
+                  </span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                {round ? (
+                  <>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Betting closes in:</span>
+                      <span className="font-semibold">{secondsLeft}s</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Chain Index:</span>
+                      <span className="font-mono">{round.chainIndex}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Commit Hash:</span>
+                      <span className="font-mono">{formatHash(round.commitHex)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      The commit hash is the previous round&apos;s seed, and the chain ends at the
+                      terminal hash published on <a href="/api/chain" className="text-blue-600 hover:underline">/api/chain</a>.
+                    </p>
+                  </>
+                ) : (
+                  <p className="text-gray-600">Waiting for the next round...</p>
+                )}
+
+                <div className="pt-3 border-t border-gray-200">
+                  <div className="font-semibold text-gray-700 mb-2">Balls ({bets.length})</div>
+                  {bets.length === 0 ? (
+                    <p className="text-gray-500">No balls yet</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {bets.map(bet => (
+                        <li key={bet.roundId} className="flex justify-between">
+                          <span>{ballLabel(bet.roundId)}</span>
+                          <span className="text-gray-600">
+                            column {bet.dropColumn} • {formatCents(bet.betCents)}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Your Ball</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="drop-column">Drop Column: {dropColumn}</Label>
+                  <Slider
+                    id="drop-column"
+                    min={0}
+                    max={rows}
+                    step={1}
+                    value={[dropColumn]}
+                    onValueChange={(value) => setDropColumn(value[0])}
+                    className="mt-2"
+                    disabled={!!myBet}
+                  />
+                </div>
+
+                <div>
+                  <div className="flex justify-between">
+                    <Label htmlFor="bet-amount">Bet Amount</Label>
+                    <span className="text-sm text-gray-600">
+                      Balance: {balanceCents === null ? '...' : formatCents(balanceCents)}
+                    </span>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-1">
+                    <span className="text-gray-700">$</span>
+                    <Input
+                      id="bet-amount"
+                      type="text"
+                      value={betAmount}
+                      onChange={(e) => /^\d*\.?\d*$/.test(e.target.value) && setBetAmount(e.target.value)}
+                      disabled={!!myBet}
+                      aria-invalid={betOutsideLimits}
+                    />
+                  </div>
+                  {table && (
+                    <div className={`text-sm mt-1 ${betOutsideLimits ? 'text-red-600' : 'text-gray-500'}`}>
+                      Limits: {formatCents(table.minBetCents)} – {formatCents(table.maxBetCents)}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <Label htmlFor="client-seed">Client Seed</Label>
+                  <Input
+                    id="client-seed"
+                    type="text"
+                    value={clientSeed}
+                    onChange={(e) => setClientSeed(e.target.value)}
+                    placeholder="Random if left blank"
+                    className="font-mono text-sm"
+                    disabled={!!myBet}
+                  />
+                </div>
+
+                {error && (
+                  <div className="text-red-600 text-sm bg-red-50 p-3 rounded">
+                    {error}
+                  </div>
+                )}
+
+                <Button
+                  onClick={handlePlaceBet}
+                  disabled={!canBet}
+                  className="w-full"
+                  size="lg"
+                >
+                  {myBet ? 'Ball Placed' : isPlacing ? 'Placing...' : 'Place Ball'}
+                </Button>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useMemo, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,22 +8,60 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import PlinkoAnimation from '@/components/PlinkoAnimation';
 import { formatHash } from '@/lib/utils';
-import { PegMap, GamePath } from '@/lib/engine';
-
-interface VerificationResult {
-  serverSeed: string;
-  clientSeed: string;
-  nonce: string;
-  dropColumn: number;
-  commitHex: string;
-  combinedSeed: string;
-  pegMapHash: string;
-  binIndex: number;
-  payoutMultiplier: number;
-  pegMap: PegMap;
-  path: GamePath[];
-  commitValid: boolean;
-  rows: number;
+import {
+  ROWS,
+  MIN_ROWS,
+  MAX_ROWS,
+  RNG_VERSION_XORSHIFT32,
+  RNG_VERSION_HMAC_SHA256,
+  HASH_VERSION_JSON,
+  HASH_VERSION_CANONICAL,
+  PlinkoCore,
+} from '@/lib/plinko-core';
+import { RtpCalculator } from '@/lib/rtp';
+import { WebReplayResult, WebVerifier } from '@/lib/web-verifier';
+import type { ErrorResponse, PublicRound, VerifyResponse } from '@/lib/api';
+
+interface FieldComparison {
+  label: string;
+  browser: string;
+  server: string;
+  match: boolean;
+}
+
+/**
+ * Field-by-field comparison of the browser replay against the server's answer
+ */
+function compareResults(browser: WebReplayResult, server: VerifyResponse): FieldComparison[] {
+  const fields: [string, string, string, boolean?][] = [
+    ['Server Seed Hash', browser.serverSeedHash, server.serverSeedHash],
+    ['Commit Hash (legacy)', browser.commitHex, server.commitHex],
+    ['Combined Seed', browser.combinedSeed, server.combinedSeed],
+    ['Peg Map Hash', browser.pegMapHash, server.pegMapHash],
+    [
+      'Path',
+      browser.path.map(step => step.column).join(' → '),
+      server.path.map(step => step.column).join(' → '),
+    ],
+    ['Final Bin', String(browser.binIndex), String(server.binIndex)],
+    [
+      'Payout Multiplier',
+      `${browser.payoutMultiplier}x`,
+      `${server.payoutMultiplier}x`,
+      browser.payoutMultiplier === server.payoutMultiplier,
+    ],
+  ];
+
+  return fields.map(([label, b, s, match]) => ({ label, browser: b, server: s, match: match ?? b === s }));
+}
+
+interface BinOdds {
+  board: number[]; // Exact odds for the replayed peg map
+  average: number[]; // Odds averaged over every peg map
+}
+
+function expectedReturn(probabilities: number[], multipliers: number[]): number {
+  return probabilities.reduce((sum, p, bin) => sum + p * multipliers[bin], 0);
 }
 
 function VerifyPageContent() {
@@ -32,11 +70,17 @@ function VerifyPageContent() {
   const [clientSeed, setClientSeed] = useState('');
   const [nonce, setNonce] = useState('');
   const [dropColumn, setDropColumn] = useState(0);
+  const [rows, setRows] = useState(ROWS);
+  const [paytableId, setPaytableId] = useState('');
+  const [rngVersion, setRngVersion] = useState(RNG_VERSION_XORSHIFT32);
+  const [hashVersion, setHashVersion] = useState(HASH_VERSION_JSON);
   const [isLoading, setIsLoading] = useState(false);
-  const [result, setResult] = useState<VerificationResult | null>(null);
+  const [result, setResult] = useState<WebReplayResult | null>(null);
+  const [serverResult, setServerResult] = useState<VerifyResponse | null>(null);
+  const [serverError, setServerError] = useState<string>('');
   const [error, setError] = useState<string>('');
   const [showReplay, setShowReplay] = useState(false);
-  const [roundData, setRoundData] = useState<any>(null);
+  const [roundData, setRoundData] = useState<PublicRound | null>(null);
 
   // Load from URL params if provided
   useEffect(() => {
@@ -44,12 +88,20 @@ function VerifyPageContent() {
     const clientSeedParam = searchParams.get('clientSeed');
     const nonceParam = searchParams.get('nonce');
     const dropColumnParam = searchParams.get('dropColumn');
+    const rowsParam = searchParams.get('rows');
+    const paytableIdParam = searchParams.get('paytableId');
+    const rngVersionParam = searchParams.get('rngVersion');
+    const hashVersionParam = searchParams.get('hashVersion');
     const roundIdParam = searchParams.get('roundId');
 
     if (serverSeedParam) setServerSeed(serverSeedParam);
     if (clientSeedParam) setClientSeed(clientSeedParam);
     if (nonceParam) setNonce(nonceParam);
     if (dropColumnParam) setDropColumn(parseInt(dropColumnParam, 10));
+    if (rowsParam) setRows(parseInt(rowsParam, 10));
+    if (paytableIdParam) setPaytableId(paytableIdParam);
+    if (rngVersionParam) setRngVersion(parseInt(rngVersionParam, 10));
+    if (hashVersionParam) setHashVersion(parseInt(hashVersionParam, 10));
 
     // If roundId is provided, fetch the round data
     if (roundIdParam) {
@@ -61,7 +113,7 @@ function VerifyPageContent() {
     try {
       const response = await fetch(`/api/rounds/${roundId}`);
       if (response.ok) {
-        const data = await response.json();
+        const data: PublicRound = await response.json();
         setRoundData(data);
         
         // Pre-fill form if round is revealed
@@ -70,10 +122,18 @@ function VerifyPageContent() {
           setClientSeed(data.clientSeed || '');
           setNonce(data.nonce || '');
           setDropColumn(data.dropColumn || 0);
+          setRows(data.rows || ROWS);
+          setPaytableId(data.paytableId || '');
+          setRngVersion(data.rngVersion || RNG_VERSION_XORSHIFT32);
+          setHashVersion(data.hashVersion || HASH_VERSION_JSON);
         } else {
           setClientSeed(data.clientSeed || '');
           setNonce(data.nonce || '');
           setDropColumn(data.dropColumn || 0);
+          setRows(data.rows || ROWS);
+          setPaytableId(data.paytableId || '');
+          setRngVersion(data.rngVersion || RNG_VERSION_XORSHIFT32);
+          setHashVersion(data.hashVersion || HASH_VERSION_JSON);
         }
       }
     } catch (err) {
@@ -89,33 +149,75 @@ function VerifyPageContent() {
 
     setIsLoading(true);
     setError('');
+    setServerError('');
     setResult(null);
+    setServerResult(null);
 
-    try {
+    const fetchServerResult = async (): Promise<VerifyResponse> => {
       const params = new URLSearchParams({
         serverSeed,
         clientSeed,
         nonce,
         dropColumn: dropColumn.toString(),
+        rows: rows.toString(),
+        rngVersion: rngVersion.toString(),
+        hashVersion: hashVersion.toString(),
       });
+      // Without a paytable the server replays against the current default table
+      if (paytableId) params.set('paytableId', paytableId);
 
       const response = await fetch(`/api/verify?${params}`);
-      
+
       if (!response.ok) {
-        const errorData = await response.json();
+        const errorData: ErrorResponse = await response.json();
         throw new Error(errorData.error || 'Verification failed');
       }
 
-      const verificationResult = await response.json();
-      setResult(verificationResult);
+      return response.json();
+    };
 
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Verification failed');
-    } finally {
-      setIsLoading(false);
+    // Recompute locally and ask the server at the same time; the local replay
+    // is the one that counts, the server's answer is only compared against it
+    const [local, remote] = await Promise.allSettled([
+      WebVerifier.replay({
+        serverSeed,
+        clientSeed,
+        nonce,
+        dropColumn,
+        rows,
+        paytableId: paytableId || undefined,
+        rngVersion,
+        hashVersion,
+      }),
+      fetchServerResult(),
+    ]);
+
+    if (local.status === 'fulfilled') {
+      setResult(local.value);
+    } else {
+      setError(local.reason instanceof Error ? local.reason.message : 'Verification failed');
+    }
+
+    if (remote.status === 'fulfilled') {
+      setServerResult(remote.value);
+    } else {
+      setServerError(remote.reason instanceof Error ? remote.reason.message : 'Server verification failed');
     }
+
+    setIsLoading(false);
   };
 
+  const odds = useMemo<BinOdds | null>(() => result && {
+    board: PlinkoCore.getBinProbabilities(result.pegMap, result.dropColumn),
+    average: RtpCalculator.getBinProbabilities(result.rows, result.dropColumn),
+  }, [result]);
+
+  const comparison = result && serverResult ? compareResults(result, serverResult) : null;
+  const serverAgrees = comparison?.every(field => field.match) ?? false;
+  const commitMatches = result && roundData
+    ? [result.serverSeedHash, result.commitHex].includes(roundData.commitHex)
+    : null;
+
   const handleReplayAnimation = () => {
     setShowReplay(true);
     setTimeout(() => setShowReplay(false), 5000); // Reset after 5 seconds
@@ -177,13 +279,63 @@ function VerifyPageContent() {
                   />
                 </div>
 
+                <div>
+                  <Label htmlFor="rows">Rows</Label>
+                  <Input
+                    id="rows"
+                    type="number"
+                    min={MIN_ROWS}
+                    max={MAX_ROWS}
+                    value={rows}
+                    onChange={(e) => setRows(parseInt(e.target.value, 10))}
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="rng-version">RNG Version</Label>
+                  <select
+                    id="rng-version"
+                    value={rngVersion}
+                    onChange={(e) => setRngVersion(parseInt(e.target.value, 10))}
+                    className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                  >
+                    <option value={RNG_VERSION_XORSHIFT32}>1 - XORShift32</option>
+                    <option value={RNG_VERSION_HMAC_SHA256}>2 - HMAC-SHA256 stream</option>
+                  </select>
+                </div>
+
+                <div>
+                  <Label htmlFor="hash-version">Peg Map Hash Version</Label>
+                  <select
+                    id="hash-version"
+                    value={hashVersion}
+                    onChange={(e) => setHashVersion(parseInt(e.target.value, 10))}
+                    className="border-input h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-xs"
+                  >
+                    <option value={HASH_VERSION_JSON}>1 - JSON</option>
+                    <option value={HASH_VERSION_CANONICAL}>2 - Integer millionths</option>
+                  </select>
+                </div>
+
+                <div>
+                  <Label htmlFor="paytable-id">Paytable</Label>
+                  <Input
+                    id="paytable-id"
+                    type="text"
+                    value={paytableId}
+                    onChange={(e) => setPaytableId(e.target.value)}
+                    placeholder="e.g. v2-medium-12 (defaults to current medium)"
+                    className="font-mono text-sm"
+                  />
+                </div>
+
                 <div>
                   <Label htmlFor="drop-column">Drop Column</Label>
                   <Input
                     id="drop-column"
                     type="number"
                     min={0}
-                    max={12}
+                    max={rows}
                     value={dropColumn}
                     onChange={(e) => setDropColumn(parseInt(e.target.value, 10))}
                   />
@@ -254,16 +406,23 @@ function VerifyPageContent() {
                   <CardHeader>
                     <CardTitle className="flex items-center gap-2">
                       Verification Results
-                      {result.commitValid ? (
+                      {commitMatches !== null && (commitMatches ? (
                         <span className="text-green-600 text-sm">✓ VALID</span>
                       ) : (
                         <span className="text-red-600 text-sm">✗ INVALID</span>
-                      )}
+                      ))}
                     </CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-3">
+                    <p className="text-xs text-gray-500">
+                      Computed in your browser with Web Crypto
+                    </p>
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Commit Hash:</span>
+                      <span className="text-gray-600">Server Seed Hash:</span>
+                      <span className="font-mono">{formatHash(result.serverSeedHash)}</span>
+                    </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Commit Hash (legacy):</span>
                       <span className="font-mono">{formatHash(result.commitHex)}</span>
                     </div>
                     <div className="flex justify-between text-sm">
@@ -282,6 +441,10 @@ function VerifyPageContent() {
                       <span className="text-gray-600">Payout Multiplier:</span>
                       <span className="font-semibold">{result.payoutMultiplier}x</span>
                     </div>
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Paytable:</span>
+                      <span className="font-mono">{result.paytableId}</span>
+                    </div>
 
                     {/* Comparison with original data */}
                     {roundData && (
@@ -290,6 +453,16 @@ function VerifyPageContent() {
                           Comparison with Original:
                         </div>
                         <div className="space-y-2">
+                          <div className="flex justify-between text-xs">
+                            <span>Commit Match:</span>
+                            <span className={
+                              commitMatches
+                                ? 'text-green-600 font-semibold'
+                                : 'text-red-600 font-semibold'
+                            }>
+                              {commitMatches ? '✓ MATCH' : '✗ MISMATCH'}
+                            </span>
+                          </div>
                           <div className="flex justify-between text-xs">
                             <span>Bin Match:</span>
                             <span className={
@@ -324,6 +497,51 @@ function VerifyPageContent() {
                   </CardContent>
                 </Card>
 
+                {/* Browser vs Server */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      Browser vs Server
+                      {comparison && (serverAgrees ? (
+                        <span className="text-green-600 text-sm">✓ AGREE</span>
+                      ) : (
+                        <span className="text-red-600 text-sm">✗ DISAGREE</span>
+                      ))}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    {serverError && (
+                      <div className="text-orange-700 text-sm bg-orange-50 p-3 rounded">
+                        Server verification unavailable: {serverError}
+                      </div>
+                    )}
+                    {comparison && (
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1 pr-2 font-medium">Field</th>
+                            <th className="py-1 pr-2 font-medium">Browser</th>
+                            <th className="py-1 pr-2 font-medium">Server</th>
+                            <th className="py-1" />
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {comparison.map(field => (
+                            <tr key={field.label} className="border-t border-gray-100">
+                              <td className="py-1 pr-2 text-gray-600">{field.label}</td>
+                              <td className="py-1 pr-2 font-mono break-all">{formatHash(field.browser)}</td>
+                              <td className="py-1 pr-2 font-mono break-all">{formatHash(field.server)}</td>
+                              <td className={`py-1 font-semibold ${field.match ? 'text-green-600' : 'text-red-600'}`}>
+                                {field.match ? '✓' : '✗'}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </CardContent>
+                </Card>
+
                 {/* Animation Replay */}
                 <Card>
                   <CardContent className="p-6">
@@ -333,10 +551,60 @@ function VerifyPageContent() {
                       isAnimating={showReplay}
                       onAnimationComplete={() => setShowReplay(false)}
                       dropColumn={result.dropColumn}
+                      rows={result.rows}
+                      multipliers={result.multipliers}
+                      binProbabilities={odds?.board}
                       enableSound={false} // Disable sound for verification
                     />
                   </CardContent>
                 </Card>
+
+                {/* Odds for the board that was played */}
+                {odds && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>Bin Odds</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <p className="text-xs text-gray-500">
+                        Exact chance of each bin from column {result.dropColumn} on this peg map,
+                        next to the average over all peg maps
+                      </p>
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="py-1 pr-2 font-medium">Bin</th>
+                            <th className="py-1 pr-2 font-medium">Multiplier</th>
+                            <th className="py-1 pr-2 font-medium">This Board</th>
+                            <th className="py-1 font-medium">Average Board</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {odds.board.map((probability, bin) => (
+                            <tr
+                              key={bin}
+                              className={`border-t border-gray-100 ${bin === result.binIndex ? 'bg-emerald-50 font-semibold' : ''}`}
+                            >
+                              <td className="py-1 pr-2">{bin}</td>
+                              <td className="py-1 pr-2">{result.multipliers[bin]}x</td>
+                              <td className="py-1 pr-2 font-mono">{(probability * 100).toFixed(3)}%</td>
+                              <td className="py-1 font-mono">{(odds.average[bin] * 100).toFixed(3)}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <div className="flex justify-between text-sm pt-2 border-t border-gray-200">
+                        <span className="text-gray-600">Expected Return:</span>
+                        <span className="font-semibold">
+                          {(expectedReturn(odds.board, result.multipliers) * 100).toFixed(2)}%
+                          <span className="text-gray-500 font-normal">
+                            {' '}(average {(expectedReturn(odds.average, result.multipliers) * 100).toFixed(2)}%)
+                          </span>
+                        </span>
+                      </div>
+                    </CardContent>
+                  </Card>
+                )}
               </>
             )}
 
@@ -348,20 +616,24 @@ function VerifyPageContent() {
                 </CardHeader>
                 <CardContent className="text-sm text-gray-600 space-y-2">
                   <p>
-                    1. <strong>Server Seed:</strong> Only available after the round is revealed
+                    1. <strong>Server Seed:</strong> Revealed when you rotate your seed pair
                   </p>
                   <p>
                     2. <strong>Client Seed:</strong> The seed you provided before playing
                   </p>
                   <p>
-                    3. <strong>Nonce:</strong> The unique round identifier
+                    3. <strong>Nonce:</strong> The round&apos;s position in its seed pair (0, 1, 2, ...)
+                  </p>
+                  <p>
+                    4. <strong>Rows:</strong> The board size committed with the round ({MIN_ROWS}-{MAX_ROWS})
                   </p>
                   <p>
-                    4. <strong>Drop Column:</strong> Where you chose to drop the ball (0-12)
+                    5. <strong>Drop Column:</strong> Where you chose to drop the ball (0 to rows)
                   </p>
                   <p className="pt-2 border-t border-gray-200">
-                    The verification recomputes the entire game using the same deterministic
-                    algorithm and compares the results with the original round.
+                    The verification recomputes the entire game in your browser using the same
+                    deterministic algorithm, then compares the results with the server&apos;s
+                    answer and the original round.
                   </p>
                 </CardContent>
               </Card>
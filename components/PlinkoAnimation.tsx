@@ -1,16 +1,25 @@
 'use client';
 
-import { useEffect, useRef, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import Confetti from 'react-confetti';
-import { PegMap, GamePath, ROWS } from '@/lib/engine';
+import { PegMap, GamePath, ROWS } from '@/lib/plinko-core';
+
+export interface AnimatedBall {
+  path: GamePath[];
+  dropColumn: number;
+}
 
 interface PlinkoAnimationProps {
   pegMap?: PegMap;
   path?: GamePath[];
+  balls?: AnimatedBall[]; // Several balls dropped together (auto-bet); overrides path
   isAnimating: boolean;
   onAnimationComplete: () => void;
   dropColumn: number;
+  rows?: number;
+  multipliers?: number[];
+  binProbabilities?: number[]; // Shaded behind each bin, scaled to the likeliest one
   enableSound?: boolean;
   tiltAngle?: number;
   isDarkTheme?: boolean;
@@ -19,14 +28,18 @@ interface PlinkoAnimationProps {
 export default function PlinkoAnimation({
   pegMap,
   path,
+  balls: ballsProp,
   isAnimating,
   onAnimationComplete,
   dropColumn,
+  rows: rowsProp,
+  multipliers,
+  binProbabilities,
   enableSound = true,
   tiltAngle = 0,
   isDarkTheme = false
 }: PlinkoAnimationProps) {
-  const [ballPosition, setBallPosition] = useState({ x: 0, y: 0 });
+  const [ballPositions, setBallPositions] = useState([{ x: 0, y: 0 }]);
   const [currentStep, setCurrentStep] = useState(-1);
   const [showConfetti, setShowConfetti] = useState(false);
   const [windowSize, setWindowSize] = useState({ width: 0, height: 0 });
@@ -63,69 +76,88 @@ export default function PlinkoAnimation({
   const BOARD_HEIGHT = 500;
   const PEG_SIZE = 8;
   const BALL_SIZE = 12;
-  
-  const rowHeight = BOARD_HEIGHT / (ROWS + 2);
+
+  // Board size comes from the peg map when we have one, so any row count lays out
+  const rows = pegMap?.length ?? rowsProp ?? ROWS;
+  const rowHeight = BOARD_HEIGHT / (rows + 2);
 
   // Calculate ball starting position
-  const startX = (dropColumn / ROWS) * BOARD_WIDTH;
+  const startX = (dropColumn / rows) * BOARD_WIDTH;
   const startY = 0;
 
+  // A single path animates as one ball dropped from the selected column
+  const balls = useMemo<AnimatedBall[]>(
+    () => ballsProp ?? (path && path.length > 0 ? [{ path, dropColumn }] : []),
+    [ballsProp, path, dropColumn]
+  );
+
   // Animation effect
   useEffect(() => {
-    if (!isAnimating || !path || path.length === 0) {
+    if (!isAnimating || balls.length === 0) {
       setCurrentStep(-1);
-      setBallPosition({ x: startX, y: startY });
+      setBallPositions([{ x: startX, y: startY }]);
       return;
     }
 
-    let stepIndex = 0;
-    setBallPosition({ x: startX, y: startY });
+    const timers: ReturnType<typeof setTimeout>[] = [];
+    const schedule = (callback: () => void, delay: number) => {
+      timers.push(setTimeout(callback, delay));
+    };
+
+    // Batches drop faster, with balls released one after another
+    const stepDelay = balls.length > 1 ? 120 : 300;
+    const releaseDelay = balls.length > 1 ? 250 : 0;
+    const moveBall = (index: number, position: { x: number; y: number }) => {
+      setBallPositions(prev => prev.map((p, i) => (i === index ? position : p)));
+    };
+
+    setBallPositions(balls.map(ball => ({ x: (ball.dropColumn / rows) * BOARD_WIDTH, y: startY })));
     setCurrentStep(0);
 
-    const animateStep = () => {
-      if (stepIndex >= path.length) {
-        // Final step: animate ball to the bottom bin
-        const lastStep = path[path.length - 1];
-        const finalBinX = (lastStep.column / ROWS) * BOARD_WIDTH;
-        const finalBinY = BOARD_HEIGHT - 20; // Bottom of the board
-        
-        setBallPosition({ x: finalBinX, y: finalBinY });
-        
+    let remaining = balls.length;
+    balls.forEach((ball, index) => {
+      const release = 500 + index * releaseDelay; // Start animation after a brief delay
+
+      ball.path.forEach((step, stepIndex) => {
+        schedule(() => {
+          // Play sound effect
+          if (soundRef.current && enableSound) {
+            soundRef.current.play();
+          }
+
+          // Animate to next position
+          moveBall(index, { x: (step.column / rows) * BOARD_WIDTH, y: (step.row + 1) * rowHeight });
+          setCurrentStep(prev => Math.max(prev, stepIndex));
+        }, release + stepIndex * stepDelay);
+      });
+
+      // Final step: animate ball to the bottom bin
+      schedule(() => {
+        const lastStep = ball.path[ball.path.length - 1];
+        moveBall(index, { x: (lastStep.column / rows) * BOARD_WIDTH, y: BOARD_HEIGHT - 20 });
+
+        remaining--;
+        if (remaining > 0) {
+          return;
+        }
+
         // Show results immediately, then confetti after a delay
-        setTimeout(() => {
+        schedule(() => {
           onAnimationComplete(); // This will show the results
-          
+
           // Show confetti after results are displayed
-          setTimeout(() => {
+          schedule(() => {
             setShowConfetti(true);
-            setTimeout(() => {
+            schedule(() => {
               setShowConfetti(false);
             }, 2000);
           }, 500); // 500ms delay before confetti starts
         }, 300);
-        return;
-      }
-
-      const step = path[stepIndex];
-      const targetX = (step.column / ROWS) * BOARD_WIDTH;
-      const targetY = (step.row + 1) * rowHeight;
+      }, release + ball.path.length * stepDelay);
+    });
 
-      // Play sound effect
-      if (soundRef.current && enableSound) {
-        soundRef.current.play();
-      }
-
-      // Animate to next position
-      setBallPosition({ x: targetX, y: targetY });
-      setCurrentStep(stepIndex);
-
-      stepIndex++;
-      setTimeout(animateStep, 300); // 300ms between steps
-    };
-
-    // Start animation after a brief delay
-    setTimeout(animateStep, 500);
-  }, [isAnimating, path, startX, startY, onAnimationComplete, enableSound]);
+    return () => timers.forEach(clearTimeout);
+  }, [isAnimating, balls, rows, rowHeight, startX, startY, onAnimationComplete, enableSound]);
 
   if (!pegMap) {
     return (
@@ -188,12 +220,12 @@ export default function PlinkoAnimation({
         )}
 
         {/* Bin Lines */}
-        {Array.from({ length: ROWS + 2 }, (_, i) => (
+        {Array.from({ length: rows + 2 }, (_, i) => (
           <div
             key={`bin-line-${i}`}
             className={`absolute ${isDarkTheme ? 'bg-gray-600' : 'bg-gray-300'}`}
             style={{
-              left: (i / (ROWS + 1)) * BOARD_WIDTH,
+              left: (i / (rows + 1)) * BOARD_WIDTH,
               top: BOARD_HEIGHT - 30,
               width: 1,
               height: 30,
@@ -202,7 +234,7 @@ export default function PlinkoAnimation({
         ))}
 
         {/* Drop Zone Indicators */}
-        {Array.from({ length: ROWS + 1 }, (_, i) => (
+        {Array.from({ length: rows + 1 }, (_, i) => (
           <div
             key={`drop-zone-${i}`}
             className={`absolute transition-all duration-300 ${
@@ -211,7 +243,7 @@ export default function PlinkoAnimation({
                 : (isDarkTheme ? 'bg-gray-600' : 'bg-gray-200')
             } rounded-sm shadow-md`}
             style={{
-              left: (i / ROWS) * BOARD_WIDTH - 10,
+              left: (i / rows) * BOARD_WIDTH - 10,
               top: -15,
               width: 20,
               height: 8,
@@ -219,34 +251,51 @@ export default function PlinkoAnimation({
           />
         ))}
 
-        {/* Animated Ball */}
-        <motion.div
-          className={`absolute rounded-full ${isDarkTheme ? 'bg-red-500 shadow-red-600' : 'bg-red-500 shadow-red-700'} shadow-lg z-10`}
-          style={{
-            width: BALL_SIZE,
-            height: BALL_SIZE,
-            left: ballPosition.x - BALL_SIZE / 2,
-            top: ballPosition.y - BALL_SIZE / 2,
-          }}
-          animate={{
-            scale: isAnimating && currentStep >= 0 ? [1, 1.2, 1] : 1,
-          }}
-          transition={{
-            duration: 0.3,
-            repeat: isAnimating && currentStep >= 0 ? Infinity : 0,
-          }}
-        />
+        {/* Animated Balls */}
+        {ballPositions.map((position, index) => (
+          <motion.div
+            key={`ball-${index}`}
+            className={`absolute rounded-full ${isDarkTheme ? 'bg-red-500 shadow-red-600' : 'bg-red-500 shadow-red-700'} shadow-lg z-10`}
+            style={{
+              width: BALL_SIZE,
+              height: BALL_SIZE,
+              left: position.x - BALL_SIZE / 2,
+              top: position.y - BALL_SIZE / 2,
+            }}
+            animate={{
+              scale: isAnimating && currentStep >= 0 ? [1, 1.2, 1] : 1,
+            }}
+            transition={{
+              duration: 0.3,
+              repeat: isAnimating && currentStep >= 0 ? Infinity : 0,
+            }}
+          />
+        ))}
+
+        {/* Bin Probability Overlay */}
+        {binProbabilities && (
+          <div className="absolute bottom-0 left-0 right-0 flex items-end" style={{ height: 30 }}>
+            {binProbabilities.map((probability, i) => (
+              <div
+                key={`bin-probability-${i}`}
+                className={`flex-1 ${isDarkTheme ? 'bg-orange-400/40' : 'bg-emerald-400/40'}`}
+                style={{ height: `${(probability / Math.max(...binProbabilities)) * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
 
         {/* Bin Labels */}
         <div className="absolute bottom-0 left-0 right-0 flex">
-          {Array.from({ length: ROWS + 1 }, (_, i) => (
+          {Array.from({ length: rows + 1 }, (_, i) => (
             <div
               key={`bin-${i}`}
-              className={`flex-1 text-center py-1 text-xs font-bold ${
+              title={binProbabilities ? `${(binProbabilities[i] * 100).toFixed(3)}% chance` : undefined}
+              className={`flex-1 text-center py-1 ${multipliers ? 'text-[10px]' : 'text-xs'} font-bold ${
                 isDarkTheme ? 'text-orange-300' : 'text-gray-700'
               }`}
             >
-              {i}
+              {multipliers ? `${multipliers[i]}x` : i}
             </div>
           ))}
         </div>
@@ -1,50 +1,170 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
-import PlinkoAnimation from './PlinkoAnimation';
-import { PegMap, GamePath } from '@/lib/engine';
-import { formatCents, generateClientSeed } from '@/lib/utils';
-
-interface GameResult {
-  roundId: string;
-  status: string;
-  nonce: string;
-  commitHex: string;
-  clientSeed: string;
-  combinedSeed: string;
-  pegMapHash: string;
-  dropColumn: number;
-  binIndex: number;
-  payoutMultiplier: number;
-  betCents: number;
-  pegMap: PegMap;
-  path: GamePath[];
-  winAmount: number;
+import PlinkoAnimation, { AnimatedBall } from './PlinkoAnimation';
+import RoundHistory, { SessionSummary } from './RoundHistory';
+import { ROWS, MIN_ROWS, MAX_ROWS } from '@/lib/plinko-core';
+import { DEFAULT_RISK, RISK_LEVELS, RiskLevel, getCurrentPaytable, getPaytable } from '@/lib/paytables';
+import { MAX_BATCH_SIZE, AutoBetStopReason } from '@/lib/auto-bet';
+import { formatCents, formatHash, generateClientSeed, parseDollars, playerHeaders } from '@/lib/utils';
+import type {
+  AutoBetResponse,
+  CommitRoundResponse,
+  CreatePlayerResponse,
+  ErrorResponse,
+  InsufficientFundsResponse,
+  PlayerResponse,
+  PublicSeedPair,
+  SeedPairsResponse,
+  StartRoundResponse,
+  TableConfigResponse,
+} from '@/lib/api';
+
+const STOP_REASON_LABELS: Record<AutoBetStopReason, string> = {
+  COMPLETED: 'All drops played',
+  PROFIT_TARGET: 'Profit target reached',
+  LOSS_LIMIT: 'Loss limit reached',
+  INSUFFICIENT_FUNDS: 'Insufficient funds',
+  ERROR: 'Stopped by a server error',
+};
+
+/**
+ * Closest row count the table allows (slider positions in between snap to it)
+ */
+function nearestAllowedRows(allowedRows: number[], rows: number): number {
+  return allowedRows.reduce((best, allowed) => (Math.abs(allowed - rows) < Math.abs(best - rows) ? allowed : best));
 }
 
+export const PLAYER_ID_STORAGE_KEY = 'plinko-player-id';
+export const PLAYER_TOKEN_STORAGE_KEY = 'plinko-player-token';
+
+// Session P&L lives in sessionStorage so it survives reloads but not new tabs
+const SESSION_STORAGE_KEY = 'plinko-session';
+
 export default function PlinkoGame() {
-  const [dropColumn, setDropColumn] = useState(6);
+  const [rows, setRows] = useState(ROWS);
+  const [risk, setRisk] = useState<RiskLevel>(DEFAULT_RISK);
+  const [dropColumn, setDropColumn] = useState(Math.floor(ROWS / 2));
   const [betAmount, setBetAmount] = useState('1.00');
   const [clientSeed, setClientSeed] = useState('');
+  const [seedPair, setSeedPair] = useState<PublicSeedPair | null>(null);
+  const [previousSeedPair, setPreviousSeedPair] = useState<PublicSeedPair | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
-  const [gameResult, setGameResult] = useState<GameResult | null>(null);
+  const [gameResult, setGameResult] = useState<StartRoundResponse | null>(null);
+  const [batchResult, setBatchResult] = useState<AutoBetResponse | null>(null);
+  const [autoBetCount, setAutoBetCount] = useState('10');
+  const [stopOnProfit, setStopOnProfit] = useState('');
+  const [stopOnLoss, setStopOnLoss] = useState('');
+  const [increaseOnWin, setIncreaseOnWin] = useState('');
+  const [increaseOnLoss, setIncreaseOnLoss] = useState('');
   const [showResults, setShowResults] = useState(false);
-  const [roundId, setRoundId] = useState<string>('');
+  const [playerId, setPlayerId] = useState<string>('');
+  const [playerToken, setPlayerToken] = useState<string>('');
+  const [balanceCents, setBalanceCents] = useState<number | null>(null);
+  const [tableConfig, setTableConfig] = useState<TableConfigResponse | null>(null);
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [session, setSession] = useState<SessionSummary>({ rounds: 0, profitCents: 0 });
   const [easterEggActive, setEasterEggActive] = useState<{
     tilt: boolean;
     darkTheme: boolean;
   }>({ tilt: false, darkTheme: false });
   const [keySequence, setKeySequence] = useState('');
   
-  // Initialize client seed on component mount
+  const betCents = Math.round(parseFloat(betAmount) * 100);
+  const betExceedsBalance = balanceCents !== null && betCents > balanceCents;
+  // Limits for the board being configured; unknown until the table config loads
+  const boardLimits = tableConfig?.boards.find(board => board.rows === rows && board.risk === risk);
+  const betOutsideLimits = !!boardLimits && (betCents < boardLimits.minBetCents || betCents > boardLimits.maxBetCents);
+  const canDrop = !!playerId && betCents > 0 && !betExceedsBalance && !betOutsideLimits;
+  const autoBetDrops = parseInt(autoBetCount, 10);
+  const canAutoBet = canDrop && autoBetDrops >= 1 && autoBetDrops <= MAX_BATCH_SIZE;
+
+  // Load the stored player and balance, creating a player on first visit
+  // (or when the stored one has no token, e.g. from before tokens existed)
   useEffect(() => {
-    setClientSeed(generateClientSeed());
+    const loadPlayer = async () => {
+      try {
+        const storedId = window.localStorage.getItem(PLAYER_ID_STORAGE_KEY);
+        const storedToken = window.localStorage.getItem(PLAYER_TOKEN_STORAGE_KEY);
+        if (storedId && storedToken) {
+          const response = await fetch(`/api/players/${storedId}/balance`, { headers: playerHeaders(storedToken) });
+          if (response.ok) {
+            const data: PlayerResponse = await response.json();
+            setPlayerId(data.playerId);
+            setPlayerToken(storedToken);
+            setBalanceCents(data.balanceCents);
+            return;
+          }
+        }
+
+        const response = await fetch('/api/players', { method: 'POST' });
+        if (!response.ok) {
+          throw new Error('Failed to create player');
+        }
+        const data: CreatePlayerResponse = await response.json();
+        window.localStorage.setItem(PLAYER_ID_STORAGE_KEY, data.playerId);
+        window.localStorage.setItem(PLAYER_TOKEN_STORAGE_KEY, data.playerToken);
+        setPlayerId(data.playerId);
+        setPlayerToken(data.playerToken);
+        setBalanceCents(data.balanceCents);
+      } catch (error) {
+        console.error('Error loading player:', error);
+      }
+    };
+
+    loadPlayer();
+  }, []);
+
+  // Load the table limits and move onto an allowed board if needed
+  useEffect(() => {
+    const loadTableConfig = async () => {
+      try {
+        const response = await fetch('/api/config');
+        if (!response.ok) {
+          throw new Error('Failed to load table config');
+        }
+        const config: TableConfigResponse = await response.json();
+        setTableConfig(config);
+        // Runs once on mount, so the board is still the default one
+        const allowedRows = nearestAllowedRows(config.allowedRows, ROWS);
+        setRows(allowedRows);
+        setDropColumn(prev => Math.min(prev, allowedRows));
+        if (!config.allowedRisks.includes(DEFAULT_RISK)) {
+          setRisk(config.allowedRisks[0]);
+        }
+      } catch (error) {
+        console.error('Error loading table config:', error);
+      }
+    };
+
+    loadTableConfig();
+  }, []);
+
+  // Restore this tab's session P&L
+  useEffect(() => {
+    const stored = window.sessionStorage.getItem(SESSION_STORAGE_KEY);
+    if (stored) {
+      try {
+        setSession(JSON.parse(stored));
+      } catch {
+        window.sessionStorage.removeItem(SESSION_STORAGE_KEY);
+      }
+    }
+  }, []);
+
+  const recordSession = useCallback((rounds: number, profitCents: number) => {
+    setSession(prev => {
+      const next = { rounds: prev.rounds + rounds, profitCents: prev.profitCents + profitCents };
+      window.sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(next));
+      return next;
+    });
+    setHistoryVersion(prev => prev + 1);
   }, []);
 
   // Easter egg detection and keyboard controls
@@ -76,8 +196,8 @@ export default function PlinkoGame() {
         setDropColumn(prev => Math.max(0, prev - 1));
       } else if (key === 'arrowright') {
         event.preventDefault();
-        setDropColumn(prev => Math.min(12, prev + 1));
-      } else if (key === ' ' && !isLoading && !isAnimating) {
+        setDropColumn(prev => Math.min(rows, prev + 1));
+      } else if (key === ' ' && !isLoading && !isAnimating && canDrop) {
         event.preventDefault();
         handleDropBall();
       }
@@ -85,7 +205,7 @@ export default function PlinkoGame() {
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [keySequence, isLoading, isAnimating]);
+  }, [keySequence, isLoading, isAnimating, rows, canDrop]);
 
   // Clear easter eggs after one round
   useEffect(() => {
@@ -98,44 +218,111 @@ export default function PlinkoGame() {
     }
   }, [gameResult, easterEggActive.darkTheme]);
 
+  const applySeedPairs = (data: SeedPairsResponse) => {
+    setSeedPair(data.active);
+    setClientSeed(data.active.clientSeed);
+    if (data.previous) {
+      setPreviousSeedPair(data.previous);
+    }
+  };
+
+  const loadSeedPair = useCallback(async () => {
+    if (!playerId) return;
+    try {
+      const response = await fetch(`/api/players/${playerId}/seeds`, { headers: playerHeaders(playerToken) });
+      if (response.ok) {
+        applySeedPairs(await response.json());
+      }
+    } catch (error) {
+      console.error('Error loading seed pair:', error);
+    }
+  }, [playerId, playerToken]);
+
+  useEffect(() => {
+    loadSeedPair();
+  }, [loadSeedPair]);
+
+  const handleSetClientSeed = async () => {
+    try {
+      const response = await fetch(`/api/players/${playerId}/seeds`, {
+        method: 'PUT',
+        headers: playerHeaders(playerToken, true),
+        body: JSON.stringify({ clientSeed }),
+      });
+      if (!response.ok) {
+        const { error }: ErrorResponse = await response.json();
+        throw new Error(error);
+      }
+      applySeedPairs(await response.json());
+    } catch (error) {
+      console.error('Error setting client seed:', error);
+      alert(`Failed to set client seed. ${error instanceof Error ? error.message : ''}`);
+    }
+  };
+
+  const handleRotateSeed = async () => {
+    try {
+      const response = await fetch(`/api/players/${playerId}/seeds/rotate`, {
+        method: 'POST',
+        headers: playerHeaders(playerToken),
+      });
+      if (!response.ok) {
+        throw new Error('Failed to rotate seed pair');
+      }
+      applySeedPairs(await response.json());
+    } catch (error) {
+      console.error('Error rotating seed pair:', error);
+      alert('Failed to rotate seed pair.');
+    }
+  };
+
   const handleDropBall = async () => {
-    if (isLoading || isAnimating) return;
+    if (isLoading || isAnimating || !canDrop) return;
 
     setIsLoading(true);
     setGameResult(null);
+    setBatchResult(null);
     setShowResults(false);
 
     try {
       // First, commit to a round
       const commitResponse = await fetch('/api/rounds/commit', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: playerHeaders(playerToken, true),
+        body: JSON.stringify({ playerId, rows, risk }),
       });
 
       if (!commitResponse.ok) {
         throw new Error('Failed to create round commitment');
       }
 
-      const commitData = await commitResponse.json();
-      setRoundId(commitData.roundId);
+      const commitData: CommitRoundResponse = await commitResponse.json();
 
       // Then start the round with client parameters
-      const betCents = Math.round(parseFloat(betAmount) * 100);
       const startResponse = await fetch(`/api/rounds/${commitData.roundId}/start`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: playerHeaders(playerToken, true),
         body: JSON.stringify({
-          clientSeed,
+          playerId,
           betCents,
           dropColumn,
         }),
       });
 
+      if (startResponse.status === 402) {
+        const { balanceCents }: InsufficientFundsResponse = await startResponse.json();
+        setBalanceCents(balanceCents);
+        alert('Insufficient funds for this bet.');
+        return;
+      }
+
       if (!startResponse.ok) {
         throw new Error('Failed to start round');
       }
 
-      const result = await startResponse.json();
+      const result: StartRoundResponse = await startResponse.json();
+      // Show the debit now; the win is credited once the ball lands
+      setBalanceCents(result.balanceCents - result.winAmount);
       setGameResult(result);
       setIsAnimating(true);
 
@@ -147,16 +334,98 @@ export default function PlinkoGame() {
     }
   };
 
+  const handleAutoBet = async () => {
+    if (isLoading || isAnimating || !canAutoBet) return;
+
+    setIsLoading(true);
+    setGameResult(null);
+    setBatchResult(null);
+    setShowResults(false);
+
+    // Blank fields mean no stop condition / reset to the base bet
+    const optionalCents = (value: string) => (value ? parseDollars(value) : undefined);
+    const optionalPercent = (value: string) => (value ? parseFloat(value) : undefined);
+
+    try {
+      const response = await fetch('/api/rounds/batch', {
+        method: 'POST',
+        headers: playerHeaders(playerToken, true),
+        body: JSON.stringify({
+          playerId,
+          rows,
+          risk,
+          dropColumn,
+          count: autoBetDrops,
+          betCents,
+          stopOnProfitCents: optionalCents(stopOnProfit),
+          stopOnLossCents: optionalCents(stopOnLoss),
+          increaseOnWinPercent: optionalPercent(increaseOnWin),
+          increaseOnLossPercent: optionalPercent(increaseOnLoss),
+        }),
+      });
+
+      if (response.status === 402) {
+        const { balanceCents }: InsufficientFundsResponse = await response.json();
+        setBalanceCents(balanceCents);
+        alert('Insufficient funds for this bet.');
+        return;
+      }
+
+      if (!response.ok) {
+        const { error }: ErrorResponse = await response.json();
+        throw new Error(error);
+      }
+
+      const result: AutoBetResponse = await response.json();
+      setBatchResult(result);
+      if (result.rounds.length === 0) {
+        setShowResults(true);
+        return;
+      }
+
+      // Show the bets now; wins are credited once the balls land
+      setBalanceCents(result.summary.balanceCents - result.summary.totalWinCents);
+      setIsAnimating(true);
+
+    } catch (error) {
+      console.error('Error playing auto-bet:', error);
+      alert('Failed to run auto-bet. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleAnimationComplete = useCallback(() => {
     setIsAnimating(false);
     setShowResults(true);
-    
-    // Auto-reveal the round after animation
-    if (roundId) {
-      fetch(`/api/rounds/${roundId}/reveal`, { method: 'POST' })
-        .catch(console.error);
+    if (gameResult) {
+      setBalanceCents(gameResult.balanceCents);
+      recordSession(1, gameResult.winAmount - gameResult.betCents);
     }
-  }, [roundId]);
+    if (batchResult) {
+      setBalanceCents(batchResult.summary.balanceCents);
+      recordSession(batchResult.summary.played, batchResult.summary.profitCents);
+    }
+
+    // Refresh the nonce; the server seed stays secret until the pair is rotated
+    loadSeedPair();
+  }, [gameResult, batchResult, loadSeedPair, recordSession]);
+
+  const batchBalls = useMemo<AnimatedBall[] | undefined>(
+    () => batchResult?.rounds.map(round => ({ path: round.path, dropColumn: round.dropColumn })),
+    [batchResult]
+  );
+  const boardResult = gameResult ?? batchResult;
+
+  // Payouts for the board being configured, so players see them before dropping
+  const multipliers = getCurrentPaytable(risk, rows)?.multipliers;
+
+  const handleRowsChange = (value: number) => {
+    const nextRows = tableConfig ? nearestAllowedRows(tableConfig.allowedRows, value) : value;
+    setRows(nextRows);
+    // Keep the drop column on the board when it shrinks
+    setDropColumn(prev => Math.min(prev, nextRows));
+  };
 
   const handleBetAmountChange = (value: string) => {
     // Allow only valid decimal numbers
@@ -189,11 +458,14 @@ export default function PlinkoGame() {
             <Card className={easterEggActive.darkTheme ? 'bg-gray-800 border-gray-600' : undefined}>
               <CardContent className="p-6">
                 <PlinkoAnimation
-                  pegMap={gameResult?.pegMap}
+                  pegMap={gameResult?.pegMap ?? batchResult?.rounds[0]?.pegMap}
                   path={gameResult?.path}
+                  balls={batchBalls}
                   isAnimating={isAnimating}
                   onAnimationComplete={handleAnimationComplete}
                   dropColumn={dropColumn}
+                  rows={boardResult?.rows ?? rows}
+                  multipliers={boardResult ? getPaytable(boardResult.paytableId)?.multipliers : multipliers}
                   tiltAngle={easterEggActive.tilt ? (Math.random() - 0.5) * 10 : 0}
                   isDarkTheme={easterEggActive.darkTheme}
                 />
@@ -211,6 +483,42 @@ export default function PlinkoGame() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
+                <div>
+                  <Label htmlFor="rows" className={easterEggActive.darkTheme ? 'text-gray-300' : undefined}>
+                    Rows: {rows}
+                  </Label>
+                  <Slider
+                    id="rows"
+                    min={tableConfig ? tableConfig.allowedRows[0] : MIN_ROWS}
+                    max={tableConfig ? tableConfig.allowedRows[tableConfig.allowedRows.length - 1] : MAX_ROWS}
+                    step={1}
+                    value={[rows]}
+                    onValueChange={(value) => handleRowsChange(value[0])}
+                    className="mt-2"
+                    disabled={isLoading || isAnimating}
+                  />
+                </div>
+
+                <div>
+                  <Label className={easterEggActive.darkTheme ? 'text-gray-300' : undefined}>
+                    Risk
+                  </Label>
+                  <div className="grid grid-cols-3 gap-2 mt-2">
+                    {RISK_LEVELS.map(level => (
+                      <Button
+                        key={level}
+                        variant={risk === level ? 'default' : 'outline'}
+                        size="sm"
+                        onClick={() => setRisk(level)}
+                        disabled={isLoading || isAnimating || (!!tableConfig && !tableConfig.allowedRisks.includes(level))}
+                        className="capitalize"
+                      >
+                        {level}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
                 <div>
                   <Label htmlFor="drop-column" className={easterEggActive.darkTheme ? 'text-gray-300' : undefined}>
                     Drop Column: {dropColumn}
@@ -218,7 +526,7 @@ export default function PlinkoGame() {
                   <Slider
                     id="drop-column"
                     min={0}
-                    max={12}
+                    max={rows}
                     step={1}
                     value={[dropColumn]}
                     onValueChange={(value) => setDropColumn(value[0])}
@@ -233,9 +541,14 @@ export default function PlinkoGame() {
                 </div>
 
                 <div>
-                  <Label htmlFor="bet-amount" className={easterEggActive.darkTheme ? 'text-gray-300' : undefined}>
-                    Bet Amount
-                  </Label>
+                  <div className="flex justify-between">
+                    <Label htmlFor="bet-amount" className={easterEggActive.darkTheme ? 'text-gray-300' : undefined}>
+                      Bet Amount
+                    </Label>
+                    <span className={`text-sm ${easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-600'}`}>
+                      Balance: {balanceCents === null ? '...' : formatCents(balanceCents)}
+                    </span>
+                  </div>
                   <div className="flex items-center space-x-2 mt-1">
                     <span className={easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-700'}>$</span>
                     <Input
@@ -244,9 +557,109 @@ export default function PlinkoGame() {
                       value={betAmount}
                       onChange={(e) => handleBetAmountChange(e.target.value)}
                       disabled={isLoading || isAnimating}
+                      aria-invalid={betExceedsBalance || betOutsideLimits}
                       className={easterEggActive.darkTheme ? 'bg-gray-700 border-gray-600 text-gray-100' : undefined}
                     />
                   </div>
+                  {betExceedsBalance && (
+                    <div className="text-sm mt-1 text-red-600">
+                      Bet exceeds your balance
+                    </div>
+                  )}
+                  {boardLimits && (
+                    <div className={`text-sm mt-1 ${
+                      betOutsideLimits ? 'text-red-600' : easterEggActive.darkTheme ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      Limits: {formatCents(boardLimits.minBetCents)} – {formatCents(boardLimits.maxBetCents)}
+                      {' '}• Max win {formatCents(tableConfig!.maxWinCents)}
+                    </div>
+                  )}
+                </div>
+
+                <Button
+                  onClick={handleDropBall}
+                  disabled={isLoading || isAnimating || !canDrop}
+                  className="w-full"
+                  size="lg"
+                >
+                  {isLoading ? 'Creating Round...' : isAnimating ? 'Dropping...' : 'Drop Ball (Space)'}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Auto-Bet Card */}
+            <Card className={easterEggActive.darkTheme ? 'bg-gray-800 border-gray-600' : undefined}>
+              <CardHeader>
+                <CardTitle className={easterEggActive.darkTheme ? 'text-orange-400' : undefined}>
+                  Auto-Bet
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {[
+                  { id: 'auto-bet-count', label: `Number of Drops (max ${MAX_BATCH_SIZE})`, value: autoBetCount, onChange: setAutoBetCount, pattern: /^\d*$/ },
+                  { id: 'stop-on-profit', label: 'Stop on Profit ($)', value: stopOnProfit, onChange: setStopOnProfit, pattern: /^\d*\.?\d*$/ },
+                  { id: 'stop-on-loss', label: 'Stop on Loss ($)', value: stopOnLoss, onChange: setStopOnLoss, pattern: /^\d*\.?\d*$/ },
+                  { id: 'increase-on-win', label: 'On Win: Increase Bet (%)', value: increaseOnWin, onChange: setIncreaseOnWin, pattern: /^\d*\.?\d*$/ },
+                  { id: 'increase-on-loss', label: 'On Loss: Increase Bet (%)', value: increaseOnLoss, onChange: setIncreaseOnLoss, pattern: /^\d*\.?\d*$/ },
+                ].map(field => (
+                  <div key={field.id}>
+                    <Label htmlFor={field.id} className={easterEggActive.darkTheme ? 'text-gray-300' : undefined}>
+                      {field.label}
+                    </Label>
+                    <Input
+                      id={field.id}
+                      type="text"
+                      value={field.value}
+                      placeholder={field.id === 'auto-bet-count' ? undefined : 'Off'}
+                      onChange={(e) => field.pattern.test(e.target.value) && field.onChange(e.target.value)}
+                      disabled={isLoading || isAnimating}
+                      className={`mt-1 ${easterEggActive.darkTheme ? 'bg-gray-700 border-gray-600 text-gray-100' : ''}`}
+                    />
+                  </div>
+                ))}
+                <div className={`text-sm ${easterEggActive.darkTheme ? 'text-gray-400' : 'text-gray-500'}`}>
+                  Leave an increase blank to return to the base bet after that outcome
+                </div>
+
+                <Button
+                  onClick={handleAutoBet}
+                  disabled={isLoading || isAnimating || !canAutoBet}
+                  className="w-full"
+                  variant="secondary"
+                >
+                  {isLoading ? 'Playing...' : isAnimating ? 'Dropping...' : `Start Auto-Bet (${Number.isNaN(autoBetDrops) ? 0 : autoBetDrops} drops)`}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Round History Card */}
+            <RoundHistory
+              playerId={playerId}
+              playerToken={playerToken}
+              refreshKey={historyVersion}
+              session={session}
+              isDarkTheme={easterEggActive.darkTheme}
+            />
+
+            {/* Seed Pair Card */}
+            <Card className={easterEggActive.darkTheme ? 'bg-gray-800 border-gray-600' : undefined}>
+              <CardHeader>
+                <CardTitle className={easterEggActive.darkTheme ? 'text-orange-400' : undefined}>
+                  Fairness Seeds
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="flex justify-between text-sm">
+                  <span className={easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-600'}>Server Seed Hash:</span>
+                  <span className={`font-mono ${easterEggActive.darkTheme ? 'text-gray-100' : 'text-gray-900'}`}>
+                    {seedPair ? formatHash(seedPair.serverSeedHash) : '...'}
+                  </span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className={easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-600'}>Next Nonce:</span>
+                  <span className={`font-mono ${easterEggActive.darkTheme ? 'text-gray-100' : 'text-gray-900'}`}>
+                    {seedPair?.nextNonce ?? '...'}
+                  </span>
                 </div>
 
                 <div>
@@ -261,25 +674,45 @@ export default function PlinkoGame() {
                     disabled={isLoading || isAnimating}
                     className={easterEggActive.darkTheme ? 'bg-gray-700 border-gray-600 text-gray-100' : undefined}
                   />
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setClientSeed(generateClientSeed())}
-                    className="mt-2"
-                    disabled={isLoading || isAnimating}
-                  >
-                    Generate New
-                  </Button>
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setClientSeed(generateClientSeed())}
+                      disabled={isLoading || isAnimating}
+                    >
+                      Generate New
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleSetClientSeed}
+                      disabled={isLoading || isAnimating || !clientSeed || clientSeed === seedPair?.clientSeed}
+                    >
+                      Use Seed
+                    </Button>
+                  </div>
                 </div>
 
                 <Button
-                  onClick={handleDropBall}
-                  disabled={isLoading || isAnimating}
+                  variant="outline"
+                  onClick={handleRotateSeed}
                   className="w-full"
-                  size="lg"
+                  disabled={isLoading || isAnimating || !seedPair}
                 >
-                  {isLoading ? 'Creating Round...' : isAnimating ? 'Dropping...' : 'Drop Ball (Space)'}
+                  Rotate Server Seed
                 </Button>
+
+                {previousSeedPair?.serverSeed && (
+                  <div className="pt-2 border-t border-gray-200 space-y-1">
+                    <div className={`text-sm ${easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-600'}`}>
+                      Previous server seed ({previousSeedPair.nextNonce} rounds):
+                    </div>
+                    <div className={`font-mono text-xs break-all ${easterEggActive.darkTheme ? 'text-gray-100' : 'text-gray-900'}`}>
+                      {previousSeedPair.serverSeed}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -334,6 +767,39 @@ export default function PlinkoGame() {
                 </CardContent>
               </Card>
             )}
+            {/* Auto-Bet Results Card */}
+            {batchResult && showResults && (
+              <Card className={easterEggActive.darkTheme ? 'bg-gray-800 border-gray-600' : undefined}>
+                <CardHeader>
+                  <CardTitle className={easterEggActive.darkTheme ? 'text-orange-400' : undefined}>
+                    Auto-Bet Result
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {[
+                    ['Drops Played:', String(batchResult.summary.played)],
+                    ['Total Bet:', formatCents(batchResult.summary.totalBetCents)],
+                    ['Total Won:', formatCents(batchResult.summary.totalWinCents)],
+                    ['Stopped:', STOP_REASON_LABELS[batchResult.summary.stopReason]],
+                  ].map(([label, value]) => (
+                    <div key={label} className="flex justify-between">
+                      <span className={easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-600'}>{label}</span>
+                      <span className={easterEggActive.darkTheme ? 'text-gray-100' : 'text-gray-900'}>{value}</span>
+                    </div>
+                  ))}
+                  <div className="flex justify-between">
+                    <span className={easterEggActive.darkTheme ? 'text-gray-300' : 'text-gray-600'}>Profit:</span>
+                    <span className={`font-bold text-lg ${
+                      batchResult.summary.profitCents > 0
+                        ? 'text-green-600'
+                        : easterEggActive.darkTheme ? 'text-red-400' : 'text-red-600'
+                    }`}>
+                      {batchResult.summary.profitCents < 0 ? '-' : ''}{formatCents(Math.abs(batchResult.summary.profitCents))}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         </div>
 
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { formatCents, formatHash, playerHeaders } from '@/lib/utils';
+import type { PublicRound, RoundHistoryResponse } from '@/lib/api';
+
+// Only played rounds are listed, so their results are always present
+type HistoryRound = PublicRound & Required<Pick<PublicRound, 'binIndex' | 'payoutMultiplier' | 'betCents' | 'winAmount'>>;
+
+export interface SessionSummary {
+  rounds: number;
+  profitCents: number;
+}
+
+interface RoundHistoryProps {
+  playerId: string;
+  playerToken: string;
+  refreshKey: number; // Bump to reload after new rounds are played
+  session: SessionSummary;
+  isDarkTheme?: boolean;
+}
+
+const PAGE_SIZE = 10;
+
+function formatSigned(cents: number): string {
+  return `${cents < 0 ? '-' : cents > 0 ? '+' : ''}${formatCents(Math.abs(cents))}`;
+}
+
+export default function RoundHistory({
+  playerId,
+  playerToken,
+  refreshKey,
+  session,
+  isDarkTheme = false
+}: RoundHistoryProps) {
+  const [rounds, setRounds] = useState<HistoryRound[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchPage = useCallback(async (cursor?: string) => {
+    const params = new URLSearchParams({
+      playerId,
+      status: 'STARTED,REVEALED',
+      limit: String(PAGE_SIZE),
+    });
+    if (cursor) {
+      params.set('cursor', cursor);
+    }
+
+    const response = await fetch(`/api/rounds?${params}`, { headers: playerHeaders(playerToken) });
+    if (!response.ok) {
+      throw new Error('Failed to load round history');
+    }
+    return response.json() as Promise<RoundHistoryResponse & { rounds: HistoryRound[] }>;
+  }, [playerId, playerToken]);
+
+  // Reload the first page whenever new rounds have been played
+  useEffect(() => {
+    if (!playerId) return;
+
+    fetchPage()
+      .then(page => {
+        setRounds(page.rounds);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(error => console.error('Error loading round history:', error));
+  }, [playerId, refreshKey, fetchPage]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+
+    setIsLoading(true);
+    try {
+      const page = await fetchPage(nextCursor);
+      setRounds(prev => [...prev, ...page.rounds]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      console.error('Error loading round history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const mutedText = isDarkTheme ? 'text-gray-300' : 'text-gray-600';
+  const strongText = isDarkTheme ? 'text-gray-100' : 'text-gray-900';
+
+  return (
+    <Card className={isDarkTheme ? 'bg-gray-800 border-gray-600' : undefined}>
+      <CardHeader>
+        <CardTitle className={isDarkTheme ? 'text-orange-400' : undefined}>
+          Round History
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex justify-between text-sm">
+          <span className={mutedText}>Session P&amp;L ({session.rounds} rounds):</span>
+          <span className={`font-bold ${
+            session.profitCents > 0
+              ? 'text-green-600'
+              : session.profitCents < 0 ? (isDarkTheme ? 'text-red-400' : 'text-red-600') : strongText
+          }`}>
+            {formatSigned(session.profitCents)}
+          </span>
+        </div>
+
+        {rounds.length === 0 ? (
+          <div className={`text-sm ${mutedText}`}>No rounds played yet</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className={`text-left ${mutedText}`}>
+                  <th className="py-1 pr-2">Bin</th>
+                  <th className="py-1 pr-2">Multi</th>
+                  <th className="py-1 pr-2">Bet</th>
+                  <th className="py-1 pr-2">Win</th>
+                  <th className="py-1 pr-2">Status</th>
+                  <th className="py-1">Commit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rounds.map(round => (
+                  <tr key={round.id} className={`border-t ${isDarkTheme ? 'border-gray-600' : 'border-gray-200'} ${strongText}`}>
+                    <td className="py-1 pr-2">{round.binIndex}</td>
+                    <td className="py-1 pr-2">{round.payoutMultiplier}x</td>
+                    <td className="py-1 pr-2">{formatCents(round.betCents)}</td>
+                    <td className={`py-1 pr-2 ${round.winAmount > round.betCents ? 'text-green-600' : ''}`}>
+                      {formatCents(round.winAmount)}
+                    </td>
+                    <td className="py-1 pr-2 capitalize">{round.status.toLowerCase()}</td>
+                    <td className="py-1 font-mono">
+                      <a
+                        href={`/verify?roundId=${round.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="underline"
+                        title="Verify this round"
+                      >
+                        {formatHash(round.commitHex, 4)}
+                      </a>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {nextCursor && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleLoadMore}
+            disabled={isLoading}
+            className="w-full"
+          >
+            {isLoading ? 'Loading...' : 'Load More'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,9 @@
+export async function register() {
+  // The sweep and the table chains need Prisma, so only run them in the Node.js server runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startRevealSweep } = await import('./lib/reveal-sweep');
+    const { TableFeed } = await import('./lib/table-feed');
+    startRevealSweep();
+    TableFeed.commitChains().catch(error => console.error('Error committing table hash chains:', error));
+  }
+}
@@ -16,6 +16,9 @@ const customJestConfig = {
     '<rootDir>/tests/**/*.test.ts',
     '<rootDir>/tests/**/*.test.tsx',
   ],
+  // Database tests need a migrated SQLite file; run them with `npm run test:db`.
+  // The statistical suite is slow; run it with `npm run test:stats`
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/tests/db/', '<rootDir>/tests/stats/'],
 }
 
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
@@ -0,0 +1,17 @@
+const nextJest = require('next/jest')
+
+const createJestConfig = nextJest({
+  dir: './',
+})
+
+// Integration tests against a real SQLite database, created and migrated per suite
+const customJestConfig = {
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/db/**/*.test.ts'],
+  testTimeout: 60000,
+}
+
+module.exports = createJestConfig(customJestConfig)
@@ -0,0 +1,17 @@
+const nextJest = require('next/jest')
+
+const createJestConfig = nextJest({
+  dir: './',
+})
+
+// Statistical fairness suite: millions of simulated rounds, so minutes rather than seconds
+const customJestConfig = {
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/$1',
+  },
+  testEnvironment: 'node',
+  testMatch: ['<rootDir>/tests/stats/**/*.test.ts'],
+  testTimeout: 900000,
+}
+
+module.exports = createJestConfig(customJestConfig)
@@ -0,0 +1,313 @@
+// API request helpers and response shapes
+//
+// Routes use the helpers to read and reject request bodies; the response
+// types are shared with the client components, which import them with
+// `import type` so nothing server-side ends up in the browser bundle.
+
+import { NextRequest, NextResponse } from 'next/server';
+import type { AutoBetStopReason } from './auto-bet';
+import type { RiskLevel } from './paytables';
+import type { GamePath, PegMap } from './plinko-core';
+import type { RoundStatus } from './round-state';
+import type { SimulationReport } from './simulation';
+import type { TableConfig } from './table-config';
+import type { RoundVerification, VerificationSummary } from './verification';
+import { FieldErrors, describeFieldErrors } from './validation';
+
+// Dates are Date objects in the route and ISO strings once serialized
+export type Timestamp = Date | string;
+
+export interface ErrorResponse {
+  error: string;
+  fieldErrors?: FieldErrors; // 400s: message per invalid field
+}
+
+// 402: the balance the bet was checked against
+export interface InsufficientFundsResponse extends ErrorResponse {
+  balanceCents: number;
+}
+
+export interface BoardLimits {
+  rows: number;
+  risk: RiskLevel;
+  paytableId: string;
+  maxMultiplier: number;
+  minBetCents: number;
+  maxBetCents: number; // Table maximum, lowered so this board can't pay more than the max win
+}
+
+export interface TableConfigResponse extends TableConfig {
+  boards: BoardLimits[];
+}
+
+export interface PlayerResponse {
+  playerId: string;
+  balanceCents: number;
+}
+
+export interface CreatePlayerResponse extends PlayerResponse {
+  playerToken: string; // Only ever returned here; send as `Authorization: Bearer <token>`
+}
+
+export interface PublicSeedPair {
+  seedPairId: string;
+  status: string;
+  serverSeedHash: string;
+  serverSeed?: string; // Only present once the pair has been rotated
+  clientSeed: string;
+  nextNonce: number;
+  createdAt: Timestamp;
+  revealedAt: Timestamp | null;
+}
+
+export interface SeedPairsResponse {
+  active: PublicSeedPair;
+  previous: PublicSeedPair | null;
+}
+
+export interface PublicHashChain {
+  chainId: string;
+  tableId: string | null;
+  status: string;
+  terminalHash: string;
+  length: number;
+  nextIndex: number; // Seeds used so far; the next round gets this chain index
+  createdAt: Timestamp;
+  exhaustedAt: Timestamp | null;
+}
+
+export interface TableHashChains {
+  tableId: string;
+  active: PublicHashChain | null; // Null until the table's first chain is committed
+  previous: PublicHashChain | null;
+}
+
+export interface HashChainResponse {
+  tables: TableHashChains[];
+}
+
+export interface PublicTableRound {
+  tableRoundId: string;
+  tableId: string;
+  status: string;
+  rows: number;
+  paytableId: string;
+  multipliers: number[];
+  hashChainId: string;
+  chainIndex: number;
+  commitHex: string;
+  serverSeed?: string; // Only present once the round has dropped
+  closesAt: Timestamp;
+  droppedAt: Timestamp | null;
+}
+
+// Sent to every subscriber of the table feed, so it never names the player
+export interface TableBet {
+  roundId: string;
+  clientSeed: string;
+  dropColumn: number;
+  betCents: number;
+}
+
+export interface TableBall extends TableBet {
+  binIndex: number;
+  payoutMultiplier: number;
+  winAmount: number;
+  pegMap: PegMap;
+  path: GamePath[];
+}
+
+// Server-Sent Events on /api/tables/:id/stream, one per `event:` name
+export type TableEvent =
+  | { type: 'round'; round: PublicTableRound; bets: TableBet[] } // Current round, sent on connect and when one opens
+  | { type: 'bet'; tableRoundId: string; bet: TableBet }
+  | { type: 'drop'; round: PublicTableRound; balls: TableBall[] };
+
+export interface SharedTableSummary {
+  tableId: string;
+  name: string;
+  rows: number;
+  risk: RiskLevel;
+  betWindowSeconds: number;
+  paytableId: string;
+  minBetCents: number;
+  maxBetCents: number; // Lowered for the table's board so a ball can't pay more than the max win
+}
+
+export interface SharedTablesResponse {
+  tables: SharedTableSummary[];
+}
+
+export interface TableBetResponse {
+  round: PublicTableRound;
+  bet: TableBet;
+  balanceCents: number;
+}
+
+export interface CommitRoundResponse {
+  roundId: string;
+  seedPairId: string;
+  commitHex: string;
+  clientSeed: string;
+  nonce: string;
+  rows: number;
+  paytableId: string;
+  multipliers: number[];
+  rngVersion: number;
+  hashVersion: number;
+}
+
+export interface StartRoundResponse {
+  roundId: string;
+  seedPairId: string;
+  status: RoundStatus;
+  startedAt: Timestamp;
+  nonce: string;
+  commitHex: string;
+  clientSeed: string;
+  combinedSeed: string;
+  pegMapHash: string;
+  rows: number;
+  paytableId: string;
+  rngVersion: number;
+  hashVersion: number;
+  dropColumn: number;
+  binIndex: number;
+  payoutMultiplier: number;
+  betCents: number;
+  pegMap: PegMap;
+  path: GamePath[];
+  winAmount: number;
+  balanceCents: number;
+}
+
+export interface AutoBetRound {
+  roundId: string;
+  seedPairId: string;
+  nonce: string;
+  commitHex: string;
+  clientSeed: string;
+  pegMapHash: string;
+  dropColumn: number;
+  binIndex: number;
+  payoutMultiplier: number;
+  betCents: number;
+  winAmount: number;
+  balanceCents: number;
+  pegMap: PegMap;
+  path: GamePath[];
+}
+
+export interface AutoBetResponse {
+  rows: number;
+  paytableId: string;
+  multipliers: number[];
+  rngVersion: number;
+  hashVersion: number;
+  rounds: AutoBetRound[];
+  summary: {
+    played: number;
+    totalBetCents: number;
+    totalWinCents: number;
+    profitCents: number;
+    balanceCents: number;
+    stopReason: AutoBetStopReason;
+  };
+}
+
+export interface VerifyResponse {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: string;
+  dropColumn: number;
+  commitHex: string; // Legacy per-round commitment: SHA256(serverSeed:nonce)
+  serverSeedHash: string; // Seed pair commitment: SHA256(serverSeed)
+  combinedSeed: string;
+  pegMapHash: string;
+  binIndex: number;
+  payoutMultiplier: number;
+  pegMap: PegMap;
+  path: GamePath[];
+  commitValid: boolean;
+  rows: number;
+  paytableId: string;
+  multipliers: number[];
+  rngVersion: number;
+  hashVersion: number;
+}
+
+export interface VerifyBatchResponse {
+  results: RoundVerification[];
+  summary: VerificationSummary;
+}
+
+export type SimulationResponse = SimulationReport;
+
+/**
+ * Public view of a round (see toPublicRound)
+ * Results are present once played; the server seed once revealed.
+ */
+export interface PublicRound {
+  id: string;
+  createdAt: Timestamp;
+  status: RoundStatus;
+  nonce: string;
+  commitHex: string;
+  rows: number;
+  paytableId: string;
+  rngVersion: number;
+  hashVersion: number;
+  seedPairId: string | null;
+  hashChainId?: string | null; // Set with chainIndex and tableRoundId for shared table bets
+  chainIndex?: number | null;
+  tableRoundId?: string | null;
+  playerId?: string | null;
+  clientSeed?: string;
+  combinedSeed?: string;
+  pegMapHash?: string;
+  dropColumn?: number;
+  binIndex?: number;
+  payoutMultiplier?: number;
+  betCents?: number;
+  pathJson?: GamePath[];
+  startedAt?: Timestamp | null;
+  winAmount?: number;
+  serverSeed?: string | null;
+  revealedAt?: Timestamp | null;
+  expiredAt?: Timestamp | null;
+  voidedAt?: Timestamp | null;
+}
+
+export interface RoundHistoryResponse {
+  rounds: PublicRound[];
+  nextCursor: string | null;
+}
+
+/**
+ * Request body as JSON; undefined when it is missing or malformed, which the
+ * schema then reports as "request must be a JSON object"
+ */
+export function readJson(request: NextRequest): Promise<unknown> {
+  return request.json().catch(() => undefined);
+}
+
+/**
+ * 400 response listing every invalid field
+ */
+export function invalidRequest(errors: FieldErrors) {
+  return NextResponse.json<ErrorResponse>(
+    { error: `Invalid request: ${describeFieldErrors(errors)}`, fieldErrors: errors },
+    { status: 400 }
+  );
+}
+
+/**
+ * 401 response for an unknown player or a missing or wrong player token
+ * (or operator token)
+ */
+export function unauthorized(error: string = 'Invalid player credentials') {
+  return NextResponse.json<ErrorResponse>(
+    { error },
+    { status: 401 }
+  );
+}
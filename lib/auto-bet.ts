@@ -0,0 +1,98 @@
+// Auto-bet: play a batch of rounds with stop conditions and bet progression
+
+import { Validator, integer, number, object, optional } from './validation';
+
+export const MAX_BATCH_SIZE = 100;
+
+// ERROR: a round failed part way through; the rounds before it still count
+export type AutoBetStopReason = 'COMPLETED' | 'PROFIT_TARGET' | 'LOSS_LIMIT' | 'INSUFFICIENT_FUNDS' | 'ERROR';
+
+export interface AutoBetSettings {
+  count: number; // Number of drops, 1..MAX_BATCH_SIZE
+  betCents: number; // Base bet
+  stopOnProfitCents?: number; // Stop once net profit reaches this
+  stopOnLossCents?: number; // Stop once net loss reaches this
+  increaseOnWinPercent?: number; // Raise the bet by this much after a win, else reset to base
+  increaseOnLossPercent?: number; // Raise the bet by this much after a loss, else reset to base
+}
+
+export interface AutoBetState {
+  played: number;
+  betCents: number; // Bet for the next drop
+  profitCents: number; // Net winnings so far (wins minus bets)
+}
+
+// Auto-bet request fields; combined with the board fields in the batch route's schema
+export const autoBetSettingsFields = {
+  count: integer({ min: 1, max: MAX_BATCH_SIZE }),
+  betCents: integer({ min: 1 }),
+  stopOnProfitCents: optional(integer({ min: 0 })),
+  stopOnLossCents: optional(integer({ min: 0 })),
+  increaseOnWinPercent: optional(number({ min: 0 })),
+  increaseOnLossPercent: optional(number({ min: 0 })),
+};
+
+export const autoBetSettingsSchema: Validator<AutoBetSettings> = object(autoBetSettingsFields);
+
+/**
+ * Auto-bet progression
+ * A round counts as a win when it pays more than it cost.
+ */
+export class AutoBet {
+  static initialState(settings: AutoBetSettings): AutoBetState {
+    return { played: 0, betCents: settings.betCents, profitCents: 0 };
+  }
+
+  /**
+   * Fold one played round into the state and pick the next bet
+   */
+  static recordRound(
+    settings: AutoBetSettings,
+    state: AutoBetState,
+    betCents: number,
+    winCents: number
+  ): AutoBetState {
+    const won = winCents > betCents;
+    const increasePercent = won ? settings.increaseOnWinPercent : settings.increaseOnLossPercent;
+    const nextBet = increasePercent
+      ? Math.max(1, Math.round(betCents * (1 + increasePercent / 100)))
+      : settings.betCents;
+
+    return {
+      played: state.played + 1,
+      betCents: nextBet,
+      profitCents: state.profitCents + winCents - betCents,
+    };
+  }
+
+  /**
+   * Bet actually placed on the next drop: progression stops growing at the board's maximum bet
+   */
+  static nextBet(state: AutoBetState, maxBetCents: number = Infinity): number {
+    return Math.min(state.betCents, maxBetCents);
+  }
+
+  /**
+   * Reason to stop before the next drop, or null to keep going
+   */
+  static stopReason(
+    settings: AutoBetSettings,
+    state: AutoBetState,
+    balanceCents: number,
+    maxBetCents: number = Infinity
+  ): AutoBetStopReason | null {
+    if (settings.stopOnProfitCents && state.profitCents >= settings.stopOnProfitCents) {
+      return 'PROFIT_TARGET';
+    }
+    if (settings.stopOnLossCents && -state.profitCents >= settings.stopOnLossCents) {
+      return 'LOSS_LIMIT';
+    }
+    if (state.played >= settings.count) {
+      return 'COMPLETED';
+    }
+    if (this.nextBet(state, maxBetCents) > balanceCents) {
+      return 'INSUFFICIENT_FUNDS';
+    }
+    return null;
+  }
+}
@@ -1,70 +1,103 @@
 import { createHash } from 'crypto';
-import { RoundRNG } from './prng';
+import { RoundRNG, RngVersion, RNG_VERSION_XORSHIFT32, isRngVersion } from './prng';
+import { DEFAULT_RISK, RiskLevel, getCurrentPaytable, getPaytable } from './paytables';
+import { RtpCalculator } from './rtp';
+import {
+  GamePath,
+  HASH_VERSION_JSON,
+  HashVersion,
+  MAX_ROWS,
+  MIN_ROWS,
+  PegMap,
+  PlinkoCore,
+  RandomSource,
+  encodePegMap,
+  isHashVersion,
+} from './plinko-core';
 
-// Game configuration constants
-export const ROWS = 12;
-export const BINS = ROWS + 1;
-
-export type PegMap = number[][]; // Array of peg bias arrays for each row
-
-export interface GamePath {
-  row: number;
-  column: number;
-  direction: 'left' | 'right';
-  pegBias: number;
-  randomValue: number;
-  adjustedBias: number;
-}
+// Board constants and types live in the crypto-free core so browser code can share them
+export {
+  ROWS,
+  BINS,
+  MIN_ROWS,
+  MAX_ROWS,
+  HASH_VERSION_JSON,
+  HASH_VERSION_CANONICAL,
+  CURRENT_HASH_VERSION,
+  isHashVersion,
+} from './plinko-core';
+export type { PegMap, GamePath, HashVersion } from './plinko-core';
 
 export interface GameResult {
   pegMap: PegMap;
   pegMapHash: string;
+  hashVersion: HashVersion;
   path: GamePath[];
   binIndex: number;
   payoutMultiplier: number;
   payoutCents: number;
   rows: number;
+  paytableId: string;
+  rngVersion: RngVersion;
   combinedSeed: string;
 }
 
+export interface PlayRoundOptions {
+  // Published paytable to settle against; defaults to the current medium table
+  paytableId?: string;
+  // Generator for the round; defaults to XORShift32 (original test vectors)
+  rngVersion?: RngVersion;
+  // Peg map hash encoding; defaults to JSON (original test vectors)
+  hashVersion?: HashVersion;
+}
+
 /**
  * Deterministic Plinko Engine
  * Implements exact Daphnis Labs MVP specifications
  */
 export class PlinkoEngine {
   /**
-   * Generate deterministic peg map with leftBias ∈ [0.4, 0.6]
-   * Formula: leftBias = 0.5 + (rand() - 0.5) * 0.2
+   * Replay options for a stored round: its paytable and the versions it was played with
+   * Throws for versions this engine doesn't know.
    */
-  static generatePegMap(rng: RoundRNG, rows: number): PegMap {
-    const pegMap: PegMap = [];
-
-    for (let row = 0; row < rows; row++) {
-      const pegRow: number[] = [];
-      
-      // Row r has r+1 pegs (0-indexed)
-      for (let peg = 0; peg <= row; peg++) {
-        // Generate leftBias using specified formula
-        const randomValue = rng.next();
-        const leftBias = 0.5 + (randomValue - 0.5) * 0.2;
-        
-        // Round to 6 decimal places for stable hashing
-        const roundedBias = Math.round(leftBias * 1000000) / 1000000;
-        pegRow.push(roundedBias);
-      }
-      
-      pegMap.push(pegRow);
+  static storedRoundOptions(round: { paytableId: string; rngVersion: number; hashVersion: number }): PlayRoundOptions {
+    if (!isRngVersion(round.rngVersion)) {
+      throw new RangeError(`Unknown RNG version: ${round.rngVersion}`);
+    }
+    if (!isHashVersion(round.hashVersion)) {
+      throw new RangeError(`Unknown hash version: ${round.hashVersion}`);
     }
+    return { paytableId: round.paytableId, rngVersion: round.rngVersion, hashVersion: round.hashVersion };
+  }
 
-    return pegMap;
+  /**
+   * Check that a row count is a supported board size (MIN_ROWS..MAX_ROWS)
+   */
+  static isValidRows(rows: unknown): rows is number {
+    return Number.isInteger(rows) && (rows as number) >= MIN_ROWS && (rows as number) <= MAX_ROWS;
   }
 
   /**
-   * Create SHA256 hash of peg map for verification
+   * Check that a drop column is valid for a board with the given row count
    */
-  static createPegMapHash(pegMap: PegMap): string {
+  static isValidDropColumn(dropColumn: unknown, rows: number): dropColumn is number {
+    return Number.isInteger(dropColumn) && (dropColumn as number) >= 0 && (dropColumn as number) <= rows;
+  }
+
+  /**
+   * Generate deterministic peg map with leftBias ∈ [0.4, 0.6]
+   * Formula: leftBias = 0.5 + (rand() - 0.5) * 0.2
+   */
+  static generatePegMap(rng: RandomSource, rows: number): PegMap {
+    return PlinkoCore.generatePegMap(rng, rows);
+  }
+
+  /**
+   * Create SHA256 hash of peg map for verification (see encodePegMap)
+   */
+  static createPegMapHash(pegMap: PegMap, hashVersion: HashVersion = HASH_VERSION_JSON): string {
     return createHash('sha256')
-      .update(JSON.stringify(pegMap))
+      .update(encodePegMap(pegMap, hashVersion))
       .digest('hex');
   }
 
@@ -73,65 +106,36 @@ export class PlinkoEngine {
    * Uses discrete model: maintain pos (number of Right moves)
    */
   static simulateDrop(
-    rng: RoundRNG,
+    rng: RandomSource,
     pegMap: PegMap,
     dropColumn: number
   ): GamePath[] {
-    const path: GamePath[] = [];
-    let pos = 0; // Number of Right moves so far
-    
-    // Drop column adjustment: adj = (dropColumn - floor(R/2)) * 0.01
-    const adj = (dropColumn - Math.floor(ROWS / 2)) * 0.01;
-
-    for (let row = 0; row < ROWS; row++) {
-      // Get peg at index min(pos, row) (peg under current path)
-      const pegIndex = Math.min(pos, row);
-      const leftBias = pegMap[row][pegIndex];
-      
-      // Apply drop column adjustment: bias' = clamp(leftBias + adj, 0, 1)
-      const adjustedBias = Math.max(0, Math.min(1, leftBias + adj));
-      
-      // Get random value for decision
-      const randomValue = rng.next();
-      
-      // Decision: if rnd < bias' choose Left, else Right
-      const direction: 'left' | 'right' = randomValue < adjustedBias ? 'left' : 'right';
-      
-      // Update position
-      if (direction === 'right') {
-        pos += 1;
-      }
-      
-      // Record path step
-      path.push({
-        row,
-        column: pos,
-        direction,
-        pegBias: leftBias,
-        randomValue,
-        adjustedBias
-      });
-    }
+    return PlinkoCore.simulateDrop(rng, pegMap, dropColumn);
+  }
 
-    return path;
+  /**
+   * Exact bin probabilities for the board a round was actually played on
+   */
+  static getBinProbabilities(pegMap: PegMap, dropColumn: number): number[] {
+    return PlinkoCore.getBinProbabilities(pegMap, dropColumn);
   }
 
   /**
-   * Get payout multipliers for all bins (symmetric)
+   * Bin probabilities averaged over every peg map the RNG can generate
    */
-  static getPayoutMultipliers(bins: number): number[] {
-    // Simple symmetric paytable - higher multipliers at edges
-    const multipliers: number[] = [];
-    const center = Math.floor(bins / 2);
-    
-    for (let i = 0; i < bins; i++) {
-      const distance = Math.abs(i - center);
-      // Edge bins get higher multipliers
-      const multiplier = 0.5 + (distance * 0.3);
-      multipliers.push(Math.round(multiplier * 100) / 100);
+  static getExpectedBinProbabilities(rows: number, dropColumn: number): number[] {
+    return RtpCalculator.getBinProbabilities(rows, dropColumn);
+  }
+
+  /**
+   * Get payout multipliers for all bins (symmetric) from the current paytable
+   */
+  static getPayoutMultipliers(bins: number, risk: RiskLevel = DEFAULT_RISK): number[] {
+    const paytable = getCurrentPaytable(risk, bins - 1);
+    if (!paytable) {
+      throw new RangeError(`No ${risk} paytable for ${bins - 1} rows`);
     }
-    
-    return multipliers;
+    return paytable.multipliers;
   }
 
   /**
@@ -143,19 +147,36 @@ export class PlinkoEngine {
     nonce: string,
     dropColumn: number,
     rows: number,
-    betCents: number
+    betCents: number,
+    options: PlayRoundOptions = {}
   ): GameResult {
+    if (!this.isValidRows(rows)) {
+      throw new RangeError(`Rows must be an integer between ${MIN_ROWS} and ${MAX_ROWS}`);
+    }
+    if (!this.isValidDropColumn(dropColumn, rows)) {
+      throw new RangeError(`Drop column must be an integer between 0 and ${rows}`);
+    }
+
+    const paytable = options.paytableId
+      ? getPaytable(options.paytableId)
+      : getCurrentPaytable(DEFAULT_RISK, rows);
+    if (!paytable || paytable.rows !== rows) {
+      throw new RangeError(`Paytable ${options.paytableId ?? DEFAULT_RISK} is not published for ${rows} rows`);
+    }
+
     // Create combined seed: SHA256(serverSeed + ":" + clientSeed + ":" + nonce)
     const combinedSeed = createHash('sha256')
       .update(`${serverSeed}:${clientSeed}:${nonce}`)
       .digest('hex');
     
     // Initialize RNG with combined seed
-    const rng = new RoundRNG(combinedSeed);
+    const rngVersion = options.rngVersion ?? RNG_VERSION_XORSHIFT32;
+    const rng = new RoundRNG(combinedSeed, rngVersion);
     
     // Generate peg map (first use of RNG stream)
     const pegMap = this.generatePegMap(rng, rows);
-    const pegMapHash = this.createPegMapHash(pegMap);
+    const hashVersion = options.hashVersion ?? HASH_VERSION_JSON;
+    const pegMapHash = this.createPegMapHash(pegMap, hashVersion);
     
     // Simulate ball drop (continued use of RNG stream)
     const path = this.simulateDrop(rng, pegMap, dropColumn);
@@ -163,19 +184,21 @@ export class PlinkoEngine {
     // Final bin index is the final position (number of right moves)
     const binIndex = path[path.length - 1].column;
     
-    // Calculate payout
-    const multipliers = this.getPayoutMultipliers(BINS);
-    const payoutMultiplier = multipliers[binIndex];
+    // Calculate payout against the round's paytable
+    const payoutMultiplier = paytable.multipliers[binIndex];
     const payoutCents = Math.round(betCents * payoutMultiplier);
 
     return {
       pegMap,
       pegMapHash,
+      hashVersion,
       path,
       binIndex,
       payoutMultiplier,
       payoutCents,
       rows,
+      paytableId: paytable.id,
+      rngVersion,
       combinedSeed
     };
   }
@@ -0,0 +1,57 @@
+// Entropy source for seeds and nonces
+//
+// All server seeds, legacy nonces and suggested client seeds draw from the
+// current source. Production uses the Web Crypto CSPRNG (available in Node 19+
+// and browsers); tests can swap in a deterministic source.
+
+export interface EntropySource {
+  getRandomBytes(length: number): Uint8Array;
+}
+
+/**
+ * Cryptographically secure source backed by crypto.getRandomValues
+ */
+export const webCryptoEntropySource: EntropySource = {
+  getRandomBytes(length: number): Uint8Array {
+    if (!globalThis.crypto?.getRandomValues) {
+      throw new Error('Web Crypto is not available in this environment');
+    }
+
+    const bytes = new Uint8Array(length);
+    // getRandomValues fills at most 65536 bytes per call
+    for (let offset = 0; offset < length; offset += 65536) {
+      globalThis.crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, length)));
+    }
+    return bytes;
+  },
+};
+
+let currentSource: EntropySource = webCryptoEntropySource;
+
+export function getEntropySource(): EntropySource {
+  return currentSource;
+}
+
+/**
+ * Replace the entropy source (tests only); returns the previous source
+ */
+export function setEntropySource(source: EntropySource): EntropySource {
+  const previous = currentSource;
+  currentSource = source;
+  return previous;
+}
+
+export function resetEntropySource(): void {
+  currentSource = webCryptoEntropySource;
+}
+
+/**
+ * Random hex string of the given number of bytes (2 hex chars per byte)
+ */
+export function randomHex(byteLength: number): string {
+  const bytes = currentSource.getRandomBytes(byteLength);
+  if (bytes.length !== byteLength) {
+    throw new Error(`Entropy source returned ${bytes.length} bytes, expected ${byteLength}`);
+  }
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,153 @@
+import { Prisma } from '@prisma/client';
+import { HashChain, ProvablyFairProtocol } from './prng';
+import { getSeedVault } from './seed-vault';
+import type { PublicHashChain } from './api';
+
+export type HashChainStatus = 'ACTIVE' | 'EXHAUSTED';
+
+export const DEFAULT_HASH_CHAIN_LENGTH = 1000000;
+export const DEFAULT_CHECKPOINT_INTERVAL = 1000;
+
+export interface HashChainRecord {
+  id: string;
+  createdAt: Date;
+  tableId: string | null;
+  activeTableId: string | null;
+  status: string;
+  length: number;
+  terminalHash: string;
+  checkpointInterval: number;
+  checkpointsEncrypted: string; // Never leaves the server: checkpoint 0 is the root seed
+  nextIndex: number;
+  exhaustedAt: Date | null;
+}
+
+export interface ChainSeed {
+  chain: HashChainRecord;
+  chainIndex: number;
+  serverSeed: string;
+}
+
+/**
+ * Public view of a hash chain: the commitment and how far it has been used
+ */
+export function toPublicHashChain(chain: HashChainRecord): PublicHashChain {
+  return {
+    chainId: chain.id,
+    tableId: chain.tableId,
+    status: chain.status,
+    terminalHash: chain.terminalHash,
+    length: chain.length,
+    nextIndex: chain.nextIndex,
+    createdAt: chain.createdAt,
+    exhaustedAt: chain.exhaustedAt,
+  };
+}
+
+/**
+ * Chain length and checkpoint spacing from the environment
+ * (HASH_CHAIN_LENGTH / HASH_CHAIN_CHECKPOINT_INTERVAL)
+ */
+export function getHashChainSettings(): { length: number; checkpointInterval: number } {
+  const length = parseInt(process.env.HASH_CHAIN_LENGTH ?? '', 10);
+  const checkpointInterval = parseInt(process.env.HASH_CHAIN_CHECKPOINT_INTERVAL ?? '', 10);
+
+  return {
+    length: isNaN(length) || length < 1 ? DEFAULT_HASH_CHAIN_LENGTH : length,
+    checkpointInterval: isNaN(checkpointInterval) || checkpointInterval < 1
+      ? DEFAULT_CHECKPOINT_INTERVAL
+      : checkpointInterval,
+  };
+}
+
+/**
+ * Hash chain lifecycle
+ * Each shared table draws seeds from its own chain, and a table has one
+ * ACTIVE chain at a time. The terminal hash is public from the moment the
+ * chain is created, and every seed handed out is one step further from it,
+ * so rounds can be checked against that single commitment. A used-up chain
+ * is marked EXHAUSTED and a new one is committed.
+ *
+ * Publishing index i gives away every lower index: its commitment,
+ * SHA256(seed(i)), is seed(i - 1). So a seed must be revealed before any
+ * higher index on its chain is published, which is why chains are never
+ * shared between tables (see SharedTables.open).
+ */
+export class HashChains {
+  /**
+   * The table's active chain, if one has been committed
+   */
+  static async getActive(tx: Prisma.TransactionClient, tableId: string): Promise<HashChainRecord | null> {
+    return tx.hashChain.findUnique({ where: { activeTableId: tableId } });
+  }
+
+  /**
+   * Get the table's active chain, committing a new one if there is none
+   * Building a chain hashes HASH_CHAIN_LENGTH times, so call this at startup
+   * or from the table ticker, never from a request handler. Two concurrent
+   * commits for one table can't both succeed: activeTableId is unique.
+   */
+  static async getOrCreateActive(tx: Prisma.TransactionClient, tableId: string): Promise<HashChainRecord> {
+    const active = await this.getActive(tx, tableId);
+    if (active) {
+      return active;
+    }
+
+    return this.create(tx, tableId);
+  }
+
+  /**
+   * Reserve the next seed on the table's active chain
+   */
+  static async allocateSeed(tx: Prisma.TransactionClient, tableId: string): Promise<ChainSeed> {
+    const active = await this.getOrCreateActive(tx, tableId);
+
+    // Increment in a single statement so concurrent rounds never share a seed
+    const chain: HashChainRecord = await tx.hashChain.update({
+      where: { id: active.id },
+      data: { nextIndex: { increment: 1 } },
+    });
+    const chainIndex = chain.nextIndex - 1;
+
+    if (chainIndex >= chain.length) {
+      await tx.hashChain.updateMany({
+        where: { id: chain.id, status: 'ACTIVE' },
+        data: { status: 'EXHAUSTED', activeTableId: null, nextIndex: chain.length, exhaustedAt: new Date() },
+      });
+      return this.allocateSeed(tx, tableId);
+    }
+
+    return { chain, chainIndex, serverSeed: this.getSeed(chain, chainIndex) };
+  }
+
+  /**
+   * Recompute the seed at a chain index
+   * Only round start needs it before the round is revealed; nothing else should call this.
+   */
+  static getSeed(chain: HashChainRecord, chainIndex: number): string {
+    const checkpoints: string[] = JSON.parse(getSeedVault().decrypt(chain.checkpointsEncrypted));
+    return HashChain.seedAt(checkpoints, chain.checkpointInterval, chain.length, chainIndex);
+  }
+
+  private static async create(tx: Prisma.TransactionClient, tableId: string): Promise<HashChainRecord> {
+    const { length, checkpointInterval } = getHashChainSettings();
+    const { terminalHash, checkpoints } = HashChain.build(
+      ProvablyFairProtocol.generateServerSeed(),
+      length,
+      checkpointInterval
+    );
+
+    return tx.hashChain.create({
+      data: {
+        tableId,
+        activeTableId: tableId,
+        status: 'ACTIVE',
+        length,
+        terminalHash,
+        checkpointInterval,
+        checkpointsEncrypted: getSeedVault().encrypt(JSON.stringify(checkpoints)),
+        nextIndex: 0,
+      },
+    });
+  }
+}
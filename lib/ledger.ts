@@ -0,0 +1,113 @@
+import { Prisma } from '@prisma/client';
+
+export type LedgerEntryType = 'DEPOSIT' | 'BET' | 'WIN';
+
+// Demo balance granted to new players (override with STARTING_BALANCE_CENTS)
+export const DEFAULT_STARTING_BALANCE_CENTS = 100000;
+
+export class PlayerNotFoundError extends Error {
+  constructor(public readonly playerId: string) {
+    super(`Player ${playerId} not found`);
+    this.name = 'PlayerNotFoundError';
+  }
+}
+
+export class InsufficientFundsError extends Error {
+  constructor(
+    public readonly playerId: string,
+    public readonly requiredCents: number,
+    public readonly balanceCents: number
+  ) {
+    super(`Player ${playerId} has ${balanceCents} cents, needs ${requiredCents}`);
+    this.name = 'InsufficientFundsError';
+  }
+}
+
+/**
+ * Player balance ledger
+ * Every balance change is written together with a LedgerEntry, and callers
+ * pass the transaction client so debits and credits commit atomically with
+ * the round they belong to.
+ */
+export class Ledger {
+  /**
+   * Debit a player's balance, failing if it would go negative
+   */
+  static async debit(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    amountCents: number,
+    type: LedgerEntryType,
+    roundId?: string
+  ): Promise<number> {
+    // Conditional update: the balance check and decrement happen in one statement
+    const { count } = await tx.player.updateMany({
+      where: { id: playerId, balanceCents: { gte: amountCents } },
+      data: { balanceCents: { decrement: amountCents } },
+    });
+
+    const player = await tx.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new PlayerNotFoundError(playerId);
+    }
+    if (count === 0) {
+      throw new InsufficientFundsError(playerId, amountCents, player.balanceCents);
+    }
+
+    await tx.ledgerEntry.create({
+      data: {
+        playerId,
+        roundId,
+        type,
+        amountCents: -amountCents,
+        balanceAfterCents: player.balanceCents,
+      },
+    });
+
+    return player.balanceCents;
+  }
+
+  /**
+   * Credit a player's balance; zero-amount credits leave no entry
+   */
+  static async credit(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    amountCents: number,
+    type: LedgerEntryType,
+    roundId?: string
+  ): Promise<number> {
+    const player = await tx.player.findUnique({ where: { id: playerId } });
+    if (!player) {
+      throw new PlayerNotFoundError(playerId);
+    }
+    if (amountCents === 0) {
+      return player.balanceCents;
+    }
+
+    const updated = await tx.player.update({
+      where: { id: playerId },
+      data: { balanceCents: { increment: amountCents } },
+    });
+
+    await tx.ledgerEntry.create({
+      data: {
+        playerId,
+        roundId,
+        type,
+        amountCents,
+        balanceAfterCents: updated.balanceCents,
+      },
+    });
+
+    return updated.balanceCents;
+  }
+}
+
+/**
+ * Starting balance for new players
+ */
+export function getStartingBalanceCents(): number {
+  const configured = parseInt(process.env.STARTING_BALANCE_CENTS ?? '', 10);
+  return isNaN(configured) ? DEFAULT_STARTING_BALANCE_CENTS : configured;
+}
@@ -0,0 +1,27 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { PlayerAuth } from './player-auth';
+
+// Operator credentials
+//
+// Operator-only endpoints take the OPERATOR_TOKEN environment variable as a
+// bearer token. With no token configured they are closed to everyone.
+
+export class OperatorAuth {
+  static getToken(): string | undefined {
+    return process.env.OPERATOR_TOKEN || undefined;
+  }
+
+  /**
+   * Whether the request carries the operator token (compared in constant time)
+   */
+  static isOperator(request: Request): boolean {
+    const expected = this.getToken();
+    const token = PlayerAuth.readToken(request);
+    if (!expected || !token) {
+      return false;
+    }
+    // Hash both sides so the comparison doesn't depend on their lengths
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(expected), digest(token));
+  }
+}
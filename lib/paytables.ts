@@ -0,0 +1,140 @@
+// Published, versioned paytables
+//
+// Tables are append-only: once a version is published its multipliers never
+// change, so any historical round can be replayed against the exact table it
+// was played with. Changing payouts means adding a new version.
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+export const RISK_LEVELS: RiskLevel[] = ['low', 'medium', 'high'];
+export const DEFAULT_RISK: RiskLevel = 'medium';
+
+export interface Paytable {
+  id: string; // `v{version}-{risk}-{rows}`
+  version: number;
+  risk: RiskLevel;
+  rows: number;
+  multipliers: number[]; // One per bin (rows + 1)
+}
+
+/**
+ * Version 1: the original linear formula (0.5 + distance from centre * 0.3).
+ * Every round played before risk levels existed used this table, recorded
+ * as the medium risk table for its row count.
+ */
+function linearMultipliers(bins: number): number[] {
+  const multipliers: number[] = [];
+  const center = Math.floor(bins / 2);
+
+  for (let i = 0; i < bins; i++) {
+    const distance = Math.abs(i - center);
+    const multiplier = 0.5 + (distance * 0.3);
+    multipliers.push(Math.round(multiplier * 100) / 100);
+  }
+
+  return multipliers;
+}
+
+/**
+ * Version 2: low/medium/high risk tables.
+ * Only the left half (edge to centre) is listed; tables are mirrored.
+ *
+ * Off-centre drop columns shift every bounce (by up to 0.08 on 16 rows) and
+ * push balls toward one edge, yet every column has to stay inside the RTP
+ * band. That caps how far the edge bins can rise above the body of the
+ * table; higher risk trades a flatter body for a larger edge multiplier.
+ */
+const V2_HALF_TABLES: Record<RiskLevel, Record<number, number[]>> = {
+  low: {
+    8: [1.8, 1.52, 1.23, 0.95, 0.67],
+    9: [1.8, 1.51, 1.28, 1.04, 0.8],
+    10: [1.8, 1.55, 1.31, 1.12, 0.93, 0.74],
+    11: [1.83, 1.59, 1.3, 1.03, 0.97, 0.9],
+    12: [2.9, 2.2, 1.46, 0.95, 0.95, 0.95, 0.95],
+    13: [3.4, 2.6, 1.39, 0.96, 0.96, 0.96, 0.96],
+    14: [5.5, 2.9, 1.43, 0.97, 0.97, 0.97, 0.97, 0.97],
+    15: [6.5, 3.5, 1.41, 0.97, 0.97, 0.97, 0.97, 0.97],
+    16: [11, 6.4, 1.43, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+  },
+  medium: {
+    8: [3.3, 2.3, 0.99, 0.87, 0.76],
+    9: [3.2, 1.91, 0.96, 0.94, 0.92],
+    10: [4.9, 1.91, 0.95, 0.95, 0.95, 0.95],
+    11: [5.3, 2.1, 0.96, 0.96, 0.96, 0.96],
+    12: [8.5, 2.9, 0.96, 0.96, 0.96, 0.96, 0.96],
+    13: [9.8, 2.6, 0.97, 0.97, 0.97, 0.97, 0.97],
+    14: [16, 3.6, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+    15: [19, 4.8, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+    16: [32, 6.6, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+  },
+  high: {
+    8: [7.5, 1.31, 0.9, 0.9, 0.9],
+    9: [7.3, 1.26, 0.94, 0.94, 0.94],
+    10: [11, 1.3, 0.95, 0.95, 0.95, 0.95],
+    11: [12, 1.38, 0.96, 0.96, 0.96, 0.96],
+    12: [19, 1.67, 0.96, 0.96, 0.96, 0.96, 0.96],
+    13: [22, 1.63, 0.97, 0.97, 0.97, 0.97, 0.97],
+    14: [37, 1.87, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+    15: [44, 2.2, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+    16: [72, 2.9, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97, 0.97],
+  },
+};
+
+function mirror(half: number[], bins: number): number[] {
+  return Array.from({ length: bins }, (_, i) => half[Math.min(i, bins - 1 - i)]);
+}
+
+export const CURRENT_PAYTABLE_VERSION = 2;
+
+/**
+ * Build the paytable ID for a version, risk level and row count
+ */
+export function paytableId(version: number, risk: RiskLevel, rows: number): string {
+  return `v${version}-${risk}-${rows}`;
+}
+
+function buildRegistry(): Map<string, Paytable> {
+  const registry = new Map<string, Paytable>();
+  const add = (version: number, risk: RiskLevel, rows: number, multipliers: number[]) => {
+    const id = paytableId(version, risk, rows);
+    registry.set(id, { id, version, risk, rows, multipliers });
+  };
+
+  for (let rows = 8; rows <= 16; rows++) {
+    add(1, 'medium', rows, linearMultipliers(rows + 1));
+
+    for (const risk of RISK_LEVELS) {
+      add(2, risk, rows, mirror(V2_HALF_TABLES[risk][rows], rows + 1));
+    }
+  }
+
+  return registry;
+}
+
+const PAYTABLES = buildRegistry();
+
+/**
+ * Look up a published paytable by ID
+ */
+export function getPaytable(id: string): Paytable | undefined {
+  return PAYTABLES.get(id);
+}
+
+/**
+ * Resolve the paytable used for new rounds (current version)
+ */
+export function getCurrentPaytable(risk: RiskLevel, rows: number): Paytable | undefined {
+  return PAYTABLES.get(paytableId(CURRENT_PAYTABLE_VERSION, risk, rows));
+}
+
+/**
+ * List all published paytables, optionally restricted to one version
+ */
+export function listPaytables(version?: number): Paytable[] {
+  return Array.from(PAYTABLES.values())
+    .filter(table => version === undefined || table.version === version);
+}
+
+export function isRiskLevel(value: unknown): value is RiskLevel {
+  return typeof value === 'string' && (RISK_LEVELS as string[]).includes(value);
+}
@@ -0,0 +1,64 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { Prisma } from '@prisma/client';
+import { randomHex } from './entropy';
+
+// Player credentials
+//
+// A player ID is a public handle: it is stored on every round and shows up in
+// verify links, so it cannot authorise anything by itself. Each player also
+// gets a random token, returned once when the player is created. Requests
+// that read or spend the account send it as `Authorization: Bearer <token>`;
+// only its SHA-256 hash is stored.
+
+const PLAYER_TOKEN_BYTES = 32;
+
+export interface PlayerRecord {
+  id: string;
+  createdAt: Date;
+  balanceCents: number;
+  tokenHash: string | null;
+}
+
+export class PlayerAuth {
+  static generateToken(): string {
+    return randomHex(PLAYER_TOKEN_BYTES);
+  }
+
+  static hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Bearer token from the request's Authorization header, if any
+   */
+  static readToken(request: Request): string | null {
+    const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get('authorization') ?? '');
+    return match ? match[1] : null;
+  }
+
+  /**
+   * Check a token against the player's stored hash in constant time
+   */
+  static matches(player: Pick<PlayerRecord, 'tokenHash'>, token: string | null): boolean {
+    if (!token || !player.tokenHash) {
+      return false;
+    }
+    const expected = Buffer.from(player.tokenHash, 'hex');
+    const actual = Buffer.from(this.hashToken(token), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  /**
+   * Load the player the request is acting as
+   * Returns null both for unknown players and for a missing or wrong token,
+   * so callers can't tell which player IDs exist.
+   */
+  static async authenticate(
+    tx: Prisma.TransactionClient,
+    request: Request,
+    playerId: string
+  ): Promise<PlayerRecord | null> {
+    const player: PlayerRecord | null = await tx.player.findUnique({ where: { id: playerId } });
+    return player && this.matches(player, this.readToken(request)) ? player : null;
+  }
+}
@@ -0,0 +1,262 @@
+// Crypto-free core of the game
+//
+// Board constants, the random generators and the peg map / ball drop
+// algorithms. Nothing here hashes or imports Node modules: lib/engine.ts and
+// lib/prng.ts supply hashing with Node's crypto, lib/web-verifier.ts with Web
+// Crypto, and both run exactly this code for the outcome.
+
+// Game configuration constants
+export const ROWS = 12; // Default row count
+export const BINS = ROWS + 1;
+export const MIN_ROWS = 8;
+export const MAX_ROWS = 16;
+
+export type PegMap = number[][]; // Array of peg bias arrays for each row
+
+export interface GamePath {
+  row: number;
+  column: number;
+  direction: 'left' | 'right';
+  pegBias: number;
+  randomValue: number;
+  adjustedBias: number;
+}
+
+// RNG versions recorded on each round
+export const RNG_VERSION_XORSHIFT32 = 1; // 32-bit seed from the first 4 bytes of combinedSeed
+export const RNG_VERSION_HMAC_SHA256 = 2; // HMAC-SHA256 counter mode keyed by the full combinedSeed
+export const CURRENT_RNG_VERSION = RNG_VERSION_HMAC_SHA256;
+
+export type RngVersion = typeof RNG_VERSION_XORSHIFT32 | typeof RNG_VERSION_HMAC_SHA256;
+
+// Peg map hash encodings recorded on each round
+export const HASH_VERSION_JSON = 1; // SHA256 of JSON.stringify(pegMap)
+export const HASH_VERSION_CANONICAL = 2; // SHA256 of the fixed-point binary encoding below
+export const CURRENT_HASH_VERSION = HASH_VERSION_CANONICAL;
+
+export type HashVersion = typeof HASH_VERSION_JSON | typeof HASH_VERSION_CANONICAL;
+
+// Peg biases are rounded to 6 decimals, so they are exact integer millionths
+export const BIAS_SCALE = 1000000;
+
+export function isHashVersion(value: unknown): value is HashVersion {
+  return value === HASH_VERSION_JSON || value === HASH_VERSION_CANONICAL;
+}
+
+/**
+ * Data hashed to produce a round's pegMapHash
+ *
+ * v1: JSON.stringify(pegMap), hashed as UTF-8. Depends on JavaScript's number
+ *     formatting, so it is only kept for rounds that recorded it.
+ * v2: one byte with the row count, then every bias in row order (row r has
+ *     r + 1 pegs) as a 4-byte big-endian unsigned integer of
+ *     round(bias * 1000000). Row 0 of a 12-row board with bias 0.422123 starts
+ *     0c 00 06 70 eb.
+ */
+export function encodePegMap(pegMap: PegMap, hashVersion: HashVersion): string | Uint8Array {
+  if (hashVersion === HASH_VERSION_JSON) {
+    return JSON.stringify(pegMap);
+  }
+
+  const biases = pegMap.flat();
+  const bytes = new Uint8Array(1 + biases.length * 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, pegMap.length);
+  biases.forEach((bias, i) => view.setUint32(1 + i * 4, Math.round(bias * BIAS_SCALE)));
+  return bytes;
+}
+
+/**
+ * Source of uniform random numbers in [0, 1)
+ */
+export interface RandomSource {
+  next(): number;
+}
+
+export function isRngVersion(value: unknown): value is RngVersion {
+  return value === RNG_VERSION_XORSHIFT32 || value === RNG_VERSION_HMAC_SHA256;
+}
+
+/**
+ * Extract 32-bit seed from combined seed for XORShift32 initialization
+ */
+export function extractPRNGSeed(combinedSeed: string): number {
+  // Take first 4 bytes (8 hex chars) and convert to big-endian 32-bit int
+  const hexSeed = combinedSeed.substring(0, 8);
+  return parseInt(hexSeed, 16);
+}
+
+// Simple random number generator for fair gaming
+export class XORShift32 implements RandomSource {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+    if (this.state === 0) {
+      this.state = 1; // Can't start with zero
+    }
+  }
+
+  /**
+   * Get next random number between 0 and 1
+   */
+  next(): number {
+    this.state ^= this.state << 13;
+    this.state ^= this.state >>> 17;
+    this.state ^= this.state << 5;
+    this.state = this.state >>> 0; // Keep as 32-bit unsigned
+
+    // Convert to [0, 1) range
+    return this.state / 0x100000000;
+  }
+
+  /**
+   * Get current state for debugging
+   */
+  getState(): number {
+    return this.state;
+  }
+}
+
+/**
+ * Counter-mode block stream
+ * Reads block 0, 1, 2... from blockAt and yields one value per 4-byte
+ * big-endian unsigned integer, divided by 2^32. The HMAC-SHA256 generator
+ * is this stream with HMAC blocks.
+ */
+export class BlockStream implements RandomSource {
+  private counter = 0;
+  private block: Uint8Array = new Uint8Array(0);
+  private offset = 0;
+
+  constructor(private readonly blockAt: (counter: number) => Uint8Array) {}
+
+  /**
+   * Get next random number between 0 and 1
+   */
+  next(): number {
+    if (this.offset >= this.block.length) {
+      this.block = this.blockAt(this.counter);
+      this.counter++;
+      this.offset = 0;
+    }
+
+    const b = this.block;
+    const o = this.offset;
+    const value = ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0;
+    this.offset += 4;
+    return value / 0x100000000;
+  }
+}
+
+/**
+ * Peg map generation and ball drop simulation
+ */
+export class PlinkoCore {
+  /**
+   * Random values a round consumes: one per peg, then one per row for the drop
+   */
+  static randomValuesPerRound(rows: number): number {
+    return (rows * (rows + 1)) / 2 + rows;
+  }
+
+  /**
+   * Generate deterministic peg map with leftBias ∈ [0.4, 0.6]
+   * Formula: leftBias = 0.5 + (rand() - 0.5) * 0.2
+   */
+  static generatePegMap(rng: RandomSource, rows: number): PegMap {
+    const pegMap: PegMap = [];
+
+    for (let row = 0; row < rows; row++) {
+      const pegRow: number[] = [];
+
+      // Row r has r+1 pegs (0-indexed)
+      for (let peg = 0; peg <= row; peg++) {
+        // Generate leftBias using specified formula
+        const randomValue = rng.next();
+        const leftBias = 0.5 + (randomValue - 0.5) * 0.2;
+
+        // Round to 6 decimal places for stable hashing
+        const roundedBias = Math.round(leftBias * 1000000) / 1000000;
+        pegRow.push(roundedBias);
+      }
+
+      pegMap.push(pegRow);
+    }
+
+    return pegMap;
+  }
+
+  /**
+   * Simulate ball drop following deterministic path
+   * Uses discrete model: maintain pos (number of Right moves)
+   */
+  static simulateDrop(
+    rng: RandomSource,
+    pegMap: PegMap,
+    dropColumn: number
+  ): GamePath[] {
+    const path: GamePath[] = [];
+    const rows = pegMap.length;
+    let pos = 0; // Number of Right moves so far
+
+    // Drop column adjustment: adj = (dropColumn - floor(R/2)) * 0.01
+    const adj = (dropColumn - Math.floor(rows / 2)) * 0.01;
+
+    for (let row = 0; row < rows; row++) {
+      // Get peg at index min(pos, row) (peg under current path)
+      const pegIndex = Math.min(pos, row);
+      const leftBias = pegMap[row][pegIndex];
+
+      // Apply drop column adjustment: bias' = clamp(leftBias + adj, 0, 1)
+      const adjustedBias = Math.max(0, Math.min(1, leftBias + adj));
+
+      // Get random value for decision
+      const randomValue = rng.next();
+
+      // Decision: if rnd < bias' choose Left, else Right
+      const direction: 'left' | 'right' = randomValue < adjustedBias ? 'left' : 'right';
+
+      // Update position
+      if (direction === 'right') {
+        pos += 1;
+      }
+
+      // Record path step
+      path.push({
+        row,
+        column: pos,
+        direction,
+        pegBias: leftBias,
+        randomValue,
+        adjustedBias
+      });
+    }
+
+    return path;
+  }
+
+  /**
+   * Exact chance of landing in each bin for a given peg map and drop column
+   * Dynamic programming over pos with the same peg choice and adjusted bias
+   * as simulateDrop, so only the per-row random decision is left to chance.
+   */
+  static getBinProbabilities(pegMap: PegMap, dropColumn: number): number[] {
+    const rows = pegMap.length;
+    const adj = (dropColumn - Math.floor(rows / 2)) * 0.01;
+
+    // probabilities[pos] after each row; pos only ever grows by one per row
+    let probabilities = [1];
+    for (let row = 0; row < rows; row++) {
+      const next = new Array(probabilities.length + 1).fill(0);
+      probabilities.forEach((p, pos) => {
+        const adjustedBias = Math.max(0, Math.min(1, pegMap[row][Math.min(pos, row)] + adj));
+        next[pos] += p * adjustedBias;
+        next[pos + 1] += p * (1 - adjustedBias);
+      });
+      probabilities = next;
+    }
+
+    return probabilities;
+  }
+}
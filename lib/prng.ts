@@ -1,34 +1,51 @@
-import { createHash } from 'crypto';
+import { createHash, createHmac } from 'crypto';
+import { randomHex } from './entropy';
+import {
+  BlockStream,
+  RNG_VERSION_HMAC_SHA256,
+  RNG_VERSION_XORSHIFT32,
+  RandomSource,
+  RngVersion,
+  XORShift32,
+  extractPRNGSeed,
+} from './plinko-core';
 
-// Simple random number generator for fair gaming
-export class XORShift32 {
-  private state: number;
+// Server seeds are 256 bits
+export const SERVER_SEED_BYTES = 32;
 
-  constructor(seed: number) {
-    this.state = seed >>> 0;
-    if (this.state === 0) {
-      this.state = 1; // Can't start with zero
-    }
-  }
+export {
+  RNG_VERSION_XORSHIFT32,
+  RNG_VERSION_HMAC_SHA256,
+  CURRENT_RNG_VERSION,
+  XORShift32,
+  isRngVersion,
+} from './plinko-core';
+export type { RngVersion, RandomSource } from './plinko-core';
 
-  /**
-   * Get next random number between 0 and 1
-   */
-  next(): number {
-    this.state ^= this.state << 13;
-    this.state ^= this.state >>> 17;
-    this.state ^= this.state << 5;
-    this.state = this.state >>> 0; // Keep as 32-bit unsigned
-    
-    // Convert to [0, 1) range
-    return this.state / 0x100000000;
+/**
+ * HMAC-SHA256 counter-mode generator
+ * Block i = HMAC-SHA256(key = combinedSeed, message = decimal string of i),
+ * starting at i = 0. Each 32-byte block yields eight values, one per 4-byte
+ * big-endian unsigned integer, divided by 2^32. Every bit of the combined
+ * seed feeds every output, unlike XORShift32's 32-bit state.
+ */
+export class HmacSha256Stream extends BlockStream {
+  constructor(combinedSeed: string) {
+    super(counter => createHmac('sha256', combinedSeed).update(counter.toString()).digest());
   }
+}
 
-  /**
-   * Get current state for debugging
-   */
-  getState(): number {
-    return this.state;
+/**
+ * Create the generator for an RNG version
+ */
+export function createRandomSource(combinedSeed: string, rngVersion: RngVersion): RandomSource {
+  switch (rngVersion) {
+    case RNG_VERSION_XORSHIFT32:
+      return new XORShift32(ProvablyFairProtocol.extractPRNGSeed(combinedSeed));
+    case RNG_VERSION_HMAC_SHA256:
+      return new HmacSha256Stream(combinedSeed);
+    default:
+      throw new RangeError(`Unknown RNG version: ${rngVersion}`);
   }
 }
 
@@ -41,16 +58,15 @@ export class ProvablyFairProtocol {
    * Generate a cryptographically secure server seed
    */
   static generateServerSeed(): string {
-    return createHash('sha256')
-      .update(Math.random().toString() + Date.now().toString())
-      .digest('hex');
+    return randomHex(SERVER_SEED_BYTES);
   }
 
   /**
-   * Generate a unique nonce
+   * Generate a unique nonce (legacy per-round commitments only; seed pairs
+   * use an incrementing integer nonce)
    */
   static generateNonce(): string {
-    return Date.now().toString() + Math.random().toString(36).substring(2);
+    return randomHex(16);
   }
 
   /**
@@ -62,6 +78,17 @@ export class ProvablyFairProtocol {
       .digest('hex');
   }
 
+  /**
+   * Create the seed pair commitment: SHA256(serverSeed)
+   * Published before any round is played with the seed; the nonce is not
+   * part of it because one server seed covers many rounds.
+   */
+  static createServerSeedHash(serverSeed: string): string {
+    return createHash('sha256')
+      .update(serverSeed)
+      .digest('hex');
+  }
+
   /**
    * Generate combined seed for deterministic randomness
    */
@@ -79,9 +106,7 @@ export class ProvablyFairProtocol {
    * Extract 32-bit seed from combined seed for PRNG initialization
    */
   static extractPRNGSeed(combinedSeed: string): number {
-    // Take first 4 bytes (8 hex chars) and convert to big-endian 32-bit int
-    const hexSeed = combinedSeed.substring(0, 8);
-    return parseInt(hexSeed, 16);
+    return extractPRNGSeed(combinedSeed);
   }
 
   /**
@@ -95,19 +120,27 @@ export class ProvablyFairProtocol {
     const expectedHash = this.createCommitHash(serverSeed, nonce);
     return expectedHash === commitHash;
   }
+
+  /**
+   * Verify a revealed server seed against its seed pair commitment
+   */
+  static verifyServerSeedHash(serverSeed: string, serverSeedHash: string): boolean {
+    return this.createServerSeedHash(serverSeed) === serverSeedHash;
+  }
 }
 
 /**
  * Round-specific deterministic number generator
  * Ensures all randomness for a round comes from a single PRNG stream
  */
-export class RoundRNG {
-  private prng: XORShift32;
+export class RoundRNG implements RandomSource {
+  private prng: RandomSource;
   private callCount: number;
+  private readonly rngVersion: RngVersion;
 
-  constructor(combinedSeed: string) {
-    const seed = ProvablyFairProtocol.extractPRNGSeed(combinedSeed);
-    this.prng = new XORShift32(seed);
+  constructor(combinedSeed: string, rngVersion: RngVersion = RNG_VERSION_XORSHIFT32) {
+    this.rngVersion = rngVersion;
+    this.prng = createRandomSource(combinedSeed, rngVersion);
     this.callCount = 0;
   }
 
@@ -130,8 +163,123 @@ export class RoundRNG {
    * Reset to beginning (for verification/replay)
    */
   reset(combinedSeed: string): void {
-    const seed = ProvablyFairProtocol.extractPRNGSeed(combinedSeed);
-    this.prng = new XORShift32(seed);
+    this.prng = createRandomSource(combinedSeed, this.rngVersion);
     this.callCount = 0;
   }
-}
\ No newline at end of file
+
+  /**
+   * Get the RNG version driving this stream
+   */
+  getRngVersion(): RngVersion {
+    return this.rngVersion;
+  }
+}
+/**
+ * Pre-committed SHA-256 hash chain
+ *
+ * h(0) is a random root seed and h(k) = SHA256(h(k - 1)) up to h(length).
+ * The terminal hash h(length) is published before any round; round i then
+ * uses h(length - 1 - i), so chain seeds are consumed in reverse order and
+ * hashing a round's seed i + 1 times always leads back to the terminal hash.
+ * Knowing the seeds already used reveals nothing about the ones to come.
+ */
+export class HashChain {
+  /**
+   * One link: the hash a seed commits to (same encoding as seed pair commitments)
+   */
+  static link(seed: string): string {
+    return ProvablyFairProtocol.createServerSeedHash(seed);
+  }
+
+  /**
+   * Hash a seed the given number of times
+   */
+  static walk(seed: string, steps: number): string {
+    let hash = seed;
+    for (let step = 0; step < steps; step++) {
+      hash = this.link(hash);
+    }
+    return hash;
+  }
+
+  /**
+   * Build a chain from its root seed
+   * Keeps every checkpointInterval-th hash so seedAt never has to walk more
+   * than checkpointInterval - 1 links.
+   */
+  static build(rootSeed: string, length: number, checkpointInterval: number): { terminalHash: string; checkpoints: string[] } {
+    if (!Number.isInteger(length) || length < 1) {
+      throw new RangeError('Hash chain length must be a positive integer');
+    }
+    if (!Number.isInteger(checkpointInterval) || checkpointInterval < 1) {
+      throw new RangeError('Hash chain checkpoint interval must be a positive integer');
+    }
+
+    const checkpoints: string[] = [];
+    let hash = rootSeed;
+    for (let k = 0; k < length; k++) {
+      if (k % checkpointInterval === 0) {
+        checkpoints.push(hash);
+      }
+      hash = this.link(hash);
+    }
+
+    return { terminalHash: hash, checkpoints };
+  }
+
+  /**
+   * Seed for the round at a chain index, recomputed from the nearest checkpoint
+   */
+  static seedAt(checkpoints: string[], checkpointInterval: number, length: number, index: number): string {
+    if (!Number.isInteger(index) || index < 0 || index >= length) {
+      throw new RangeError(`Hash chain index must be an integer between 0 and ${length - 1}`);
+    }
+
+    const k = length - 1 - index;
+    const checkpoint = Math.floor(k / checkpointInterval);
+    return this.walk(checkpoints[checkpoint], k - checkpoint * checkpointInterval);
+  }
+
+  /**
+   * Verify that a seed is the one at a chain index: hashing it index + 1
+   * times must give the published terminal hash
+   */
+  static verify(seed: string, index: number, terminalHash: string): boolean {
+    if (!Number.isInteger(index) || index < 0) {
+      return false;
+    }
+    return this.walk(seed, index + 1) === terminalHash;
+  }
+
+  /**
+   * Walk from a seed towards the terminal hash and return the seed's chain
+   * index, or null if the terminal hash is not reached within maxIndex + 1 links
+   */
+  static findIndex(seed: string, terminalHash: string, maxIndex: number): number | null {
+    let hash = seed;
+    for (let index = 0; index <= maxIndex; index++) {
+      hash = this.link(hash);
+      if (hash === terminalHash) {
+        return index;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Check consecutive seeds (chain indexes 0, 1, 2, ...) against the terminal hash
+   * Each seed must hash to the one before it, so a whole history verifies in
+   * one link per round. Returns the index of the first seed that breaks the
+   * chain, or -1 if every seed links up.
+   */
+  static verifySequence(seeds: string[], terminalHash: string): number {
+    let expected = terminalHash;
+    for (let index = 0; index < seeds.length; index++) {
+      if (this.link(seeds[index]) !== expected) {
+        return index;
+      }
+      expected = seeds[index];
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,48 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { RoundReveal, SweepResult } from './reveal';
+import { SharedTables } from './shared-tables';
+
+// How often the server looks for expired rounds (override with REVEAL_SWEEP_INTERVAL_SECONDS, 0 disables)
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 60;
+
+const globalForSweep = globalThis as unknown as {
+  revealSweep: ReturnType<typeof setInterval> | undefined;
+};
+
+export interface RevealSweepResult extends SweepResult {
+  droppedTableRounds: number;
+}
+
+/**
+ * Run one sweep, revealing rounds left STARTED past the reveal TTL and
+ * dropping table rounds whose ticker is gone; returns what it changed
+ */
+export async function runRevealSweep(): Promise<RevealSweepResult> {
+  const result = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+    RoundReveal.sweepExpired(tx)
+  );
+  const droppedTableRounds = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+    SharedTables.dropOrphaned(tx)
+  );
+
+  return { ...result, droppedTableRounds };
+}
+
+/**
+ * Start the background sweep once per server process
+ */
+export function startRevealSweep() {
+  const configured = parseInt(process.env.REVEAL_SWEEP_INTERVAL_SECONDS ?? '', 10);
+  const intervalSeconds = isNaN(configured) ? DEFAULT_SWEEP_INTERVAL_SECONDS : configured;
+
+  if (intervalSeconds <= 0 || globalForSweep.revealSweep) {
+    return;
+  }
+
+  globalForSweep.revealSweep = setInterval(() => {
+    runRevealSweep().catch(error => console.error('Error sweeping expired rounds:', error));
+  }, intervalSeconds * 1000);
+  // Never keep the process alive just for the sweep
+  globalForSweep.revealSweep.unref?.();
+}
@@ -0,0 +1,145 @@
+import { Prisma, Round } from '@prisma/client';
+import { ProvablyFairProtocol } from './prng';
+import { SeedPairs } from './seed-pairs';
+import { RoundStateMachine } from './round-state';
+
+// Started rounds are auto-revealed, and unstarted ones expired, after this long (override with REVEAL_TTL_SECONDS)
+export const DEFAULT_REVEAL_TTL_SECONDS = 3600;
+
+export interface RevealPayload {
+  roundId: string;
+  seedPairId: string | null;
+  serverSeed: string;
+  nonce: string;
+  clientSeed: string;
+  combinedSeed: string;
+  commitHex: string;
+  isValid: boolean;
+  revealedAt: Date;
+}
+
+// What a reveal payload is built from: a revealed round always has its seed and reveal time
+export interface RevealedRound extends Pick<Round, 'id' | 'seedPairId' | 'hashChainId' | 'nonce' | 'clientSeed' | 'combinedSeed' | 'commitHex'> {
+  serverSeed: string;
+  revealedAt: Date;
+}
+
+export interface SweepResult {
+  rotatedSeedPairs: number;
+  revealedRounds: number;
+  expiredRounds: number;
+}
+
+export function isRevealedRound(round: Round | null): round is Round & RevealedRound {
+  return round?.status === 'REVEALED' && round.serverSeed !== null && round.revealedAt !== null;
+}
+
+/**
+ * Payload returned for a revealed round
+ * Built from the stored round only, so repeated reveals return the same thing.
+ */
+export function toRevealPayload(round: RevealedRound): RevealPayload {
+  // Seed pair and hash chain rounds commit to SHA256(serverSeed); legacy rounds to SHA256(serverSeed:nonce)
+  const isValid = round.seedPairId || round.hashChainId
+    ? ProvablyFairProtocol.verifyServerSeedHash(round.serverSeed, round.commitHex)
+    : ProvablyFairProtocol.verifyCommit(round.serverSeed, round.nonce, round.commitHex);
+
+  return {
+    roundId: round.id,
+    seedPairId: round.seedPairId,
+    serverSeed: round.serverSeed,
+    nonce: round.nonce,
+    clientSeed: round.clientSeed,
+    combinedSeed: round.combinedSeed,
+    commitHex: round.commitHex,
+    isValid,
+    revealedAt: round.revealedAt,
+  };
+}
+
+/**
+ * Round reveal
+ * A seed pair's server seed covers every nonce on the pair, so revealing a
+ * seed pair round rotates the pair, revealing all of its played rounds at
+ * once. Legacy rounds carry their own seed and are revealed individually.
+ */
+export class RoundReveal {
+  /**
+   * Reveal a started round; already revealed rounds are returned unchanged
+   * Returns null for a missing round or one that can't be revealed.
+   */
+  static async reveal(tx: Prisma.TransactionClient, roundId: string): Promise<(Round & RevealedRound) | null> {
+    const round = await tx.round.findUnique({
+      where: { id: roundId },
+      include: { seedPair: true },
+    });
+    if (!round || round.status !== 'STARTED') {
+      return isRevealedRound(round) ? round : null;
+    }
+
+    if (round.seedPair) {
+      if (round.seedPair.status === 'ACTIVE') {
+        await SeedPairs.rotate(tx, round.seedPair.playerId);
+      }
+    } else {
+      // Conditional so a concurrent reveal does not overwrite revealedAt
+      await RoundStateMachine.transitionMany(tx, { id: roundId }, 'STARTED', 'REVEALED');
+    }
+
+    const revealed = await tx.round.findUnique({ where: { id: roundId } });
+    return isRevealedRound(revealed) ? revealed : null;
+  }
+
+  /**
+   * Reveal every round that has been STARTED for longer than the TTL, and
+   * expire rounds committed that long ago but never started
+   */
+  static async sweepExpired(
+    tx: Prisma.TransactionClient,
+    ttlMs: number = getRevealTtlMs(),
+    now: Date = new Date()
+  ): Promise<SweepResult> {
+    const cutoff = new Date(now.getTime() - ttlMs);
+    const expired = await tx.round.findMany({
+      where: { status: 'STARTED', createdAt: { lt: cutoff } },
+      include: { seedPair: true },
+    });
+
+    const activePairs = new Map<string, string>();
+    const legacyRoundIds: string[] = [];
+    for (const round of expired) {
+      if (!round.seedPair) {
+        legacyRoundIds.push(round.id);
+      } else if (round.seedPair.status === 'ACTIVE') {
+        activePairs.set(round.seedPair.id, round.seedPair.playerId);
+      }
+    }
+
+    // Each player has at most one active pair, so rotating by player hits the right one
+    for (const playerId of activePairs.values()) {
+      await SeedPairs.rotate(tx, playerId);
+    }
+
+    let revealedRounds = 0;
+    if (legacyRoundIds.length > 0) {
+      revealedRounds = await RoundStateMachine.transitionMany(
+        tx, { id: { in: legacyRoundIds } }, 'STARTED', 'REVEALED', {}, now
+      );
+    }
+
+    // Shared table bets are already paid for and are settled when their table round drops
+    const expiredRounds = await RoundStateMachine.transitionMany(
+      tx, { createdAt: { lt: cutoff }, tableRoundId: null }, 'CREATED', 'EXPIRED', {}, now
+    );
+
+    return { rotatedSeedPairs: activePairs.size, revealedRounds, expiredRounds };
+  }
+}
+
+/**
+ * How long a started round may stay unrevealed
+ */
+export function getRevealTtlMs(): number {
+  const configured = parseInt(process.env.REVEAL_TTL_SECONDS ?? '', 10);
+  return (isNaN(configured) ? DEFAULT_REVEAL_TTL_SECONDS : configured) * 1000;
+}
@@ -0,0 +1,128 @@
+import { Prisma } from '@prisma/client';
+
+// Round lifecycle
+//
+//   CREATED ──▶ STARTED ──▶ REVEALED
+//      │           │
+//      ├──▶ EXPIRED │   (never started within the TTL)
+//      └──▶ VOIDED ◀┘   (can no longer be played or settled fairly)
+//
+// Every status change goes through RoundStateMachine, which stamps the
+// matching timestamp and only updates rounds still in the expected state.
+
+export const ROUND_STATUSES = ['CREATED', 'STARTED', 'REVEALED', 'EXPIRED', 'VOIDED'] as const;
+
+export type RoundStatus = (typeof ROUND_STATUSES)[number];
+
+// Rounds with an outcome (bin, payout, path)
+export const PLAYED_STATUSES: RoundStatus[] = ['STARTED', 'REVEALED'];
+
+const TRANSITIONS: Record<RoundStatus, readonly RoundStatus[]> = {
+  CREATED: ['STARTED', 'EXPIRED', 'VOIDED'],
+  STARTED: ['REVEALED', 'VOIDED'],
+  REVEALED: [],
+  EXPIRED: [],
+  VOIDED: [],
+};
+
+type RoundTimestamp = 'startedAt' | 'revealedAt' | 'expiredAt' | 'voidedAt';
+
+const TIMESTAMPS: Record<Exclude<RoundStatus, 'CREATED'>, RoundTimestamp> = {
+  STARTED: 'startedAt',
+  REVEALED: 'revealedAt',
+  EXPIRED: 'expiredAt',
+  VOIDED: 'voidedAt',
+};
+
+export class IllegalRoundTransitionError extends Error {
+  constructor(public readonly from: string, public readonly to: string) {
+    super(`Round cannot move from ${from} to ${to}`);
+    this.name = 'IllegalRoundTransitionError';
+  }
+}
+
+export class RoundStateConflictError extends Error {
+  constructor(public readonly roundId: string, public readonly expected: RoundStatus) {
+    super(`Round ${roundId} is no longer ${expected}`);
+    this.name = 'RoundStateConflictError';
+  }
+}
+
+export function isRoundStatus(value: unknown): value is RoundStatus {
+  return typeof value === 'string' && (ROUND_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Allowed round status changes
+ */
+export class RoundStateMachine {
+  static canTransition(from: string, to: RoundStatus): boolean {
+    return isRoundStatus(from) && TRANSITIONS[from].includes(to);
+  }
+
+  static assertTransition(from: string, to: RoundStatus): asserts from is RoundStatus {
+    if (!this.canTransition(from, to)) {
+      throw new IllegalRoundTransitionError(from, to);
+    }
+  }
+
+  static isTerminal(status: RoundStatus): boolean {
+    return TRANSITIONS[status].length === 0;
+  }
+
+  /**
+   * Fields for a new round; played-in-one-step rounds (auto-bet) are created STARTED
+   */
+  static createData(status: 'CREATED' | 'STARTED' = 'CREATED', now: Date = new Date()) {
+    return status === 'CREATED' ? { status } : this.transitionData('CREATED', status, now);
+  }
+
+  /**
+   * Status and timestamp fields for a transition
+   */
+  static transitionData(from: string, to: RoundStatus, now: Date = new Date()) {
+    this.assertTransition(from, to);
+    return { status: to, [TIMESTAMPS[to as Exclude<RoundStatus, 'CREATED'>]]: now };
+  }
+
+  /**
+   * Move one round, only if it is still in `from`
+   * Throws RoundStateConflictError when another request changed it first.
+   */
+  static async transition(
+    tx: Prisma.TransactionClient,
+    roundId: string,
+    from: RoundStatus,
+    to: RoundStatus,
+    data: Record<string, unknown> = {},
+    now: Date = new Date()
+  ) {
+    const { count } = await tx.round.updateMany({
+      where: { id: roundId, status: from },
+      data: { ...data, ...this.transitionData(from, to, now) },
+    });
+    const round = count > 0 ? await tx.round.findUnique({ where: { id: roundId } }) : null;
+    if (!round) {
+      throw new RoundStateConflictError(roundId, from);
+    }
+    return round;
+  }
+
+  /**
+   * Move every round matching `where` that is in `from`; returns how many moved
+   */
+  static async transitionMany(
+    tx: Prisma.TransactionClient,
+    where: Record<string, unknown>,
+    from: RoundStatus,
+    to: RoundStatus,
+    data: Record<string, unknown> = {},
+    now: Date = new Date()
+  ): Promise<number> {
+    const { count } = await tx.round.updateMany({
+      where: { ...where, status: from },
+      data: { ...data, ...this.transitionData(from, to, now) },
+    });
+    return count;
+  }
+}
@@ -0,0 +1,200 @@
+// Round views and history queries
+
+import { PLAYED_STATUSES, RoundStatus, isRoundStatus } from './round-state';
+import {
+  FieldErrors,
+  Validator,
+  isoDate,
+  object,
+  optional,
+  queryInteger,
+  queryNumber,
+  queryToObject,
+  string,
+  validate,
+  withDefault,
+} from './validation';
+import type { Prisma, Round } from '@prisma/client';
+import type { PublicRound } from './api';
+import type { GamePath } from './plinko-core';
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+export const MAX_HISTORY_LIMIT = 100;
+
+/**
+ * Public view of a round
+ * Results appear once the round has started; the server seed only once revealed.
+ */
+export function toPublicRound(round: Round): PublicRound {
+  const status = round.status as RoundStatus; // Only ever written by RoundStateMachine
+  const response: PublicRound = {
+    id: round.id,
+    createdAt: round.createdAt,
+    status,
+    nonce: round.nonce,
+    commitHex: round.commitHex,
+    rows: round.rows,
+    paytableId: round.paytableId,
+    rngVersion: round.rngVersion,
+    hashVersion: round.hashVersion,
+    seedPairId: round.seedPairId,
+  };
+
+  // Shared table bets take their server seed from a hash chain
+  if (round.tableRoundId) {
+    response.hashChainId = round.hashChainId;
+    response.chainIndex = round.chainIndex;
+    response.tableRoundId = round.tableRoundId;
+  }
+
+  // Add details if round has started
+  if (PLAYED_STATUSES.includes(status)) {
+    response.playerId = round.playerId;
+    response.clientSeed = round.clientSeed;
+    response.combinedSeed = round.combinedSeed;
+    response.pegMapHash = round.pegMapHash;
+    response.dropColumn = round.dropColumn;
+    response.binIndex = round.binIndex;
+    response.payoutMultiplier = round.payoutMultiplier;
+    response.betCents = round.betCents;
+    response.pathJson = round.pathJson as unknown as GamePath[];
+    response.startedAt = round.startedAt;
+    response.winAmount = Math.round(round.betCents * round.payoutMultiplier);
+  }
+
+  // Add server seed only if revealed
+  if (status === 'REVEALED') {
+    response.serverSeed = round.serverSeed;
+    response.revealedAt = round.revealedAt;
+  }
+
+  // Rounds closed without being played or revealed
+  if (status === 'EXPIRED') {
+    response.expiredAt = round.expiredAt;
+  }
+  if (status === 'VOIDED') {
+    response.voidedAt = round.voidedAt;
+  }
+
+  return response;
+}
+
+export interface RoundCursor {
+  createdAt: Date;
+  id: string;
+}
+
+export interface RoundHistoryQuery {
+  limit: number;
+  cursor?: RoundCursor;
+  playerId?: string;
+  statuses?: RoundStatus[];
+  from?: Date;
+  to?: Date;
+  binIndex?: number;
+  minMultiplier?: number;
+  maxMultiplier?: number;
+  clientSeed?: string;
+}
+
+/**
+ * Opaque cursor for the last round on a page
+ */
+export function encodeCursor(round: RoundCursor): string {
+  return Buffer.from(`${new Date(round.createdAt).toISOString()}|${round.id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): RoundCursor | null {
+  const [createdAt, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+  const date = new Date(createdAt);
+  if (!id || isNaN(date.getTime())) {
+    return null;
+  }
+  return { createdAt: date, id };
+}
+
+const cursorField: Validator<RoundCursor> = (value, field, errors) => {
+  const cursor = string()(value, field, errors);
+  if (cursor === undefined) return undefined;
+  const decoded = decodeCursor(cursor);
+  if (!decoded) {
+    errors[field] = 'is not a valid cursor';
+    return undefined;
+  }
+  return decoded;
+};
+
+// Comma-separated, case-insensitive, e.g. "started,revealed"
+const statusesField: Validator<RoundStatus[]> = (value, field, errors) => {
+  const list = string()(value, field, errors);
+  if (list === undefined) return undefined;
+  const statuses = list.split(',').map(s => s.trim().toUpperCase()).filter(Boolean);
+  const unknown = statuses.find(s => !isRoundStatus(s));
+  if (unknown) {
+    errors[field] = `has an unknown status: ${unknown}`;
+    return undefined;
+  }
+  return statuses as RoundStatus[];
+};
+
+const roundHistoryQuerySchema = object({
+  limit: withDefault(queryInteger({ min: 1, max: MAX_HISTORY_LIMIT }), DEFAULT_HISTORY_LIMIT),
+  cursor: optional(cursorField),
+  playerId: optional(string()), // Only operators may leave it out; the route checks the token
+  status: optional(statusesField),
+  from: optional(isoDate()),
+  to: optional(isoDate()),
+  bin: optional(queryInteger({ min: 0 })),
+  minMultiplier: optional(queryNumber()),
+  maxMultiplier: optional(queryNumber()),
+  clientSeed: optional(string()),
+});
+
+/**
+ * Parse history query parameters, returning field errors for bad input
+ * Empty parameters are treated as absent.
+ */
+export function parseRoundHistoryQuery(
+  params: URLSearchParams
+): { query: RoundHistoryQuery } | { errors: FieldErrors } {
+  const present = Object.fromEntries(
+    Object.entries(queryToObject(params)).filter(([, value]) => value !== '')
+  );
+  const parsed = validate(roundHistoryQuerySchema, present);
+  if ('errors' in parsed) {
+    return parsed;
+  }
+
+  const { bin, status, ...rest } = parsed.value;
+  return { query: { ...rest, binIndex: bin, statuses: status } };
+}
+
+/**
+ * Prisma where clause for a history query, newest first by (createdAt, id)
+ */
+export function buildRoundHistoryWhere(query: RoundHistoryQuery): Prisma.RoundWhereInput {
+  const conditions: Prisma.RoundWhereInput[] = [];
+
+  if (query.playerId) conditions.push({ playerId: query.playerId });
+  if (query.statuses) conditions.push({ status: { in: query.statuses } });
+  if (query.clientSeed) conditions.push({ clientSeed: query.clientSeed });
+  if (query.binIndex !== undefined) conditions.push({ binIndex: query.binIndex });
+  if (query.from) conditions.push({ createdAt: { gte: query.from } });
+  if (query.to) conditions.push({ createdAt: { lte: query.to } });
+  if (query.minMultiplier !== undefined) conditions.push({ payoutMultiplier: { gte: query.minMultiplier } });
+  if (query.maxMultiplier !== undefined) conditions.push({ payoutMultiplier: { lte: query.maxMultiplier } });
+
+  // Rows strictly after the cursor in (createdAt desc, id desc) order
+  if (query.cursor) {
+    conditions.push({
+      OR: [
+        { createdAt: { lt: query.cursor.createdAt } },
+        { createdAt: query.cursor.createdAt, id: { lt: query.cursor.id } },
+      ],
+    });
+  }
+
+  return conditions.length > 0 ? { AND: conditions } : {};
+}
+
+export const ROUND_HISTORY_ORDER = [{ createdAt: 'desc' as const }, { id: 'desc' as const }];
@@ -0,0 +1,187 @@
+import { Paytable, RiskLevel, getCurrentPaytable } from './paytables';
+
+// Peg biases are drawn as leftBias = 0.5 + (rand() - 0.5) * 0.2
+export const PEG_BIAS_MIN = 0.4;
+export const PEG_BIAS_MAX = 0.6;
+
+// Default RTP band a paytable must fall inside before it can be activated
+const DEFAULT_RTP_MIN = 0.97;
+const DEFAULT_RTP_MAX = 0.995;
+
+export interface RtpBand {
+  min: number;
+  max: number;
+}
+
+export interface ColumnRtp {
+  dropColumn: number;
+  leftProbability: number; // Per-row chance of bouncing left, averaged over peg maps
+  binProbabilities: number[];
+  rtp: number;
+}
+
+export interface PaytableRtpReport {
+  paytableId: string;
+  rows: number;
+  rtp: number; // Centre drop column, where the drop adjustment is zero
+  houseEdge: number;
+  minRtp: number;
+  maxRtp: number;
+  columns: ColumnRtp[];
+}
+
+export class PaytableRtpError extends Error {
+  constructor(
+    public readonly paytableId: string,
+    public readonly rtp: number,
+    public readonly band: RtpBand,
+    public readonly dropColumn: number
+  ) {
+    super(
+      `Paytable ${paytableId} has RTP ${rtp.toFixed(4)} at drop column ${dropColumn}, ` +
+      `outside the allowed band [${band.min}, ${band.max}]`
+    );
+    this.name = 'PaytableRtpError';
+  }
+}
+
+/**
+ * Exact return-to-player calculator
+ *
+ * Averaged over peg maps, every peg bias is an independent draw from
+ * [PEG_BIAS_MIN, PEG_BIAS_MAX] and the path touches exactly one peg per row,
+ * so each row is an independent left/right decision with the same expected
+ * probability. The bin distribution is then computed by dynamic programming
+ * over pos (number of right moves), mirroring simulateDrop.
+ */
+export class RtpCalculator {
+  /**
+   * Expected value of clamp(bias + adj, 0, 1) for bias uniform on the peg bias range
+   */
+  static expectedLeftProbability(adj: number): number {
+    const lo = PEG_BIAS_MIN + adj;
+    const hi = PEG_BIAS_MAX + adj;
+
+    // Integrate the clamped line piecewise: 0 below 0, x on [0, 1], 1 above 1
+    let integral = 0;
+    const a = Math.max(lo, 0);
+    const b = Math.min(hi, 1);
+    if (b > a) {
+      integral += (b * b - a * a) / 2;
+    }
+    if (hi > 1) {
+      integral += hi - Math.max(lo, 1);
+    }
+
+    return integral / (hi - lo);
+  }
+
+  /**
+   * Drop column adjustment used by simulateDrop
+   */
+  static dropAdjustment(dropColumn: number, rows: number): number {
+    return (dropColumn - Math.floor(rows / 2)) * 0.01;
+  }
+
+  /**
+   * Probability of landing in each bin for a drop column, averaged over peg maps
+   */
+  static getBinProbabilities(rows: number, dropColumn: number): number[] {
+    const left = this.expectedLeftProbability(this.dropAdjustment(dropColumn, rows));
+
+    // probabilities[pos] after each row; pos only ever grows by one per row
+    let probabilities = [1];
+    for (let row = 0; row < rows; row++) {
+      const next = new Array(probabilities.length + 1).fill(0);
+      probabilities.forEach((p, pos) => {
+        next[pos] += p * left;
+        next[pos + 1] += p * (1 - left);
+      });
+      probabilities = next;
+    }
+
+    return probabilities;
+  }
+
+  /**
+   * Compute RTP for every drop column of a paytable
+   */
+  static computeReport(paytable: Paytable): PaytableRtpReport {
+    const { rows, multipliers } = paytable;
+    const columns: ColumnRtp[] = [];
+
+    for (let dropColumn = 0; dropColumn <= rows; dropColumn++) {
+      const binProbabilities = this.getBinProbabilities(rows, dropColumn);
+      const rtp = binProbabilities.reduce((sum, p, bin) => sum + p * multipliers[bin], 0);
+
+      columns.push({
+        dropColumn,
+        leftProbability: this.expectedLeftProbability(this.dropAdjustment(dropColumn, rows)),
+        binProbabilities,
+        rtp,
+      });
+    }
+
+    const rtp = columns[Math.floor(rows / 2)].rtp;
+    const columnRtps = columns.map(column => column.rtp);
+
+    return {
+      paytableId: paytable.id,
+      rows,
+      rtp,
+      houseEdge: 1 - rtp,
+      minRtp: Math.min(...columnRtps),
+      maxRtp: Math.max(...columnRtps),
+      columns,
+    };
+  }
+}
+
+/**
+ * RTP band from the environment (PAYTABLE_RTP_MIN / PAYTABLE_RTP_MAX)
+ */
+export function getRtpBand(): RtpBand {
+  const min = parseFloat(process.env.PAYTABLE_RTP_MIN ?? '');
+  const max = parseFloat(process.env.PAYTABLE_RTP_MAX ?? '');
+
+  return {
+    min: isNaN(min) ? DEFAULT_RTP_MIN : min,
+    max: isNaN(max) ? DEFAULT_RTP_MAX : max,
+  };
+}
+
+export function isWithinBand(rtp: number, band: RtpBand): boolean {
+  return rtp >= band.min && rtp <= band.max;
+}
+
+/**
+ * Whether every drop column's RTP is inside the band; players choose the
+ * column, so the centre alone says nothing about the best available return
+ */
+export function isReportWithinBand(report: PaytableRtpReport, band: RtpBand): boolean {
+  return isWithinBand(report.minRtp, band) && isWithinBand(report.maxRtp, band);
+}
+
+/**
+ * Throw PaytableRtpError unless every drop column's RTP is inside the band
+ */
+export function validatePaytable(paytable: Paytable, band: RtpBand = getRtpBand()): PaytableRtpReport {
+  const report = RtpCalculator.computeReport(paytable);
+  const outside = report.columns.find(column => !isWithinBand(column.rtp, band));
+  if (outside) {
+    throw new PaytableRtpError(paytable.id, outside.rtp, band, outside.dropColumn);
+  }
+  return report;
+}
+
+/**
+ * Resolve the current paytable for new rounds, refusing to activate one
+ * with any drop column's RTP outside the configured band
+ */
+export function getActivePaytable(risk: RiskLevel, rows: number): Paytable | undefined {
+  const paytable = getCurrentPaytable(risk, rows);
+  if (paytable) {
+    validatePaytable(paytable);
+  }
+  return paytable;
+}
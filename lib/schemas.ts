@@ -0,0 +1,128 @@
+// Request schemas for the API routes
+//
+// Shared fields are defined once so every route applies the same rules, e.g.
+// a drop column is always an integer and a client seed always has the same
+// length and charset. Checks that need stored data (a drop column against the
+// round's committed rows) stay in the route.
+
+import { DEFAULT_RISK, RISK_LEVELS } from './paytables';
+import {
+  CURRENT_RNG_VERSION,
+  HASH_VERSION_JSON,
+  MAX_ROWS,
+  MIN_ROWS,
+  RNG_VERSION_XORSHIFT32,
+  ROWS,
+  isHashVersion,
+  isRngVersion,
+} from './plinko-core';
+import { autoBetSettingsFields } from './auto-bet';
+import { MAX_VERIFY_BATCH } from './verification';
+import { DEFAULT_SIMULATION_ROUNDS, MAX_SIMULATION_ROUNDS } from './simulation';
+import {
+  array,
+  either,
+  integer,
+  object,
+  oneOf,
+  optional,
+  queryInteger,
+  refine,
+  string,
+  withDefault,
+} from './validation';
+
+export const MAX_CLIENT_SEED_LENGTH = 64;
+export const CLIENT_SEED_PATTERN = /^[A-Za-z0-9._-]+$/;
+
+// Seeds and nonces supplied for verification may predate the client seed rules
+const MAX_SEED_LENGTH = 256;
+const MAX_ID_LENGTH = 64;
+
+export const playerIdField = string({ max: MAX_ID_LENGTH });
+
+export const clientSeedField = string({
+  max: MAX_CLIENT_SEED_LENGTH,
+  pattern: CLIENT_SEED_PATTERN,
+  patternMessage: "may only contain letters, digits, '.', '_' and '-'",
+});
+
+export const rowsField = withDefault(integer({ min: MIN_ROWS, max: MAX_ROWS }), ROWS);
+
+export const riskField = withDefault(oneOf(RISK_LEVELS), DEFAULT_RISK);
+
+// Upper bound is the board's row count, checked by the route
+export const dropColumnField = integer({ min: 0, max: MAX_ROWS });
+
+export const betCentsField = integer({ min: 1 });
+
+export const commitRoundBody = object({
+  playerId: playerIdField,
+  rows: rowsField,
+  risk: riskField,
+});
+
+export const startRoundBody = object({
+  playerId: playerIdField,
+  betCents: betCentsField,
+  dropColumn: dropColumnField,
+});
+
+export const revealRoundBody = object({
+  playerId: playerIdField,
+});
+
+export const autoBetBody = object({
+  playerId: playerIdField,
+  rows: rowsField,
+  risk: riskField,
+  dropColumn: dropColumnField,
+  ...autoBetSettingsFields,
+});
+
+export const tableBetBody = object({
+  playerId: playerIdField,
+  dropColumn: dropColumnField,
+  betCents: betCentsField,
+  clientSeed: optional(clientSeedField), // Defaults to a random seed
+});
+
+export const setClientSeedBody = object({
+  clientSeed: clientSeedField,
+});
+
+export const verifyQuery = object({
+  serverSeed: string({ max: MAX_SEED_LENGTH }),
+  clientSeed: string({ max: MAX_SEED_LENGTH }),
+  nonce: string({ max: MAX_SEED_LENGTH }),
+  dropColumn: queryInteger({ min: 0, max: MAX_ROWS }),
+  // Defaults describe rounds played before each setting existed
+  rows: withDefault(queryInteger({ min: MIN_ROWS, max: MAX_ROWS }), ROWS),
+  paytableId: optional(string({ max: MAX_ID_LENGTH })),
+  rngVersion: withDefault(refine(queryInteger(), isRngVersion, 'must be a known RNG version'), RNG_VERSION_XORSHIFT32),
+  hashVersion: withDefault(refine(queryInteger(), isHashVersion, 'must be a known hash version'), HASH_VERSION_JSON),
+});
+
+export const verifyBatchBody = object({
+  serverSeed: optional(string({ max: MAX_SEED_LENGTH })),
+  roundIds: optional(array(string({ max: MAX_ID_LENGTH }), { min: 1, max: MAX_VERIFY_BATCH })),
+  clientSeed: optional(string({ max: MAX_SEED_LENGTH })),
+  nonces: optional(array(either(string({ max: MAX_SEED_LENGTH }), integer({ min: 0 })), { min: 1, max: MAX_VERIFY_BATCH })),
+  nonceRange: optional(object({ from: integer({ min: 0 }), to: integer({ min: 0 }) })),
+});
+
+export const simulateBody = object({
+  rows: rowsField,
+  risk: riskField,
+  paytableId: optional(string({ max: MAX_ID_LENGTH })), // Any published version; overrides risk
+  dropColumn: dropColumnField,
+  rounds: withDefault(integer({ min: 1, max: MAX_SIMULATION_ROUNDS }), DEFAULT_SIMULATION_ROUNDS),
+  betCents: withDefault(betCentsField, 100),
+  rngVersion: withDefault(refine(integer(), isRngVersion, 'must be a known RNG version'), CURRENT_RNG_VERSION),
+  serverSeed: optional(string({ max: MAX_SEED_LENGTH })),
+  clientSeed: optional(string({ max: MAX_SEED_LENGTH })),
+});
+
+export const paytablesQuery = object({
+  version: optional(either(oneOf(['all'] as const), queryInteger({ min: 1 }))),
+});
@@ -0,0 +1,181 @@
+import { Prisma } from '@prisma/client';
+import { ProvablyFairProtocol } from './prng';
+import { getSeedVault } from './seed-vault';
+import { RoundStateMachine } from './round-state';
+import { generateClientSeed } from './utils';
+import type { PublicSeedPair } from './api';
+
+export type SeedPairStatus = 'ACTIVE' | 'ROTATED';
+
+export interface SeedPairRecord {
+  id: string;
+  createdAt: Date;
+  playerId: string;
+  status: string;
+  serverSeed: string | null; // Plaintext, only set once rotated
+  serverSeedEncrypted: string | null; // Encrypted while the pair is active
+  serverSeedHash: string;
+  clientSeed: string;
+  nextNonce: number;
+  revealedAt: Date | null;
+}
+
+export class SeedPairConflictError extends Error {
+  constructor(public readonly seedPairId: string) {
+    super(`Seed pair ${seedPairId} is no longer active`);
+    this.name = 'SeedPairConflictError';
+  }
+}
+
+/**
+ * Public view of a seed pair: the server seed is only included once rotated
+ */
+export function toPublicSeedPair(pair: SeedPairRecord): PublicSeedPair {
+  return {
+    seedPairId: pair.id,
+    status: pair.status,
+    serverSeedHash: pair.serverSeedHash,
+    serverSeed: pair.status === 'ROTATED' ? pair.serverSeed ?? undefined : undefined,
+    clientSeed: pair.clientSeed,
+    nextNonce: pair.nextNonce,
+    createdAt: pair.createdAt,
+    revealedAt: pair.revealedAt,
+  };
+}
+
+/**
+ * Seed pair lifecycle
+ * Each player has one ACTIVE pair: a committed server seed (only its hash is
+ * public), a client seed the player chooses, and a nonce that increments for
+ * every round. Rotating reveals the server seed and commits a new one.
+ */
+export class SeedPairs {
+  /**
+   * Get the player's active seed pair, committing a new one if there is none
+   */
+  static async getOrCreateActive(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    clientSeed?: string
+  ): Promise<SeedPairRecord> {
+    const active = await tx.seedPair.findFirst({
+      where: { playerId, status: 'ACTIVE' },
+    });
+    if (active) {
+      return active;
+    }
+
+    return this.create(tx, playerId, clientSeed ?? generateClientSeed());
+  }
+
+  /**
+   * Decrypt a pair's server seed
+   * Only round start and rotation need the plaintext; nothing else should call this.
+   */
+  static getServerSeed(pair: SeedPairRecord): string {
+    if (pair.serverSeedEncrypted) {
+      return getSeedVault().decrypt(pair.serverSeedEncrypted);
+    }
+    // Rotated pairs, and active pairs created before encryption at rest
+    if (pair.serverSeed) {
+      return pair.serverSeed;
+    }
+    throw new Error(`Seed pair ${pair.id} has no server seed`);
+  }
+
+  /**
+   * Reserve the next nonce on a seed pair
+   */
+  static async allocateNonce(tx: Prisma.TransactionClient, seedPairId: string): Promise<number> {
+    // Increment in a single statement so concurrent commits never share a nonce
+    const updated = await tx.seedPair.update({
+      where: { id: seedPairId },
+      data: { nextNonce: { increment: 1 } },
+    });
+    return updated.nextNonce - 1;
+  }
+
+  /**
+   * Set the player's client seed
+   * An unused pair is updated in place; once a round has been played with
+   * the pair, the change rotates it so past rounds stay verifiable.
+   */
+  static async setClientSeed(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    clientSeed: string
+  ): Promise<{ active: SeedPairRecord; revealed?: SeedPairRecord }> {
+    const active = await this.getOrCreateActive(tx, playerId, clientSeed);
+
+    if (active.nextNonce === 0) {
+      const updated = await tx.seedPair.update({
+        where: { id: active.id },
+        data: { clientSeed },
+      });
+      return { active: updated };
+    }
+
+    return this.rotate(tx, playerId, clientSeed);
+  }
+
+  /**
+   * Reveal the active server seed and commit a new one
+   * Rounds played with the old pair get the server seed copied onto them and
+   * become REVEALED; rounds committed but not started are VOIDED, since their
+   * outcome would now be known in advance.
+   * Throws SeedPairConflictError when another request rotated the pair first.
+   */
+  static async rotate(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    clientSeed?: string
+  ): Promise<{ active: SeedPairRecord; revealed?: SeedPairRecord }> {
+    const current = await tx.seedPair.findFirst({
+      where: { playerId, status: 'ACTIVE' },
+    });
+
+    let revealed: SeedPairRecord | undefined;
+    if (current) {
+      const revealedAt = new Date();
+      const serverSeed = this.getServerSeed(current);
+      const data = { status: 'ROTATED', serverSeed, serverSeedEncrypted: null, revealedAt };
+
+      // Conditional so two concurrent rotations can't both commit a new pair
+      const { count } = await tx.seedPair.updateMany({
+        where: { id: current.id, status: 'ACTIVE' },
+        data,
+      });
+      if (count === 0) {
+        throw new SeedPairConflictError(current.id);
+      }
+      revealed = { ...current, ...data };
+
+      await RoundStateMachine.transitionMany(
+        tx, { seedPairId: current.id }, 'STARTED', 'REVEALED', { serverSeed }, revealedAt
+      );
+      await RoundStateMachine.transitionMany(tx, { seedPairId: current.id }, 'CREATED', 'VOIDED', {}, revealedAt);
+    }
+
+    const active = await this.create(tx, playerId, clientSeed ?? current?.clientSeed ?? generateClientSeed());
+    return { active, revealed };
+  }
+
+  private static async create(
+    tx: Prisma.TransactionClient,
+    playerId: string,
+    clientSeed: string
+  ): Promise<SeedPairRecord> {
+    const serverSeed = ProvablyFairProtocol.generateServerSeed();
+
+    return tx.seedPair.create({
+      data: {
+        playerId,
+        status: 'ACTIVE',
+        serverSeedEncrypted: getSeedVault().encrypt(serverSeed),
+        serverSeedHash: ProvablyFairProtocol.createServerSeedHash(serverSeed),
+        clientSeed,
+        nextNonce: 0,
+      },
+    });
+  }
+}
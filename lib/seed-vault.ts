@@ -0,0 +1,173 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { existsSync, readFileSync, statSync, writeFileSync } from 'fs';
+import path from 'path';
+
+// Unrevealed server seeds are stored encrypted with AES-256-GCM.
+//
+// Keys come from SEED_ENCRYPTION_KEY (64 hex chars), with retired keys still
+// needed for decryption in SEED_ENCRYPTION_PREVIOUS_KEYS (comma separated).
+// Without the env var, keys are read from a local key file (SEED_KEY_FILE,
+// default .seed-key): one hex key per line, current key first. Outside
+// production a missing key file is created on first use.
+
+const PAYLOAD_VERSION = 'v1';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const DEFAULT_KEY_FILE = '.seed-key';
+
+export class SeedVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SeedVaultError';
+  }
+}
+
+/**
+ * Short fingerprint identifying which key encrypted a payload
+ */
+export function keyIdFor(key: Buffer): string {
+  return createHash('sha256').update(key).digest('hex').substring(0, 8);
+}
+
+export function generateKeyHex(): string {
+  return randomBytes(KEY_BYTES).toString('hex');
+}
+
+function parseKey(hex: string): Buffer {
+  const trimmed = hex.trim();
+  if (!/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+    throw new SeedVaultError('Seed encryption keys must be 64 hex characters (32 bytes)');
+  }
+  return Buffer.from(trimmed, 'hex');
+}
+
+/**
+ * Encrypts and decrypts server seeds with a keyring
+ * The first key encrypts; any key in the ring can decrypt.
+ */
+export class SeedVault {
+  private readonly keys: Map<string, Buffer>;
+  readonly currentKeyId: string;
+
+  constructor(keyHexes: string[]) {
+    if (keyHexes.length === 0) {
+      throw new SeedVaultError('Seed vault needs at least one key');
+    }
+
+    const keys = keyHexes.map(parseKey);
+    this.keys = new Map(keys.map(key => [keyIdFor(key), key]));
+    this.currentKeyId = keyIdFor(keys[0]);
+  }
+
+  /**
+   * Encrypt with the current key: v1.<keyId>.<iv>.<tag>.<ciphertext> (base64url parts)
+   */
+  encrypt(plaintext: string): string {
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv('aes-256-gcm', this.keys.get(this.currentKeyId)!, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return [
+      PAYLOAD_VERSION,
+      this.currentKeyId,
+      iv.toString('base64url'),
+      cipher.getAuthTag().toString('base64url'),
+      ciphertext.toString('base64url'),
+    ].join('.');
+  }
+
+  decrypt(payload: string): string {
+    const [version, keyId, iv, tag, ciphertext] = payload.split('.');
+    if (version !== PAYLOAD_VERSION || ciphertext === undefined) {
+      throw new SeedVaultError('Unrecognised encrypted seed format');
+    }
+
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new SeedVaultError(`Seed was encrypted with unknown key ${keyId}`);
+    }
+
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, 'base64url')),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+
+  /**
+   * Whether a payload was encrypted with a key other than the current one
+   */
+  needsReencryption(payload: string): boolean {
+    return payload.split('.')[1] !== this.currentKeyId;
+  }
+}
+
+export function getKeyFilePath(): string {
+  return path.resolve(process.env.SEED_KEY_FILE ?? DEFAULT_KEY_FILE);
+}
+
+export function readKeyFile(filePath: string = getKeyFilePath()): string[] {
+  return readFileSync(filePath, 'utf8')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+export function writeKeyFile(keyHexes: string[], filePath: string = getKeyFilePath()): void {
+  writeFileSync(filePath, keyHexes.join('\n') + '\n', { mode: 0o600 });
+}
+
+/**
+ * Load the keyring from the environment or the local key file
+ */
+export function loadKeyring(): { keys: string[]; source: 'env' | 'file' } {
+  if (process.env.SEED_ENCRYPTION_KEY) {
+    const previous = (process.env.SEED_ENCRYPTION_PREVIOUS_KEYS ?? '')
+      .split(',')
+      .map(key => key.trim())
+      .filter(Boolean);
+    return { keys: [process.env.SEED_ENCRYPTION_KEY, ...previous], source: 'env' };
+  }
+
+  const filePath = getKeyFilePath();
+  if (!existsSync(filePath)) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new SeedVaultError('SEED_ENCRYPTION_KEY or a seed key file is required in production');
+    }
+    writeKeyFile([generateKeyHex()], filePath);
+  }
+
+  return { keys: readKeyFile(filePath), source: 'file' };
+}
+
+let vault: SeedVault | undefined;
+let vaultKeyFileMtime: number | undefined; // Only set when the keys came from the key file
+
+function keyFileMtime(): number | undefined {
+  return statSync(getKeyFilePath(), { throwIfNoEntry: false })?.mtimeMs;
+}
+
+/**
+ * Process-wide vault built from the configured keyring
+ * A rewritten key file (e.g. by the rotate script) is reloaded on the next
+ * call, so a running server stops encrypting with a key once it is retired.
+ */
+export function getSeedVault(): SeedVault {
+  if (vault && vaultKeyFileMtime !== undefined && keyFileMtime() !== vaultKeyFileMtime) {
+    vault = undefined;
+  }
+  if (!vault) {
+    const { keys, source } = loadKeyring();
+    vault = new SeedVault(keys);
+    vaultKeyFileMtime = source === 'file' ? keyFileMtime() : undefined;
+  }
+  return vault;
+}
+
+/**
+ * Drop the cached vault so the next call reloads keys (after rotation, tests)
+ */
+export function resetSeedVault(): void {
+  vault = undefined;
+}
@@ -0,0 +1,365 @@
+// Shared tables
+//
+// Everyone at a table plays the same table round: its server seed is the next
+// seed from the hash chain, committed when the round opens. Players place one
+// ball each (bet, drop column, client seed) until the round closes, then all
+// balls drop at once and the seed is revealed with the results.
+//
+//   OPEN ──▶ DROPPED
+//
+// Each ball is an ordinary Round row that moves CREATED ──▶ STARTED ──▶
+// REVEALED when the table round drops, so history and /verify work unchanged.
+
+import { Prisma, Round } from '@prisma/client';
+import { CURRENT_HASH_VERSION, PlinkoEngine } from './engine';
+import { HashChain, CURRENT_RNG_VERSION } from './prng';
+import { RiskLevel, getCurrentPaytable, getPaytable } from './paytables';
+import { getActivePaytable } from './rtp';
+import { HashChains } from './hash-chain';
+import { Ledger } from './ledger';
+import { RoundStateMachine } from './round-state';
+import { TableConfig, TableLimits } from './table-config';
+import type { PublicTableRound, SharedTableSummary, TableBall, TableBet } from './api';
+
+export type TableRoundStatus = 'OPEN' | 'DROPPED';
+
+export interface SharedTable {
+  id: string;
+  name: string;
+  rows: number;
+  risk: RiskLevel;
+  betWindowSeconds: number; // How long each round takes bets before it drops
+}
+
+// A round still open this long after its bet window has no ticker left to drop
+// it (tickers live in memory, so e.g. after a restart); the reveal sweep does
+export const ORPHANED_ROUND_GRACE_MS = 30000;
+
+export const SHARED_TABLES: SharedTable[] = [
+  { id: 'main', name: 'Main Table', rows: 12, risk: 'medium', betWindowSeconds: 15 },
+  { id: 'high-roller', name: 'High Roller', rows: 16, risk: 'high', betWindowSeconds: 20 },
+];
+
+export interface TableRoundRecord {
+  id: string;
+  createdAt: Date;
+  tableId: string;
+  status: string;
+  rows: number;
+  paytableId: string;
+  hashChainId: string;
+  chainIndex: number;
+  commitHex: string;
+  serverSeed: string | null;
+  closesAt: Date;
+  droppedAt: Date | null;
+}
+
+export interface TableDrop {
+  round: TableRoundRecord;
+  balls: TableBall[];
+}
+
+export interface TableTick {
+  dropped: TableDrop | null;
+  current: TableRoundRecord | null; // Round taking bets after the tick
+  opened: boolean;
+}
+
+export interface TableBetInput {
+  playerId: string;
+  clientSeed: string;
+  dropColumn: number;
+  betCents: number;
+}
+
+export class TableRoundClosedError extends Error {
+  constructor(public readonly tableId: string) {
+    super(`Table ${tableId} has no round taking bets`);
+    this.name = 'TableRoundClosedError';
+  }
+}
+
+export class DuplicateTableBetError extends Error {
+  constructor(public readonly tableRoundId: string, public readonly playerId: string) {
+    super(`Player ${playerId} already has a ball in table round ${tableRoundId}`);
+    this.name = 'DuplicateTableBetError';
+  }
+}
+
+export class UnrevealedChainSeedError extends Error {
+  constructor(public readonly hashChainId: string, public readonly chainIndex: number) {
+    super(`Hash chain ${hashChainId} still has an open round at index ${chainIndex}`);
+    this.name = 'UnrevealedChainSeedError';
+  }
+}
+
+/**
+ * Tables the configuration offers: a table's board must be in its allowed rows and risks
+ */
+export function listSharedTables(config: TableConfig): SharedTable[] {
+  return SHARED_TABLES.filter(table => !TableLimits.checkBoard(config, table.rows, table.risk));
+}
+
+export function getSharedTable(id: string, config: TableConfig): SharedTable | undefined {
+  return listSharedTables(config).find(table => table.id === id);
+}
+
+export function toSharedTableSummary(table: SharedTable, config: TableConfig): SharedTableSummary {
+  const paytable = getCurrentPaytable(table.risk, table.rows)!;
+  return {
+    tableId: table.id,
+    name: table.name,
+    rows: table.rows,
+    risk: table.risk,
+    betWindowSeconds: table.betWindowSeconds,
+    paytableId: paytable.id,
+    minBetCents: config.minBetCents,
+    maxBetCents: TableLimits.maxBetFor(config, paytable),
+  };
+}
+
+/**
+ * Public view of a table round: the server seed is only included once it has dropped
+ */
+export function toPublicTableRound(round: TableRoundRecord): PublicTableRound {
+  return {
+    tableRoundId: round.id,
+    tableId: round.tableId,
+    status: round.status,
+    rows: round.rows,
+    paytableId: round.paytableId,
+    multipliers: getPaytable(round.paytableId)?.multipliers ?? [],
+    hashChainId: round.hashChainId,
+    chainIndex: round.chainIndex,
+    commitHex: round.commitHex,
+    serverSeed: round.status === 'DROPPED' ? round.serverSeed ?? undefined : undefined,
+    closesAt: round.closesAt,
+    droppedAt: round.droppedAt,
+  };
+}
+
+export function toTableBet(round: Pick<Round, 'id' | 'clientSeed' | 'dropColumn' | 'betCents'>): TableBet {
+  return {
+    roundId: round.id,
+    clientSeed: round.clientSeed,
+    dropColumn: round.dropColumn,
+    betCents: round.betCents,
+  };
+}
+
+/**
+ * Table round lifecycle
+ */
+export class SharedTables {
+  /**
+   * The table's round currently taking bets, if any
+   */
+  static async getOpenRound(tx: Prisma.TransactionClient, tableId: string): Promise<TableRoundRecord | null> {
+    return tx.tableRound.findFirst({
+      where: { tableId, status: 'OPEN' },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Balls placed in a table round so far
+   */
+  static async listBets(tx: Prisma.TransactionClient, tableRoundId: string): Promise<TableBet[]> {
+    const rounds = await tx.round.findMany({
+      where: { tableRoundId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rounds.map(toTableBet);
+  }
+
+  /**
+   * Drop the open round once its bet window has passed, then open the next
+   * one if `open` is set (the feed only keeps tables running while watched)
+   */
+  static async tick(
+    tx: Prisma.TransactionClient,
+    table: SharedTable,
+    open: boolean,
+    now: Date = new Date()
+  ): Promise<TableTick> {
+    let current = await this.getOpenRound(tx, table.id);
+    let dropped: TableDrop | null = null;
+
+    if (current && current.closesAt <= now) {
+      dropped = await this.drop(tx, current, now);
+      current = null;
+    }
+
+    if (current || !open) {
+      return { dropped, current, opened: false };
+    }
+    return { dropped, current: await this.open(tx, table, now), opened: true };
+  }
+
+  /**
+   * Commit a new round to the next seed on the table's hash chain
+   * The commitment is the seed one index lower, so this refuses to open while
+   * a lower index on the chain is still OPEN (e.g. a second ticker racing).
+   */
+  static async open(tx: Prisma.TransactionClient, table: SharedTable, now: Date = new Date()): Promise<TableRoundRecord> {
+    const paytable = getActivePaytable(table.risk, table.rows)!;
+    const { chain, chainIndex, serverSeed } = await HashChains.allocateSeed(tx, table.id);
+
+    const unrevealed = await tx.tableRound.findFirst({
+      where: { hashChainId: chain.id, status: 'OPEN', chainIndex: { lt: chainIndex } },
+    });
+    if (unrevealed) {
+      throw new UnrevealedChainSeedError(chain.id, unrevealed.chainIndex);
+    }
+
+    return tx.tableRound.create({
+      data: {
+        tableId: table.id,
+        status: 'OPEN',
+        rows: table.rows,
+        paytableId: paytable.id,
+        hashChainId: chain.id,
+        chainIndex,
+        commitHex: HashChain.link(serverSeed),
+        closesAt: new Date(now.getTime() + table.betWindowSeconds * 1000),
+      },
+    });
+  }
+
+  /**
+   * Place a player's ball in an open round and take the bet
+   * The ball is a CREATED round with the outcome fields left empty until the drop.
+   */
+  static async placeBet(
+    tx: Prisma.TransactionClient,
+    tableRound: TableRoundRecord,
+    bet: TableBetInput,
+    now: Date = new Date()
+  ): Promise<{ bet: TableBet; balanceCents: number }> {
+    if (tableRound.status !== 'OPEN' || tableRound.closesAt <= now) {
+      throw new TableRoundClosedError(tableRound.tableId);
+    }
+
+    const existing = await tx.round.findFirst({
+      where: { tableRoundId: tableRound.id, playerId: bet.playerId },
+    });
+    if (existing) {
+      throw new DuplicateTableBetError(tableRound.id, bet.playerId);
+    }
+
+    const round = await tx.round.create({
+      data: {
+        ...RoundStateMachine.createData('CREATED', now),
+        playerId: bet.playerId,
+        tableRoundId: tableRound.id,
+        hashChainId: tableRound.hashChainId,
+        chainIndex: tableRound.chainIndex,
+        nonce: tableRound.chainIndex.toString(),
+        commitHex: tableRound.commitHex,
+        serverSeed: null, // Copied onto the round when the table round drops
+        clientSeed: bet.clientSeed,
+        combinedSeed: '', // Will be generated at the drop
+        pegMapHash: '', // Will be computed at the drop
+        rows: tableRound.rows,
+        paytableId: tableRound.paytableId,
+        rngVersion: CURRENT_RNG_VERSION,
+        hashVersion: CURRENT_HASH_VERSION,
+        dropColumn: bet.dropColumn,
+        binIndex: 0, // Will be computed at the drop
+        payoutMultiplier: 0, // Will be computed at the drop
+        betCents: bet.betCents,
+        pathJson: [], // Will be populated at the drop
+      },
+    });
+
+    const balanceCents = await Ledger.debit(tx, bet.playerId, bet.betCents, 'BET', round.id);
+    return { bet: toTableBet(round), balanceCents };
+  }
+
+  /**
+   * Close a round: play every ball with the revealed seed and pay the wins
+   * Returns null if another tick dropped it first.
+   */
+  static async drop(tx: Prisma.TransactionClient, tableRound: TableRoundRecord, now: Date = new Date()): Promise<TableDrop | null> {
+    const chain = await tx.hashChain.findUnique({ where: { id: tableRound.hashChainId } });
+    if (!chain) {
+      throw new Error(`Hash chain ${tableRound.hashChainId} not found`);
+    }
+    const serverSeed = HashChains.getSeed(chain, tableRound.chainIndex);
+
+    // Conditional update so only one tick plays the balls
+    const { count } = await tx.tableRound.updateMany({
+      where: { id: tableRound.id, status: 'OPEN' },
+      data: { status: 'DROPPED', serverSeed, droppedAt: now },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    const bets = await tx.round.findMany({
+      where: { tableRoundId: tableRound.id, status: 'CREATED' },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const balls: TableBall[] = [];
+    for (const bet of bets) {
+      const gameResult = PlinkoEngine.playRound(
+        serverSeed,
+        bet.clientSeed,
+        bet.nonce,
+        bet.dropColumn,
+        bet.rows,
+        bet.betCents,
+        PlinkoEngine.storedRoundOptions(bet)
+      );
+
+      await RoundStateMachine.transition(tx, bet.id, 'CREATED', 'STARTED', {
+        combinedSeed: gameResult.combinedSeed,
+        pegMapHash: gameResult.pegMapHash,
+        binIndex: gameResult.binIndex,
+        payoutMultiplier: gameResult.payoutMultiplier,
+        pathJson: gameResult.path as any,
+      }, now);
+      await Ledger.credit(tx, bet.playerId!, gameResult.payoutCents, 'WIN', bet.id); // Every ball has a player
+
+      balls.push({
+        ...toTableBet(bet),
+        binIndex: gameResult.binIndex,
+        payoutMultiplier: gameResult.payoutMultiplier,
+        winAmount: gameResult.payoutCents,
+        pegMap: gameResult.pegMap,
+        path: gameResult.path,
+      });
+    }
+
+    await RoundStateMachine.transitionMany(
+      tx, { tableRoundId: tableRound.id }, 'STARTED', 'REVEALED', { serverSeed }, now
+    );
+
+    return { round: { ...tableRound, status: 'DROPPED', serverSeed, droppedAt: now }, balls };
+  }
+
+  /**
+   * Drop every round left open past its bet window by more than the grace
+   * period, settling bets whose ticker is gone; returns how many dropped
+   */
+  static async dropOrphaned(
+    tx: Prisma.TransactionClient,
+    graceMs: number = ORPHANED_ROUND_GRACE_MS,
+    now: Date = new Date()
+  ): Promise<number> {
+    const orphaned: TableRoundRecord[] = await tx.tableRound.findMany({
+      where: { status: 'OPEN', closesAt: { lt: new Date(now.getTime() - graceMs) } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    let dropped = 0;
+    for (const tableRound of orphaned) {
+      if (await this.drop(tx, tableRound, now)) {
+        dropped++;
+      }
+    }
+    return dropped;
+  }
+}
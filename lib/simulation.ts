@@ -0,0 +1,122 @@
+// Monte Carlo simulation of the real game
+//
+// Plays N rounds through PlinkoEngine.playRound with throwaway seeds, so the
+// report reflects exactly what players experience (RNG, peg maps and
+// paytables included), next to the exact figures from RtpCalculator.
+
+import { PlinkoEngine } from './engine';
+import { Paytable } from './paytables';
+import { CURRENT_RNG_VERSION, ProvablyFairProtocol, RngVersion } from './prng';
+import { RtpCalculator } from './rtp';
+
+// Rounds run synchronously on the request thread (roughly 0.1ms each)
+export const MAX_SIMULATION_ROUNDS = 20000;
+export const DEFAULT_SIMULATION_ROUNDS = 10000;
+
+export interface SimulationOptions {
+  paytable: Paytable;
+  dropColumn: number;
+  rounds: number;
+  betCents: number;
+  rngVersion?: RngVersion; // Defaults to the current RNG
+  serverSeed?: string; // Random unless given, so a run can be reproduced
+  clientSeed?: string;
+}
+
+export interface SimulationReport {
+  paytableId: string;
+  rows: number;
+  dropColumn: number;
+  rounds: number;
+  betCents: number;
+  rngVersion: RngVersion;
+  serverSeed: string;
+  clientSeed: string;
+  multipliers: number[];
+  histogram: number[]; // Rounds landing in each bin
+  theoreticalProbabilities: number[];
+  rtp: number; // Total paid / total bet
+  theoreticalRtp: number;
+  variance: number; // Of the per-round payout multiplier
+  standardDeviation: number;
+  hitFrequency: number; // Share of rounds paying more than they cost
+  totalBetCents: number;
+  totalWinCents: number;
+  profitCents: number; // Player's net result
+  maxDrawdownCents: number; // Largest fall in the player's running balance from a peak
+}
+
+/**
+ * Runs simulated rounds and summarises them
+ */
+export class Simulator {
+  static run(options: SimulationOptions): SimulationReport {
+    const { paytable, dropColumn, rounds, betCents } = options;
+    const rngVersion = options.rngVersion ?? CURRENT_RNG_VERSION;
+    const serverSeed = options.serverSeed ?? ProvablyFairProtocol.generateServerSeed();
+    const clientSeed = options.clientSeed ?? 'simulation';
+
+    if (!Number.isInteger(rounds) || rounds < 1 || rounds > MAX_SIMULATION_ROUNDS) {
+      throw new RangeError(`Rounds must be an integer between 1 and ${MAX_SIMULATION_ROUNDS}`);
+    }
+
+    const histogram = new Array(paytable.rows + 1).fill(0);
+    let totalWinCents = 0;
+    let sumMultiplier = 0;
+    let sumSquaredMultiplier = 0;
+    let hits = 0;
+    let balance = 0;
+    let peak = 0;
+    let maxDrawdownCents = 0;
+
+    for (let nonce = 0; nonce < rounds; nonce++) {
+      const result = PlinkoEngine.playRound(
+        serverSeed,
+        clientSeed,
+        String(nonce),
+        dropColumn,
+        paytable.rows,
+        betCents,
+        { paytableId: paytable.id, rngVersion }
+      );
+
+      histogram[result.binIndex]++;
+      totalWinCents += result.payoutCents;
+      sumMultiplier += result.payoutMultiplier;
+      sumSquaredMultiplier += result.payoutMultiplier ** 2;
+      if (result.payoutCents > betCents) hits++;
+
+      balance += result.payoutCents - betCents;
+      peak = Math.max(peak, balance);
+      maxDrawdownCents = Math.max(maxDrawdownCents, peak - balance);
+    }
+
+    const theoreticalProbabilities = RtpCalculator.getBinProbabilities(paytable.rows, dropColumn);
+    const meanMultiplier = sumMultiplier / rounds;
+    const variance = Math.max(0, sumSquaredMultiplier / rounds - meanMultiplier ** 2);
+    const totalBetCents = betCents * rounds;
+
+    return {
+      paytableId: paytable.id,
+      rows: paytable.rows,
+      dropColumn,
+      rounds,
+      betCents,
+      rngVersion,
+      serverSeed,
+      clientSeed,
+      multipliers: paytable.multipliers,
+      histogram,
+      theoreticalProbabilities,
+      rtp: totalWinCents / totalBetCents,
+      theoreticalRtp: theoreticalProbabilities.reduce((sum, p, bin) => sum + p * paytable.multipliers[bin], 0),
+      variance,
+      standardDeviation: Math.sqrt(variance),
+      hitFrequency: hits / rounds,
+      totalBetCents,
+      totalWinCents,
+      profitCents: totalWinCents - totalBetCents,
+      maxDrawdownCents,
+    };
+  }
+}
@@ -0,0 +1,108 @@
+// Table configuration: bet limits and which boards can be played
+//
+// The max win applies per round, so on each board the largest bet is also
+// capped at maxWinCents / (the paytable's top multiplier). Rounds are
+// therefore never paid short and stay verifiable from their multiplier.
+
+import { Paytable, RISK_LEVELS, RiskLevel, isRiskLevel } from './paytables';
+import { MAX_ROWS, MIN_ROWS } from './plinko-core';
+import type { FieldErrors } from './validation';
+
+export interface TableConfig {
+  minBetCents: number;
+  maxBetCents: number;
+  maxWinCents: number; // Largest payout a single round can make
+  allowedRows: number[];
+  allowedRisks: RiskLevel[];
+}
+
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+  minBetCents: 10,
+  maxBetCents: 100000,
+  maxWinCents: 10000000,
+  allowedRows: Array.from({ length: MAX_ROWS - MIN_ROWS + 1 }, (_, i) => MIN_ROWS + i),
+  allowedRisks: [...RISK_LEVELS],
+};
+
+function parseCents(value: string | undefined, fallback: number): number {
+  const configured = parseInt(value ?? '', 10);
+  return isNaN(configured) || configured < 1 ? fallback : configured;
+}
+
+function parseList<T>(value: string | undefined, parse: (item: string) => T | undefined, fallback: T[]): T[] {
+  const items = (value ?? '')
+    .split(',')
+    .map(item => parse(item.trim()))
+    .filter((item): item is T => item !== undefined);
+  return items.length > 0 ? items : fallback;
+}
+
+/**
+ * Table configuration from the environment (TABLE_MIN_BET_CENTS,
+ * TABLE_MAX_BET_CENTS, TABLE_MAX_WIN_CENTS, TABLE_ROWS, TABLE_RISKS)
+ * Unset or invalid values fall back to DEFAULT_TABLE_CONFIG.
+ */
+export function getTableConfig(): TableConfig {
+  const minBetCents = parseCents(process.env.TABLE_MIN_BET_CENTS, DEFAULT_TABLE_CONFIG.minBetCents);
+  const maxBetCents = parseCents(process.env.TABLE_MAX_BET_CENTS, DEFAULT_TABLE_CONFIG.maxBetCents);
+
+  return {
+    minBetCents,
+    maxBetCents: Math.max(minBetCents, maxBetCents),
+    maxWinCents: parseCents(process.env.TABLE_MAX_WIN_CENTS, DEFAULT_TABLE_CONFIG.maxWinCents),
+    allowedRows: parseList(
+      process.env.TABLE_ROWS,
+      item => {
+        const rows = Number(item);
+        return Number.isInteger(rows) && rows >= MIN_ROWS && rows <= MAX_ROWS ? rows : undefined;
+      },
+      DEFAULT_TABLE_CONFIG.allowedRows
+    ).sort((a, b) => a - b),
+    allowedRisks: parseList(
+      process.env.TABLE_RISKS,
+      item => (isRiskLevel(item) ? item : undefined),
+      DEFAULT_TABLE_CONFIG.allowedRisks
+    ),
+  };
+}
+
+/**
+ * Limit checks against a table configuration
+ */
+export class TableLimits {
+  /**
+   * Field errors for a board the table doesn't offer, or null when it is allowed
+   */
+  static checkBoard(config: TableConfig, rows: number, risk: RiskLevel): FieldErrors | null {
+    const errors: FieldErrors = {};
+    if (!config.allowedRows.includes(rows)) {
+      errors.rows = `must be one of: ${config.allowedRows.join(', ')}`;
+    }
+    if (!config.allowedRisks.includes(risk)) {
+      errors.risk = `must be one of: ${config.allowedRisks.join(', ')}`;
+    }
+    return Object.keys(errors).length > 0 ? errors : null;
+  }
+
+  /**
+   * Largest bet on a board: the table maximum, lowered so the top multiplier stays within the max win
+   */
+  static maxBetFor(config: TableConfig, paytable: Paytable): number {
+    const topMultiplier = Math.max(...paytable.multipliers);
+    return Math.min(config.maxBetCents, Math.floor(config.maxWinCents / topMultiplier));
+  }
+
+  /**
+   * Field message for a bet outside the limits, or null when it is allowed
+   */
+  static checkBet(config: TableConfig, paytable: Paytable, betCents: number): string | null {
+    if (betCents < config.minBetCents) {
+      return `must be at least ${config.minBetCents} (table minimum)`;
+    }
+    const maxBetCents = this.maxBetFor(config, paytable);
+    if (betCents > maxBetCents) {
+      return `must be at most ${maxBetCents} (table maximum for this board)`;
+    }
+    return null;
+  }
+}
@@ -0,0 +1,147 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from './db';
+import { HashChains } from './hash-chain';
+import { SharedTable, SharedTables, listSharedTables, toPublicTableRound } from './shared-tables';
+import { getTableConfig } from './table-config';
+import type { TableEvent } from './api';
+
+// Live feed for shared tables
+//
+// One ticker per table per server process drops rounds when their bet window
+// ends and opens the next one, publishing each change to the table's stream
+// subscribers. Tables only open new rounds while someone is watching; a
+// ticker with pending bets keeps running until they have dropped.
+
+const TICK_INTERVAL_MS = 1000;
+
+type TableListener = (event: TableEvent) => void;
+type RoundEvent = Extract<TableEvent, { type: 'round' }>;
+
+interface FeedState {
+  listeners: Set<TableListener>;
+  timer?: ReturnType<typeof setInterval>;
+  latest?: RoundEvent; // Replayed to new subscribers
+  ticking: boolean;
+}
+
+const globalForFeeds = globalThis as unknown as {
+  tableFeeds: Map<string, FeedState> | undefined;
+};
+
+const feeds = globalForFeeds.tableFeeds ?? new Map<string, FeedState>();
+globalForFeeds.tableFeeds = feeds;
+
+function getFeed(tableId: string): FeedState {
+  let feed = feeds.get(tableId);
+  if (!feed) {
+    feed = { listeners: new Set(), ticking: false };
+    feeds.set(tableId, feed);
+  }
+  return feed;
+}
+
+/**
+ * In-process publish/subscribe for table events
+ */
+export class TableFeed {
+  /**
+   * Listen to a table; the current round is sent straight away when known
+   * Returns the function that stops listening.
+   */
+  static subscribe(table: SharedTable, listener: TableListener): () => void {
+    const feed = getFeed(table.id);
+    feed.listeners.add(listener);
+    if (feed.latest) {
+      listener(feed.latest);
+    }
+    this.ensureRunning(table);
+
+    return () => {
+      feed.listeners.delete(listener);
+    };
+  }
+
+  static publish(tableId: string, event: TableEvent) {
+    const feed = getFeed(tableId);
+    if (event.type === 'bet' && feed.latest?.round.tableRoundId === event.tableRoundId) {
+      feed.latest.bets.push(event.bet);
+    }
+
+    for (const listener of feed.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('Error sending table event:', error);
+      }
+    }
+  }
+
+  /**
+   * Commit the hash chain of every offered table that doesn't have one yet
+   * Run once at startup, so the terminal hashes are public before the first
+   * round and the slow chain build never happens inside a request.
+   */
+  static async commitChains() {
+    for (const table of listSharedTables(getTableConfig())) {
+      await prisma.$transaction((tx: Prisma.TransactionClient) => HashChains.getOrCreateActive(tx, table.id));
+    }
+  }
+
+  /**
+   * Start the table's ticker if it isn't running
+   */
+  static ensureRunning(table: SharedTable) {
+    const feed = getFeed(table.id);
+    if (feed.timer) {
+      return;
+    }
+
+    feed.timer = setInterval(() => {
+      this.tick(table).catch(error => console.error('Error ticking shared table:', error));
+    }, TICK_INTERVAL_MS);
+    // Never keep the process alive just for the feed
+    feed.timer.unref?.();
+    this.tick(table).catch(error => console.error('Error ticking shared table:', error));
+  }
+
+  /**
+   * Run one tick and publish what changed
+   */
+  static async tick(table: SharedTable) {
+    const feed = getFeed(table.id);
+    // A slow tick (e.g. committing a new hash chain) must not overlap the next one
+    if (feed.ticking) {
+      return;
+    }
+    feed.ticking = true;
+
+    try {
+      const watched = feed.listeners.size > 0;
+      const { dropped, current } = await prisma.$transaction((tx: Prisma.TransactionClient) =>
+        SharedTables.tick(tx, table, watched)
+      );
+
+      if (dropped) {
+        this.publish(table.id, { type: 'drop', round: toPublicTableRound(dropped.round), balls: dropped.balls });
+      }
+
+      if (!current) {
+        feed.latest = undefined;
+        if (!watched && feed.timer) {
+          clearInterval(feed.timer);
+          feed.timer = undefined;
+        }
+      } else if (feed.latest?.round.tableRoundId !== current.id) {
+        // A new round, or one opened before this process started watching
+        feed.latest = {
+          type: 'round',
+          round: toPublicTableRound(current),
+          bets: await SharedTables.listBets(prisma, current.id),
+        };
+        this.publish(table.id, feed.latest);
+      }
+    } finally {
+      feed.ticking = false;
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { randomHex } from "./entropy"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -31,7 +32,17 @@ export function clamp(value: number, min: number, max: number): number {
  * Generate a random client seed suggestion
  */
 export function generateClientSeed(): string {
-  return Math.random().toString(36).substring(2) + Date.now().toString(36);
+  return randomHex(16);
+}
+
+/**
+ * Request headers that authorise the player holding the token
+ */
+export function playerHeaders(playerToken: string, json: boolean = false): HeadersInit {
+  return {
+    Authorization: `Bearer ${playerToken}`,
+    ...(json ? { 'Content-Type': 'application/json' } : {}),
+  };
 }
 
 /**
@@ -0,0 +1,222 @@
+// Request validation
+//
+// A validator checks one value and records a message against its field path
+// when the value is unusable. Schemas are built by nesting validators with
+// object() and array(), and validate() runs one over a whole request body or
+// query. Nothing here depends on Next.js; lib/api.ts turns the errors into the
+// 400 response.
+
+export type FieldErrors = Record<string, string>;
+
+export type Validator<T> = (value: unknown, field: string, errors: FieldErrors) => T | undefined;
+
+export type Infer<V> = V extends Validator<infer T> ? T : never;
+
+export type ValidationResult<T> = { value: T } | { errors: FieldErrors };
+
+/**
+ * Run a schema over an input, collecting every field error
+ */
+export function validate<T>(schema: Validator<T>, input: unknown): ValidationResult<T> {
+  const errors: FieldErrors = {};
+  const value = schema(input, '', errors);
+  return Object.keys(errors).length > 0 ? { errors } : { value: value as T };
+}
+
+/**
+ * One line summary of field errors, e.g. "betCents must be an integer; dropColumn is required"
+ */
+export function describeFieldErrors(errors: FieldErrors): string {
+  return Object.entries(errors).map(([field, message]) => `${field} ${message}`).join('; ');
+}
+
+function fail(errors: FieldErrors, field: string, message: string): undefined {
+  errors[field || 'request'] = message;
+  return undefined;
+}
+
+function isMissing(value: unknown): value is undefined | null {
+  return value === undefined || value === null;
+}
+
+function childField(field: string, key: string | number): string {
+  if (typeof key === 'number') return `${field}[${key}]`;
+  return field ? `${field}.${key}` : key;
+}
+
+interface RangeOptions {
+  min?: number;
+  max?: number;
+}
+
+function checkRange(value: number, field: string, errors: FieldErrors, { min, max }: RangeOptions): number | undefined {
+  if (min !== undefined && value < min) return fail(errors, field, `must be at least ${min}`);
+  if (max !== undefined && value > max) return fail(errors, field, `must be at most ${max}`);
+  return value;
+}
+
+export interface StringOptions {
+  min?: number; // Length bounds
+  max?: number;
+  pattern?: RegExp;
+  patternMessage?: string;
+}
+
+export function string(options: StringOptions = {}): Validator<string> {
+  const { min = 1, max, pattern, patternMessage = 'has an invalid format' } = options;
+  return (value, field, errors) => {
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    if (typeof value !== 'string') return fail(errors, field, 'must be a string');
+    if (value.length < min) return fail(errors, field, min === 1 ? 'must not be empty' : `must be at least ${min} characters`);
+    if (max !== undefined && value.length > max) return fail(errors, field, `must be at most ${max} characters`);
+    if (pattern && !pattern.test(value)) return fail(errors, field, patternMessage);
+    return value;
+  };
+}
+
+/**
+ * JSON integer; 0.5 and "5" are rejected
+ */
+export function integer(options: RangeOptions = {}): Validator<number> {
+  return (value, field, errors) => {
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    if (typeof value !== 'number' || !Number.isInteger(value)) return fail(errors, field, 'must be an integer');
+    return checkRange(value, field, errors, options);
+  };
+}
+
+export function number(options: RangeOptions = {}): Validator<number> {
+  return (value, field, errors) => {
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fail(errors, field, 'must be a number');
+    return checkRange(value, field, errors, options);
+  };
+}
+
+/**
+ * Integer from a query string: only plain decimal digits, so "12abc" and "1e3" are rejected
+ */
+export function queryInteger(options: RangeOptions = {}): Validator<number> {
+  return (value, field, errors) => {
+    if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+      return integer(options)(Number(value), field, errors);
+    }
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    return fail(errors, field, 'must be an integer');
+  };
+}
+
+/**
+ * Number from a query string
+ */
+export function queryNumber(options: RangeOptions = {}): Validator<number> {
+  return (value, field, errors) => {
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    const parsed = typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+    return number(options)(parsed, field, errors);
+  };
+}
+
+/**
+ * ISO 8601 date string
+ */
+export function isoDate(): Validator<Date> {
+  return (value, field, errors) => {
+    const text = string()(value, field, errors);
+    if (text === undefined) return undefined;
+    const date = new Date(text);
+    return isNaN(date.getTime()) ? fail(errors, field, 'must be an ISO 8601 date') : date;
+  };
+}
+
+export function oneOf<T extends string | number>(values: readonly T[]): Validator<T> {
+  return (value, field, errors) => {
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    if (!values.includes(value as T)) return fail(errors, field, `must be one of: ${values.join(', ')}`);
+    return value as T;
+  };
+}
+
+export function array<T>(item: Validator<T>, options: RangeOptions = {}): Validator<T[]> {
+  const { min, max } = options;
+  return (value, field, errors) => {
+    if (isMissing(value)) return fail(errors, field, 'is required');
+    if (!Array.isArray(value)) return fail(errors, field, 'must be a list');
+    if (min !== undefined && value.length < min) return fail(errors, field, `must have at least ${min} item${min === 1 ? '' : 's'}`);
+    if (max !== undefined && value.length > max) return fail(errors, field, `must have at most ${max} items`);
+
+    const before = Object.keys(errors).length;
+    const items = value.map((element, i) => item(element, childField(field, i), errors));
+    return Object.keys(errors).length > before ? undefined : (items as T[]);
+  };
+}
+
+export function object<S extends Record<string, Validator<unknown>>>(
+  shape: S
+): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, field, errors) => {
+    if (isMissing(value) || typeof value !== 'object' || Array.isArray(value)) {
+      return fail(errors, field, 'must be a JSON object');
+    }
+
+    const before = Object.keys(errors).length;
+    const result: Record<string, unknown> = {};
+    for (const [key, validator] of Object.entries(shape)) {
+      result[key] = validator((value as Record<string, unknown>)[key], childField(field, key), errors);
+    }
+    return Object.keys(errors).length > before ? undefined : (result as { [K in keyof S]: Infer<S[K]> });
+  };
+}
+
+/**
+ * Accept a missing (undefined or null) value
+ */
+export function optional<T>(validator: Validator<T>): Validator<T | undefined> {
+  return (value, field, errors) => (isMissing(value) ? undefined : validator(value, field, errors));
+}
+
+/**
+ * Use a fallback for a missing value
+ */
+export function withDefault<T>(validator: Validator<T>, fallback: T): Validator<T> {
+  return (value, field, errors) => (isMissing(value) ? fallback : validator(value, field, errors));
+}
+
+/**
+ * Narrow a validated value with a further check
+ */
+export function refine<T, U extends T>(
+  validator: Validator<T>,
+  check: (value: T) => value is U,
+  message: string
+): Validator<U>;
+export function refine<T>(validator: Validator<T>, check: (value: T) => boolean, message: string): Validator<T>;
+export function refine<T>(validator: Validator<T>, check: (value: T) => boolean, message: string): Validator<T> {
+  return (value, field, errors) => {
+    const result = validator(value, field, errors);
+    if (result === undefined) return undefined;
+    return check(result) ? result : fail(errors, field, message);
+  };
+}
+
+/**
+ * First validator whose type check fits; errors come from the last one tried
+ */
+export function either<A, B>(first: Validator<A>, second: Validator<B>): Validator<A | B> {
+  return (value, field, errors) => {
+    const scratch: FieldErrors = {};
+    const result = first(value, field, scratch);
+    return Object.keys(scratch).length === 0 ? result : second(value, field, errors);
+  };
+}
+
+/**
+ * Query parameters as a plain object; repeated keys keep the first value
+ */
+export function queryToObject(params: URLSearchParams): Record<string, string> {
+  const result: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (!(key in result)) result[key] = value;
+  });
+  return result;
+}
@@ -0,0 +1,130 @@
+import { HASH_VERSION_JSON, PlinkoEngine, isHashVersion } from './engine';
+import { ProvablyFairProtocol, isRngVersion } from './prng';
+
+// Largest number of rounds a single batch verification will replay
+export const MAX_VERIFY_BATCH = 1000;
+
+/**
+ * Stored outcome of a round, as saved in the database or exported
+ */
+export interface StoredRound {
+  id: string;
+  nonce: string;
+  clientSeed: string;
+  commitHex: string;
+  rows: number;
+  paytableId: string;
+  rngVersion: number;
+  hashVersion?: number; // Absent in exports from before it was recorded: JSON
+  dropColumn: number;
+  betCents: number;
+  binIndex: number;
+  pegMapHash: string;
+  payoutMultiplier: number;
+}
+
+export interface FieldCheck<T> {
+  stored: T;
+  replayed: T;
+  match: boolean;
+}
+
+export type RoundVerificationStatus = 'PASS' | 'FAIL' | 'NOT_FOUND' | 'SEED_UNAVAILABLE';
+
+export interface RoundVerification {
+  roundId?: string;
+  nonce?: string;
+  status: RoundVerificationStatus;
+  commitValid?: boolean;
+  checks?: {
+    binIndex: FieldCheck<number>;
+    pegMapHash: FieldCheck<string>;
+    payoutMultiplier: FieldCheck<number>;
+  };
+  error?: string;
+}
+
+export interface VerificationSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  missing: number; // Rounds not found, or with no server seed to replay them
+  allPassed: boolean;
+}
+
+function check<T>(stored: T, replayed: T): FieldCheck<T> {
+  return { stored, replayed, match: stored === replayed };
+}
+
+/**
+ * Replays stored rounds and compares them against what was recorded
+ */
+export class RoundVerifier {
+  /**
+   * Whether a server seed matches a round's commitment
+   * Seed pair rounds commit to SHA256(serverSeed); legacy rounds to SHA256(serverSeed:nonce).
+   */
+  static commitMatches(serverSeed: string, round: Pick<StoredRound, 'nonce' | 'commitHex'>): boolean {
+    return ProvablyFairProtocol.verifyServerSeedHash(serverSeed, round.commitHex)
+      || ProvablyFairProtocol.verifyCommit(serverSeed, round.nonce, round.commitHex);
+  }
+
+  /**
+   * Replay one round with the given server seed
+   */
+  static verify(round: StoredRound, serverSeed: string): RoundVerification {
+    const commitValid = this.commitMatches(serverSeed, round);
+
+    try {
+      if (!isRngVersion(round.rngVersion)) {
+        throw new RangeError(`Unknown RNG version: ${round.rngVersion}`);
+      }
+      const hashVersion = round.hashVersion ?? HASH_VERSION_JSON;
+      if (!isHashVersion(hashVersion)) {
+        throw new RangeError(`Unknown hash version: ${round.hashVersion}`);
+      }
+
+      const replayed = PlinkoEngine.playRound(
+        serverSeed,
+        round.clientSeed,
+        round.nonce,
+        round.dropColumn,
+        round.rows,
+        round.betCents,
+        { paytableId: round.paytableId, rngVersion: round.rngVersion, hashVersion }
+      );
+
+      const checks = {
+        binIndex: check(round.binIndex, replayed.binIndex),
+        pegMapHash: check(round.pegMapHash, replayed.pegMapHash),
+        payoutMultiplier: check(round.payoutMultiplier, replayed.payoutMultiplier),
+      };
+      const pass = commitValid && Object.values(checks).every(c => c.match);
+
+      return { roundId: round.id, nonce: round.nonce, status: pass ? 'PASS' : 'FAIL', commitValid, checks };
+    } catch (error) {
+      // Unknown paytable, bad rows or drop column: the stored round can't be replayed
+      return {
+        roundId: round.id,
+        nonce: round.nonce,
+        status: 'FAIL',
+        commitValid,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  static summarize(results: RoundVerification[]): VerificationSummary {
+    const passed = results.filter(r => r.status === 'PASS').length;
+    const failed = results.filter(r => r.status === 'FAIL').length;
+    const missing = results.length - passed - failed;
+
+    return {
+      total: results.length,
+      passed,
+      failed,
+      missing,
+      allPassed: results.length > 0 && passed === results.length,
+    };
+  }
+}
@@ -0,0 +1,171 @@
+// Browser-side round replay
+//
+// Recomputes a round with Web Crypto (crypto.subtle) instead of Node's crypto,
+// so the verify page can check the server without trusting it. Only the
+// crypto-free core and the published paytables are shared with the server.
+
+import { DEFAULT_RISK, getCurrentPaytable, getPaytable } from './paytables';
+import {
+  BlockStream,
+  GamePath,
+  HASH_VERSION_JSON,
+  HashVersion,
+  MAX_ROWS,
+  MIN_ROWS,
+  PegMap,
+  PlinkoCore,
+  RNG_VERSION_XORSHIFT32,
+  RandomSource,
+  RngVersion,
+  XORShift32,
+  encodePegMap,
+  extractPRNGSeed,
+  isHashVersion,
+  isRngVersion,
+} from './plinko-core';
+
+const HMAC_BLOCK_VALUES = 8; // 32-byte block, 4 bytes per value
+
+export interface WebReplayInput {
+  serverSeed: string;
+  clientSeed: string;
+  nonce: string;
+  dropColumn: number;
+  rows: number;
+  paytableId?: string; // Defaults to the current medium table
+  rngVersion: number;
+  hashVersion?: number; // Defaults to JSON
+}
+
+export interface WebReplayResult {
+  serverSeedHash: string;
+  commitHex: string; // Legacy per-round commitment
+  combinedSeed: string;
+  dropColumn: number;
+  pegMap: PegMap;
+  pegMapHash: string;
+  hashVersion: HashVersion;
+  path: GamePath[];
+  binIndex: number;
+  payoutMultiplier: number;
+  multipliers: number[];
+  paytableId: string;
+  rows: number;
+  rngVersion: RngVersion;
+}
+
+const encoder = new TextEncoder();
+
+function getSubtle(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle;
+  if (!subtle) {
+    throw new Error('Web Crypto is not available (a secure context is required)');
+  }
+  return subtle;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+  const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+  return toHex(await getSubtle().digest('SHA-256', bytes as BufferSource));
+}
+
+/**
+ * HMAC-SHA256 blocks 0..count-1 keyed by the combined seed (see HmacSha256Stream)
+ */
+async function hmacBlocks(combinedSeed: string, count: number): Promise<Uint8Array[]> {
+  const subtle = getSubtle();
+  const key = await subtle.importKey(
+    'raw',
+    encoder.encode(combinedSeed),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+
+  return Promise.all(
+    Array.from({ length: count }, async (_, i) =>
+      new Uint8Array(await subtle.sign('HMAC', key, encoder.encode(i.toString())))
+    )
+  );
+}
+
+/**
+ * Web Crypto is async, so HMAC blocks are computed up front for the whole round
+ */
+async function createWebRandomSource(combinedSeed: string, rngVersion: RngVersion, rows: number): Promise<RandomSource> {
+  if (rngVersion === RNG_VERSION_XORSHIFT32) {
+    return new XORShift32(extractPRNGSeed(combinedSeed));
+  }
+
+  const blockCount = Math.ceil(PlinkoCore.randomValuesPerRound(rows) / HMAC_BLOCK_VALUES);
+  const blocks = await hmacBlocks(combinedSeed, blockCount);
+  return new BlockStream(counter => {
+    if (counter >= blocks.length) {
+      throw new RangeError('Round used more random values than expected');
+    }
+    return blocks[counter];
+  });
+}
+
+/**
+ * Replays rounds in the browser
+ */
+export class WebVerifier {
+  static async replay(input: WebReplayInput): Promise<WebReplayResult> {
+    const { serverSeed, clientSeed, nonce, dropColumn, rows, rngVersion } = input;
+    const hashVersion = input.hashVersion ?? HASH_VERSION_JSON;
+
+    if (!Number.isInteger(rows) || rows < MIN_ROWS || rows > MAX_ROWS) {
+      throw new RangeError(`Rows must be an integer between ${MIN_ROWS} and ${MAX_ROWS}`);
+    }
+    if (!Number.isInteger(dropColumn) || dropColumn < 0 || dropColumn > rows) {
+      throw new RangeError(`Drop column must be an integer between 0 and ${rows}`);
+    }
+    if (!isRngVersion(rngVersion)) {
+      throw new RangeError(`Unknown RNG version: ${rngVersion}`);
+    }
+    if (!isHashVersion(hashVersion)) {
+      throw new RangeError(`Unknown hash version: ${hashVersion}`);
+    }
+
+    const paytable = input.paytableId
+      ? getPaytable(input.paytableId)
+      : getCurrentPaytable(DEFAULT_RISK, rows);
+    if (!paytable || paytable.rows !== rows) {
+      throw new RangeError(`Paytable ${input.paytableId ?? DEFAULT_RISK} is not published for ${rows} rows`);
+    }
+
+    const [serverSeedHash, commitHex, combinedSeed] = await Promise.all([
+      sha256Hex(serverSeed),
+      sha256Hex(`${serverSeed}:${nonce}`),
+      sha256Hex(`${serverSeed}:${clientSeed}:${nonce}`),
+    ]);
+
+    // Same stream order as the server: peg map first, then the drop
+    const rng = await createWebRandomSource(combinedSeed, rngVersion, rows);
+    const pegMap = PlinkoCore.generatePegMap(rng, rows);
+    const path = PlinkoCore.simulateDrop(rng, pegMap, dropColumn);
+    const binIndex = path[path.length - 1].column;
+
+    return {
+      serverSeedHash,
+      commitHex,
+      combinedSeed,
+      dropColumn,
+      pegMap,
+      pegMapHash: await sha256Hex(encodePegMap(pegMap, hashVersion)),
+      hashVersion,
+      path,
+      binIndex,
+      payoutMultiplier: paytable.multipliers[binIndex],
+      multipliers: paytable.multipliers,
+      paytableId: paytable.id,
+      rows,
+      rngVersion,
+    };
+  }
+}
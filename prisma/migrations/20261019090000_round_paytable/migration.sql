@@ -0,0 +1,28 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Round" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "commitHex" TEXT NOT NULL,
+    "serverSeed" TEXT,
+    "clientSeed" TEXT NOT NULL,
+    "combinedSeed" TEXT NOT NULL,
+    "pegMapHash" TEXT NOT NULL,
+    "rows" INTEGER NOT NULL,
+    "paytableId" TEXT NOT NULL,
+    "dropColumn" INTEGER NOT NULL,
+    "binIndex" INTEGER NOT NULL,
+    "payoutMultiplier" REAL NOT NULL,
+    "betCents" INTEGER NOT NULL,
+    "pathJson" JSONB NOT NULL,
+    "revealedAt" DATETIME
+);
+-- Rounds played before risk levels all settled against the v1 linear table
+INSERT INTO "new_Round" ("betCents", "binIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "revealedAt", "rows", "serverSeed", "status") SELECT "betCents", "binIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "id", "nonce", "pathJson", "payoutMultiplier", 'v1-medium-' || "rows", "pegMapHash", "revealedAt", "rows", "serverSeed", "status" FROM "Round";
+DROP TABLE "Round";
+ALTER TABLE "new_Round" RENAME TO "Round";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
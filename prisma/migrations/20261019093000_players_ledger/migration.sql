@@ -0,0 +1,56 @@
+-- CreateTable
+CREATE TABLE "Player" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "balanceCents" INTEGER NOT NULL DEFAULT 0
+);
+
+-- CreateTable
+CREATE TABLE "LedgerEntry" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "playerId" TEXT NOT NULL,
+    "roundId" TEXT,
+    "type" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "balanceAfterCents" INTEGER NOT NULL,
+    CONSTRAINT "LedgerEntry_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "LedgerEntry_roundId_fkey" FOREIGN KEY ("roundId") REFERENCES "Round" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Round" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "commitHex" TEXT NOT NULL,
+    "serverSeed" TEXT,
+    "clientSeed" TEXT NOT NULL,
+    "combinedSeed" TEXT NOT NULL,
+    "pegMapHash" TEXT NOT NULL,
+    "rows" INTEGER NOT NULL,
+    "paytableId" TEXT NOT NULL,
+    "dropColumn" INTEGER NOT NULL,
+    "binIndex" INTEGER NOT NULL,
+    "payoutMultiplier" REAL NOT NULL,
+    "betCents" INTEGER NOT NULL,
+    "pathJson" JSONB NOT NULL,
+    "revealedAt" DATETIME,
+    "playerId" TEXT,
+    CONSTRAINT "Round_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Round" ("betCents", "binIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "revealedAt", "rows", "serverSeed", "status") SELECT "betCents", "binIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "revealedAt", "rows", "serverSeed", "status" FROM "Round";
+DROP TABLE "Round";
+ALTER TABLE "new_Round" RENAME TO "Round";
+CREATE INDEX "Round_playerId_idx" ON "Round"("playerId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_playerId_createdAt_idx" ON "LedgerEntry"("playerId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LedgerEntry_roundId_idx" ON "LedgerEntry"("roundId");
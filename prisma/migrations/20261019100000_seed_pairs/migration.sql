@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "SeedPair" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "playerId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "serverSeed" TEXT NOT NULL,
+    "serverSeedHash" TEXT NOT NULL,
+    "clientSeed" TEXT NOT NULL,
+    "nextNonce" INTEGER NOT NULL DEFAULT 0,
+    "revealedAt" DATETIME,
+    CONSTRAINT "SeedPair_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Round" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "commitHex" TEXT NOT NULL,
+    "serverSeed" TEXT,
+    "clientSeed" TEXT NOT NULL,
+    "combinedSeed" TEXT NOT NULL,
+    "pegMapHash" TEXT NOT NULL,
+    "rows" INTEGER NOT NULL,
+    "paytableId" TEXT NOT NULL,
+    "dropColumn" INTEGER NOT NULL,
+    "binIndex" INTEGER NOT NULL,
+    "payoutMultiplier" REAL NOT NULL,
+    "betCents" INTEGER NOT NULL,
+    "pathJson" JSONB NOT NULL,
+    "revealedAt" DATETIME,
+    "playerId" TEXT,
+    "seedPairId" TEXT,
+    CONSTRAINT "Round_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Round_seedPairId_fkey" FOREIGN KEY ("seedPairId") REFERENCES "SeedPair" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Round" ("betCents", "binIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "playerId", "revealedAt", "rows", "serverSeed", "status") SELECT "betCents", "binIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "playerId", "revealedAt", "rows", "serverSeed", "status" FROM "Round";
+DROP TABLE "Round";
+ALTER TABLE "new_Round" RENAME TO "Round";
+CREATE INDEX "Round_playerId_idx" ON "Round"("playerId");
+CREATE INDEX "Round_seedPairId_idx" ON "Round"("seedPairId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "SeedPair_playerId_status_idx" ON "SeedPair"("playerId", "status");
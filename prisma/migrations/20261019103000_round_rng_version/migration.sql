@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing rounds were all played with XORShift32
+ALTER TABLE "Round" ADD COLUMN "rngVersion" INTEGER NOT NULL DEFAULT 1;
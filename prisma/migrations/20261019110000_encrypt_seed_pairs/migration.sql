@@ -0,0 +1,22 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_SeedPair" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "playerId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "serverSeed" TEXT,
+    "serverSeedEncrypted" TEXT,
+    "serverSeedHash" TEXT NOT NULL,
+    "clientSeed" TEXT NOT NULL,
+    "nextNonce" INTEGER NOT NULL DEFAULT 0,
+    "revealedAt" DATETIME,
+    CONSTRAINT "SeedPair_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_SeedPair" ("clientSeed", "createdAt", "id", "nextNonce", "playerId", "revealedAt", "serverSeed", "serverSeedHash", "status") SELECT "clientSeed", "createdAt", "id", "nextNonce", "playerId", "revealedAt", "serverSeed", "serverSeedHash", "status" FROM "SeedPair";
+DROP TABLE "SeedPair";
+ALTER TABLE "new_SeedPair" RENAME TO "SeedPair";
+CREATE INDEX "SeedPair_playerId_status_idx" ON "SeedPair"("playerId", "status");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,20 @@
+-- DropIndex
+DROP INDEX "Round_playerId_idx";
+
+-- CreateIndex
+CREATE INDEX "Round_createdAt_id_idx" ON "Round"("createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Round_playerId_createdAt_id_idx" ON "Round"("playerId", "createdAt", "id");
+
+-- CreateIndex
+CREATE INDEX "Round_status_createdAt_idx" ON "Round"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Round_clientSeed_idx" ON "Round"("clientSeed");
+
+-- CreateIndex
+CREATE INDEX "Round_binIndex_idx" ON "Round"("binIndex");
+
+-- CreateIndex
+CREATE INDEX "Round_payoutMultiplier_idx" ON "Round"("payoutMultiplier");
@@ -0,0 +1,3 @@
+-- AlterTable
+-- Existing peg map hashes were all taken over JSON.stringify(pegMap)
+ALTER TABLE "Round" ADD COLUMN "hashVersion" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Round" ADD COLUMN "startedAt" DATETIME;
+ALTER TABLE "Round" ADD COLUMN "expiredAt" DATETIME;
+ALTER TABLE "Round" ADD COLUMN "voidedAt" DATETIME;
+
+-- Start times were never recorded; the commit time is the closest known value
+UPDATE "Round" SET "startedAt" = "createdAt" WHERE "status" IN ('STARTED', 'REVEALED');
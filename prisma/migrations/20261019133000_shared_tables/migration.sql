@@ -0,0 +1,73 @@
+-- CreateTable
+CREATE TABLE "TableRound" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "tableId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "rows" INTEGER NOT NULL,
+    "paytableId" TEXT NOT NULL,
+    "hashChainId" TEXT NOT NULL,
+    "chainIndex" INTEGER NOT NULL,
+    "commitHex" TEXT NOT NULL,
+    "serverSeed" TEXT,
+    "closesAt" DATETIME NOT NULL,
+    "droppedAt" DATETIME,
+    CONSTRAINT "TableRound_hashChainId_fkey" FOREIGN KEY ("hashChainId") REFERENCES "HashChain" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Round" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "status" TEXT NOT NULL,
+    "nonce" TEXT NOT NULL,
+    "commitHex" TEXT NOT NULL,
+    "serverSeed" TEXT,
+    "clientSeed" TEXT NOT NULL,
+    "combinedSeed" TEXT NOT NULL,
+    "pegMapHash" TEXT NOT NULL,
+    "rows" INTEGER NOT NULL,
+    "paytableId" TEXT NOT NULL,
+    "rngVersion" INTEGER NOT NULL DEFAULT 1,
+    "hashVersion" INTEGER NOT NULL DEFAULT 1,
+    "dropColumn" INTEGER NOT NULL,
+    "binIndex" INTEGER NOT NULL,
+    "payoutMultiplier" REAL NOT NULL,
+    "betCents" INTEGER NOT NULL,
+    "pathJson" JSONB NOT NULL,
+    "startedAt" DATETIME,
+    "revealedAt" DATETIME,
+    "expiredAt" DATETIME,
+    "voidedAt" DATETIME,
+    "playerId" TEXT,
+    "seedPairId" TEXT,
+    "hashChainId" TEXT,
+    "chainIndex" INTEGER,
+    "tableRoundId" TEXT,
+    CONSTRAINT "Round_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Round_seedPairId_fkey" FOREIGN KEY ("seedPairId") REFERENCES "SeedPair" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Round_hashChainId_fkey" FOREIGN KEY ("hashChainId") REFERENCES "HashChain" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "Round_tableRoundId_fkey" FOREIGN KEY ("tableRoundId") REFERENCES "TableRound" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_Round" ("betCents", "binIndex", "chainIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "expiredAt", "hashChainId", "hashVersion", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "playerId", "revealedAt", "rngVersion", "rows", "seedPairId", "serverSeed", "startedAt", "status", "voidedAt") SELECT "betCents", "binIndex", "chainIndex", "clientSeed", "combinedSeed", "commitHex", "createdAt", "dropColumn", "expiredAt", "hashChainId", "hashVersion", "id", "nonce", "pathJson", "payoutMultiplier", "paytableId", "pegMapHash", "playerId", "revealedAt", "rngVersion", "rows", "seedPairId", "serverSeed", "startedAt", "status", "voidedAt" FROM "Round";
+DROP TABLE "Round";
+ALTER TABLE "new_Round" RENAME TO "Round";
+CREATE INDEX "Round_seedPairId_idx" ON "Round"("seedPairId");
+CREATE INDEX "Round_createdAt_id_idx" ON "Round"("createdAt", "id");
+CREATE INDEX "Round_playerId_createdAt_id_idx" ON "Round"("playerId", "createdAt", "id");
+CREATE INDEX "Round_status_createdAt_idx" ON "Round"("status", "createdAt");
+CREATE INDEX "Round_clientSeed_idx" ON "Round"("clientSeed");
+CREATE INDEX "Round_binIndex_idx" ON "Round"("binIndex");
+CREATE INDEX "Round_payoutMultiplier_idx" ON "Round"("payoutMultiplier");
+CREATE INDEX "Round_hashChainId_chainIndex_idx" ON "Round"("hashChainId", "chainIndex");
+CREATE UNIQUE INDEX "Round_tableRoundId_playerId_key" ON "Round"("tableRoundId", "playerId");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "TableRound_tableId_status_idx" ON "TableRound"("tableId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TableRound_hashChainId_chainIndex_key" ON "TableRound"("hashChainId", "chainIndex");
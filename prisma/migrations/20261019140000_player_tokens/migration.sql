@@ -0,0 +1,3 @@
+-- AlterTable
+-- Players created before tokens have no token and can no longer be used
+ALTER TABLE "Player" ADD COLUMN "tokenHash" TEXT;
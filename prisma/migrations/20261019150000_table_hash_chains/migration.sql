@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "HashChain" ADD COLUMN "tableId" TEXT;
+ALTER TABLE "HashChain" ADD COLUMN "activeTableId" TEXT;
+
+-- Retire the chain the tables used to share: each table commits its own
+UPDATE "HashChain" SET "status" = 'EXHAUSTED', "exhaustedAt" = CURRENT_TIMESTAMP WHERE "status" = 'ACTIVE';
+
+-- DropIndex
+DROP INDEX "HashChain_status_createdAt_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HashChain_activeTableId_key" ON "HashChain"("activeTableId");
+
+-- CreateIndex
+CREATE INDEX "HashChain_tableId_status_createdAt_idx" ON "HashChain"("tableId", "status", "createdAt");
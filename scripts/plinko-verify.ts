@@ -0,0 +1,269 @@
+#!/usr/bin/env -S npx tsx
+// Offline Plinko round verifier
+//
+// Replays rounds with lib/engine.ts and lib/prng.ts only: no database, no server.
+//
+//   npm run plinko-verify -- --server-seed <hex> --client-seed <seed> --nonce <n> --drop-column <c>
+//       [--rows 12] [--paytable v2-medium-12] [--rng-version 1] [--hash-version 1]
+//       [--commit <hash>] [--bin <n>] [--peg-map-hash <hash>]
+//   npm run plinko-verify -- --file rounds.json [--server-seed <hex>]
+//
+// The file may be a list of rounds, { rounds: [...] } as returned by
+// GET /api/rounds, or { serverSeed, rounds }. Add --json for machine output.
+// Exit code: 0 when everything matches, 1 on any mismatch, 2 on bad input.
+
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { HASH_VERSION_JSON, PlinkoEngine, ROWS, isHashVersion } from '../lib/engine';
+import { DEFAULT_RISK, getCurrentPaytable } from '../lib/paytables';
+import { ProvablyFairProtocol, RNG_VERSION_XORSHIFT32, isRngVersion } from '../lib/prng';
+import { RoundVerification, RoundVerifier, StoredRound } from '../lib/verification';
+import type { PublicRound, VerifyBatchResponse } from '../lib/api';
+
+class UsageError extends Error {}
+
+interface SingleCheck {
+  expected: unknown;
+  actual: unknown;
+  match: boolean;
+}
+
+interface SingleReport {
+  serverSeedHash: string;
+  commitHex: string;
+  combinedSeed: string;
+  rows: number;
+  paytableId: string;
+  rngVersion: number;
+  pegMapHash: string;
+  hashVersion: number;
+  path: number[];
+  binIndex: number;
+  payoutMultiplier: number;
+  checks: Record<string, SingleCheck>;
+}
+
+// A list of rounds, or an object holding them (e.g. a GET /api/rounds page)
+type RoundsFile = PublicRound[] | { serverSeed?: string; rounds?: PublicRound[] };
+
+const { values } = parseArgs({
+  options: {
+    'server-seed': { type: 'string' },
+    'client-seed': { type: 'string' },
+    nonce: { type: 'string' },
+    'drop-column': { type: 'string' },
+    rows: { type: 'string' },
+    paytable: { type: 'string' },
+    'rng-version': { type: 'string' },
+    'hash-version': { type: 'string' },
+    commit: { type: 'string' },
+    bin: { type: 'string' },
+    'peg-map-hash': { type: 'string' },
+    file: { type: 'string' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+function parseInteger(name: string, value: string | undefined, fallback?: number): number {
+  if (value === undefined) {
+    if (fallback === undefined) throw new UsageError(`--${name} is required`);
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed)) {
+    throw new UsageError(`--${name} must be an integer`);
+  }
+  return parsed;
+}
+
+/**
+ * Verify a single round given on the command line
+ */
+function verifySingle(): { ok: boolean; report: SingleReport } {
+  const serverSeed = values['server-seed'];
+  const clientSeed = values['client-seed'];
+  const nonce = values.nonce;
+  if (!serverSeed || !clientSeed || nonce === undefined) {
+    throw new UsageError('--server-seed, --client-seed and --nonce are required (or use --file)');
+  }
+
+  const rows = parseInteger('rows', values.rows, ROWS);
+  const dropColumn = parseInteger('drop-column', values['drop-column']);
+  const rngVersion = parseInteger('rng-version', values['rng-version'], RNG_VERSION_XORSHIFT32);
+  if (!isRngVersion(rngVersion)) {
+    throw new UsageError(`Unknown RNG version: ${rngVersion}`);
+  }
+  const hashVersion = parseInteger('hash-version', values['hash-version'], HASH_VERSION_JSON);
+  if (!isHashVersion(hashVersion)) {
+    throw new UsageError(`Unknown hash version: ${hashVersion}`);
+  }
+  const paytableId = values.paytable ?? getCurrentPaytable(DEFAULT_RISK, rows)?.id;
+
+  let result;
+  try {
+    result = PlinkoEngine.playRound(serverSeed, clientSeed, nonce, dropColumn, rows, 0, { paytableId, rngVersion, hashVersion });
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const checks: Record<string, SingleCheck> = {};
+  if (values.commit !== undefined) {
+    const commitValid = RoundVerifier.commitMatches(serverSeed, { nonce, commitHex: values.commit });
+    checks.commit = { expected: values.commit, actual: commitValid ? values.commit : null, match: commitValid };
+  }
+  if (values.bin !== undefined) {
+    const expected = parseInteger('bin', values.bin);
+    checks.binIndex = { expected, actual: result.binIndex, match: expected === result.binIndex };
+  }
+  if (values['peg-map-hash'] !== undefined) {
+    const expected = values['peg-map-hash'];
+    checks.pegMapHash = { expected, actual: result.pegMapHash, match: expected === result.pegMapHash };
+  }
+
+  return {
+    ok: Object.values(checks).every(check => check.match),
+    report: {
+      serverSeedHash: ProvablyFairProtocol.createServerSeedHash(serverSeed),
+      commitHex: ProvablyFairProtocol.createCommitHash(serverSeed, nonce), // Legacy per-round commitment
+      combinedSeed: result.combinedSeed,
+      rows: result.rows,
+      paytableId: result.paytableId,
+      rngVersion: result.rngVersion,
+      pegMapHash: result.pegMapHash,
+      hashVersion: result.hashVersion,
+      path: result.path.map(step => step.column),
+      binIndex: result.binIndex,
+      payoutMultiplier: result.payoutMultiplier,
+      checks,
+    },
+  };
+}
+
+/**
+ * Stored outcome of an exported round, or null if it has none (never played)
+ */
+function toStoredRound(round: PublicRound): StoredRound | null {
+  const { clientSeed, dropColumn, betCents, binIndex, pegMapHash, payoutMultiplier } = round;
+  if (
+    clientSeed === undefined || dropColumn === undefined || betCents === undefined ||
+    binIndex === undefined || pegMapHash === undefined || payoutMultiplier === undefined
+  ) {
+    return null;
+  }
+  return {
+    id: round.id,
+    nonce: round.nonce,
+    clientSeed,
+    commitHex: round.commitHex,
+    rows: round.rows,
+    paytableId: round.paytableId,
+    rngVersion: round.rngVersion,
+    hashVersion: round.hashVersion,
+    dropColumn,
+    betCents,
+    binIndex,
+    pegMapHash,
+    payoutMultiplier,
+  };
+}
+
+/**
+ * Verify every round in a JSON export
+ */
+function verifyFile(path: string): { ok: boolean; report: VerifyBatchResponse } {
+  let data: RoundsFile;
+  try {
+    data = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const rounds = Array.isArray(data) ? data : data?.rounds;
+  if (!Array.isArray(rounds) || rounds.length === 0) {
+    throw new UsageError(`${path} contains no rounds`);
+  }
+
+  const fallbackSeed = values['server-seed'] ?? (Array.isArray(data) ? undefined : data.serverSeed);
+  const results: RoundVerification[] = rounds.map(round => {
+    const stored = toStoredRound(round);
+    if (!stored) {
+      return { roundId: round.id, nonce: round.nonce, status: 'FAIL', error: 'Round has no recorded outcome' };
+    }
+    const serverSeed = fallbackSeed ?? round.serverSeed;
+    if (!serverSeed) {
+      return { roundId: round.id, nonce: round.nonce, status: 'SEED_UNAVAILABLE', error: 'No server seed' };
+    }
+    return RoundVerifier.verify(stored, serverSeed);
+  });
+
+  const summary = RoundVerifier.summarize(results);
+  return { ok: summary.allPassed, report: { results, summary } };
+}
+
+function printSingle(report: SingleReport) {
+  console.log(`Server seed hash: ${report.serverSeedHash}`);
+  console.log(`Legacy commit:    ${report.commitHex}`);
+  console.log(`Combined seed:    ${report.combinedSeed}`);
+  console.log(`Board:            ${report.rows} rows, ${report.paytableId}, RNG v${report.rngVersion}`);
+  console.log(`Peg map hash:     ${report.pegMapHash} (v${report.hashVersion})`);
+  console.log(`Path:             ${report.path.join(' → ')}`);
+  console.log(`Bin:              ${report.binIndex} (${report.payoutMultiplier}x)`);
+
+  for (const [name, check] of Object.entries(report.checks)) {
+    const detail = check.match ? '' : ` (expected ${check.expected}, got ${check.actual})`;
+    console.log(`${check.match ? '✓' : '✗'} ${name}${detail}`);
+  }
+}
+
+function printFile(report: VerifyBatchResponse) {
+  for (const result of report.results) {
+    const label = result.roundId ?? `nonce ${result.nonce}`;
+    const failures = Object.entries(result.checks ?? {})
+      .filter(([, check]) => !check.match)
+      .map(([name]) => name);
+    if (result.commitValid === false) failures.unshift('commit');
+    if (result.error) failures.push(result.error);
+
+    console.log(`${result.status === 'PASS' ? '✓' : '✗'} ${label}: ${result.status}${failures.length ? ` (${failures.join(', ')})` : ''}`);
+  }
+
+  const { total, passed, failed, missing } = report.summary;
+  console.log(`\n${passed}/${total} passed, ${failed} failed, ${missing} not verifiable`);
+}
+
+function print<T extends object>(ok: boolean, report: T, printText: (report: T) => void) {
+  if (values.json) {
+    console.log(JSON.stringify({ ok, ...report }, null, 2));
+  } else {
+    printText(report);
+  }
+}
+
+function main(): number {
+  if (values.help) {
+    console.log('Usage: plinko-verify --server-seed <hex> --client-seed <seed> --nonce <n> --drop-column <c> [options]');
+    console.log('       plinko-verify --file rounds.json [--server-seed <hex>] [--json]');
+    return 0;
+  }
+
+  try {
+    if (values.file) {
+      const { ok, report } = verifyFile(values.file);
+      print(ok, report, printFile);
+      return ok ? 0 : 1;
+    }
+
+    const { ok, report } = verifySingle();
+    print(ok, report, printSingle);
+    return ok ? 0 : 1;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`plinko-verify: ${error.message}`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+process.exitCode = main();
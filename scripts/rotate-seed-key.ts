@@ -0,0 +1,130 @@
+// Re-encrypt unrevealed server seeds under the current seed encryption key
+//
+//   npm run seeds:rotate-key              re-encrypt with the configured keys
+//   npm run seeds:rotate-key -- --generate  (key file only) add a new current key first
+//
+// Active pairs still holding a plaintext seed (created before encryption at
+// rest) are encrypted too, as are the checkpoints of every hash chain.
+//
+// Retired keys are only pruned by a later run, never the one that adds the
+// new key: a running server may still be encrypting with the old key until it
+// picks up the change. Restart the app (or, with a key file, let it reload the
+// file) between rotating and pruning. With a key file, the next run prunes
+// keys no active pair or chain uses. With SEED_ENCRYPTION_KEY, set the new key
+// there, keep the old one in SEED_ENCRYPTION_PREVIOUS_KEYS, restart, and drop
+// it once a run reports it unused.
+
+import { prisma } from '../lib/db';
+import {
+  generateKeyHex,
+  getSeedVault,
+  keyIdFor,
+  loadKeyring,
+  resetSeedVault,
+  writeKeyFile,
+} from '../lib/seed-vault';
+
+async function main() {
+  const generate = process.argv.includes('--generate');
+  let { keys, source } = loadKeyring();
+
+  if (generate) {
+    if (source !== 'file') {
+      throw new Error('--generate only applies to the key file; set SEED_ENCRYPTION_KEY yourself');
+    }
+    keys = [generateKeyHex(), ...keys];
+    writeKeyFile(keys);
+    resetSeedVault();
+    console.log(`Generated new seed key ${keyIdFor(Buffer.from(keys[0], 'hex'))}`);
+  }
+
+  const vault = getSeedVault();
+  const pairs = await prisma.seedPair.findMany({ where: { status: 'ACTIVE' } });
+
+  let reencrypted = 0;
+  for (const pair of pairs) {
+    const current = pair.serverSeedEncrypted;
+    if (current && !vault.needsReencryption(current)) {
+      continue;
+    }
+
+    const serverSeed = current ? vault.decrypt(current) : pair.serverSeed;
+    if (!serverSeed) {
+      console.warn(`Seed pair ${pair.id} has no server seed, skipping`);
+      continue;
+    }
+
+    // Conditional on the stored value so a concurrent rotation is not overwritten
+    const { count } = await prisma.seedPair.updateMany({
+      where: { id: pair.id, status: 'ACTIVE', serverSeedEncrypted: current },
+      data: { serverSeedEncrypted: vault.encrypt(serverSeed), serverSeed: null },
+    });
+    reencrypted += count;
+  }
+
+  console.log(`Re-encrypted ${reencrypted} of ${pairs.length} active seed pairs with key ${vault.currentKeyId}`);
+
+  // Exhausted chains are included: their last table rounds may not have dropped yet
+  const chains = await prisma.hashChain.findMany();
+
+  let reencryptedChains = 0;
+  for (const chain of chains) {
+    const current = chain.checkpointsEncrypted;
+    if (!vault.needsReencryption(current)) {
+      continue;
+    }
+
+    const { count } = await prisma.hashChain.updateMany({
+      where: { id: chain.id, checkpointsEncrypted: current },
+      data: { checkpointsEncrypted: vault.encrypt(vault.decrypt(current)) },
+    });
+    reencryptedChains += count;
+  }
+
+  console.log(`Re-encrypted ${reencryptedChains} of ${chains.length} hash chains with key ${vault.currentKeyId}`);
+
+  if (generate) {
+    console.log('Run this again without --generate once the app has restarted to prune retired keys');
+  } else if (keys.length > 1) {
+    const inUse = await findKeyIdsInUse();
+    const retired = keys.slice(1).filter(key => !inUse.has(keyIdFor(Buffer.from(key, 'hex'))));
+
+    if (source === 'file') {
+      if (retired.length > 0) {
+        writeKeyFile(keys.filter(key => !retired.includes(key)));
+        console.log(`Pruned ${retired.length} retired key(s) from the key file`);
+      }
+    } else if (retired.length === keys.length - 1) {
+      console.log('Previous keys can now be removed from SEED_ENCRYPTION_PREVIOUS_KEYS');
+    } else {
+      const stillUsed = keys.length - 1 - retired.length;
+      console.warn(`${stillUsed} previous key(s) still encrypt stored seeds; keep SEED_ENCRYPTION_PREVIOUS_KEYS and run this again`);
+    }
+  }
+}
+
+/**
+ * IDs of the keys still needed to decrypt an active seed pair or a hash chain
+ */
+async function findKeyIdsInUse(): Promise<Set<string>> {
+  const pairs = await prisma.seedPair.findMany({
+    where: { status: 'ACTIVE', serverSeedEncrypted: { not: null } },
+    select: { serverSeedEncrypted: true },
+  });
+  const chains = await prisma.hashChain.findMany({
+    select: { checkpointsEncrypted: true },
+  });
+
+  const payloads = [
+    ...pairs.map(pair => pair.serverSeedEncrypted),
+    ...chains.map(chain => chain.checkpointsEncrypted),
+  ].filter((payload): payload is string => payload !== null);
+  return new Set(payloads.map(payload => payload.split('.')[1]));
+}
+
+main()
+  .catch(error => {
+    console.error('Seed key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,66 @@
+import { AutoBet, AutoBetSettings, MAX_BATCH_SIZE, autoBetSettingsSchema } from '../lib/auto-bet';
+import { validate } from '../lib/validation';
+
+const base: AutoBetSettings = { count: 10, betCents: 100 };
+
+describe('Auto-bet settings', () => {
+  test('should accept minimal settings', () => {
+    expect(validate(autoBetSettingsSchema, base)).toEqual({ value: { ...base } });
+  });
+
+  test('should reject invalid counts, bets and thresholds', () => {
+    const errorsFor = (settings: object) => (validate(autoBetSettingsSchema, settings) as { errors: object }).errors;
+
+    expect(errorsFor({ ...base, count: 0 })).toHaveProperty('count');
+    expect(errorsFor({ ...base, count: MAX_BATCH_SIZE + 1 })).toHaveProperty('count');
+    expect(errorsFor({ ...base, count: 2.5 })).toHaveProperty('count');
+    expect(errorsFor({ ...base, betCents: 0 })).toHaveProperty('betCents');
+    expect(errorsFor({ ...base, betCents: '100' })).toHaveProperty('betCents');
+    expect(errorsFor({ ...base, stopOnLossCents: -1 })).toHaveProperty('stopOnLossCents');
+    expect(errorsFor({ ...base, increaseOnLossPercent: NaN })).toHaveProperty('increaseOnLossPercent');
+  });
+});
+
+describe('AutoBet', () => {
+  test('should reset to the base bet when no increase is configured', () => {
+    let state = AutoBet.initialState(base);
+    state = AutoBet.recordRound(base, state, 100, 50);
+
+    expect(state).toEqual({ played: 1, betCents: 100, profitCents: -50 });
+  });
+
+  test('should increase the bet by a percentage on loss and reset on win', () => {
+    const settings = { ...base, increaseOnLossPercent: 100 };
+    let state = AutoBet.initialState(settings);
+
+    state = AutoBet.recordRound(settings, state, state.betCents, 0);
+    expect(state.betCents).toBe(200);
+    state = AutoBet.recordRound(settings, state, state.betCents, 0);
+    expect(state.betCents).toBe(400);
+    state = AutoBet.recordRound(settings, state, state.betCents, 1000);
+    expect(state.betCents).toBe(100);
+    expect(state.profitCents).toBe(300);
+  });
+
+  test('should stop on profit target, loss limit, count and balance', () => {
+    const settings = { ...base, stopOnProfitCents: 500, stopOnLossCents: 300 };
+    const state = AutoBet.initialState(settings);
+
+    expect(AutoBet.stopReason(settings, state, 1000)).toBeNull();
+    expect(AutoBet.stopReason(settings, { ...state, profitCents: 500 }, 1000)).toBe('PROFIT_TARGET');
+    expect(AutoBet.stopReason(settings, { ...state, profitCents: -300 }, 1000)).toBe('LOSS_LIMIT');
+    expect(AutoBet.stopReason(settings, { ...state, played: 10 }, 1000)).toBe('COMPLETED');
+    expect(AutoBet.stopReason(settings, state, 99)).toBe('INSUFFICIENT_FUNDS');
+  });
+
+  test('should check funds against the bet capped at the board maximum', () => {
+    const settings = { ...base, increaseOnLossPercent: 100 };
+    // Progression has outgrown the board's maximum bet, which is still affordable
+    const raised = { ...AutoBet.initialState(settings), betCents: 5000 };
+
+    expect(AutoBet.nextBet(raised, 2000)).toBe(2000);
+    expect(AutoBet.stopReason(settings, raised, 3000, 2000)).toBeNull();
+    expect(AutoBet.stopReason(settings, raised, 1999, 2000)).toBe('INSUFFICIENT_FUNDS');
+    expect(AutoBet.stopReason(settings, raised, 3000)).toBe('INSUFFICIENT_FUNDS');
+  });
+});
@@ -0,0 +1,80 @@
+import { execSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+// A fresh SQLite file per run; env must be set before lib/db is loaded
+const dir = mkdtempSync(path.join(tmpdir(), 'plinko-db-'));
+process.env.DATABASE_URL = `file:${path.join(dir, 'test.db')}`;
+process.env.SEED_ENCRYPTION_KEY = '33'.repeat(32);
+process.env.OPERATOR_TOKEN = 'operator-secret';
+
+let prisma: any;
+let createPlayer: () => Promise<Response>;
+let commitRound: (request: NextRequest) => Promise<Response>;
+let listRounds: (request: NextRequest) => Promise<Response>;
+
+function post(url: string, body: unknown, token: string) {
+  return new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'content-type': 'application/json', authorization: `Bearer ${token}` },
+  });
+}
+
+function get(url: string, token?: string) {
+  return new NextRequest(`http://localhost${url}`, {
+    headers: token ? { authorization: `Bearer ${token}` } : {},
+  });
+}
+
+// A player with one committed round
+async function playerWithRound() {
+  const { playerId, playerToken } = await (await createPlayer()).json();
+  const { roundId } = await (await commitRound(post('/api/rounds/commit', { playerId }, playerToken))).json();
+  return { playerId, playerToken, roundId };
+}
+
+beforeAll(async () => {
+  execSync('npx prisma migrate deploy', { env: process.env, stdio: 'ignore', timeout: 60000 });
+
+  ({ prisma } = await import('@/lib/db'));
+  ({ POST: createPlayer } = await import('@/app/api/players/route'));
+  ({ POST: commitRound } = await import('@/app/api/rounds/commit/route'));
+  ({ GET: listRounds } = await import('@/app/api/rounds/route'));
+});
+
+afterAll(async () => {
+  await prisma?.$disconnect();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('GET /api/rounds', () => {
+  test('should list only the authenticated player\'s own rounds', async () => {
+    const alice = await playerWithRound();
+    const bob = await playerWithRound();
+
+    const response = await listRounds(get(`/api/rounds?playerId=${alice.playerId}`, alice.playerToken));
+    expect(response.status).toBe(200);
+    const { rounds } = await response.json();
+    expect(rounds.map((round: { id: string }) => round.id)).toEqual([alice.roundId]);
+
+    // Another player's ID, no token, or no playerId at all
+    expect((await listRounds(get(`/api/rounds?playerId=${bob.playerId}`, alice.playerToken))).status).toBe(401);
+    expect((await listRounds(get(`/api/rounds?playerId=${alice.playerId}`))).status).toBe(401);
+    expect((await listRounds(get('/api/rounds', alice.playerToken))).status).toBe(400);
+  });
+
+  test('should let the operator search rounds across players', async () => {
+    const alice = await playerWithRound();
+    const bob = await playerWithRound();
+
+    const all = await (await listRounds(get('/api/rounds?limit=100', 'operator-secret'))).json();
+    const ids = all.rounds.map((round: { id: string }) => round.id);
+    expect(ids).toEqual(expect.arrayContaining([alice.roundId, bob.roundId]));
+
+    const filtered = await (await listRounds(get(`/api/rounds?playerId=${bob.playerId}`, 'operator-secret'))).json();
+    expect(filtered.rounds.map((round: { id: string }) => round.id)).toEqual([bob.roundId]);
+  });
+});
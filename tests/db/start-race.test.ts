@@ -0,0 +1,87 @@
+import { execSync } from 'child_process';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { NextRequest } from 'next/server';
+
+// A fresh SQLite file per run; env must be set before lib/db is loaded
+const dir = mkdtempSync(path.join(tmpdir(), 'plinko-db-'));
+process.env.DATABASE_URL = `file:${path.join(dir, 'test.db')}`;
+process.env.SEED_ENCRYPTION_KEY = '33'.repeat(32);
+
+let prisma: any;
+let createPlayer: () => Promise<Response>;
+let commitRound: (request: NextRequest) => Promise<Response>;
+let startRound: (request: NextRequest, context: { params: Promise<{ id: string }> }) => Promise<Response>;
+
+function post(url: string, body: unknown, playerToken?: string) {
+  return new NextRequest(`http://localhost${url}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: {
+      'content-type': 'application/json',
+      ...(playerToken ? { authorization: `Bearer ${playerToken}` } : {}),
+    },
+  });
+}
+
+beforeAll(async () => {
+  execSync('npx prisma migrate deploy', { env: process.env, stdio: 'ignore', timeout: 60000 });
+
+  ({ prisma } = await import('@/lib/db'));
+  ({ POST: createPlayer } = await import('@/app/api/players/route'));
+  ({ POST: commitRound } = await import('@/app/api/rounds/commit/route'));
+  ({ POST: startRound } = await import('@/app/api/rounds/[id]/start/route'));
+});
+
+afterAll(async () => {
+  await prisma?.$disconnect();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('POST /api/rounds/:id/start', () => {
+  test('should let exactly one of several concurrent starts play the round', async () => {
+    const { playerId, playerToken, balanceCents } = await (await createPlayer()).json();
+    const { roundId } = await (await commitRound(post('/api/rounds/commit', { playerId }, playerToken))).json();
+
+    // Different drop columns, so a double play would show up in the stored round
+    const responses = await Promise.all(
+      Array.from({ length: 5 }, (_, dropColumn) =>
+        startRound(
+          post(`/api/rounds/${roundId}/start`, { playerId, betCents: 100, dropColumn }, playerToken),
+          { params: Promise.resolve({ id: roundId }) }
+        )
+      )
+    );
+
+    const statuses = responses.map(response => response.status).sort();
+    expect(statuses).toEqual([200, 409, 409, 409, 409]);
+
+    const winner = await responses.find(response => response.status === 200)!.json();
+    const round = await prisma.round.findUnique({ where: { id: roundId } });
+    expect(round.status).toBe('STARTED');
+    expect(round.dropColumn).toBe(winner.dropColumn);
+
+    // Charged once
+    const bets = await prisma.ledgerEntry.findMany({ where: { roundId, type: 'BET' } });
+    expect(bets).toHaveLength(1);
+
+    const player = await prisma.player.findUnique({ where: { id: playerId } });
+    expect(player.balanceCents).toBe(balanceCents - 100 + winner.winAmount);
+  });
+
+  test('should reject starting a round that was already played', async () => {
+    const { playerId, playerToken } = await (await createPlayer()).json();
+    const { roundId } = await (await commitRound(post('/api/rounds/commit', { playerId }, playerToken))).json();
+    const start = (token?: string) =>
+      startRound(
+        post(`/api/rounds/${roundId}/start`, { playerId, betCents: 100, dropColumn: 6 }, token),
+        { params: Promise.resolve({ id: roundId }) }
+      );
+
+    // The player ID alone is not enough to spend the balance
+    expect((await start()).status).toBe(401);
+    expect((await start(playerToken)).status).toBe(200);
+    expect((await start(playerToken)).status).toBe(409);
+  });
+});
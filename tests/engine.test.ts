@@ -1,5 +1,16 @@
-import { PlinkoEngine, PegMap, GamePath, ROWS, BINS } from '../lib/engine';
-import { RoundRNG } from '../lib/prng';
+import {
+  PlinkoEngine,
+  PegMap,
+  GamePath,
+  ROWS,
+  BINS,
+  MIN_ROWS,
+  MAX_ROWS,
+  HASH_VERSION_JSON,
+  HASH_VERSION_CANONICAL,
+} from '../lib/engine';
+import { encodePegMap } from '../lib/plinko-core';
+import { RoundRNG, RNG_VERSION_HMAC_SHA256 } from '../lib/prng';
 
 describe('PlinkoEngine', () => {
   test('should match test vector for peg map generation', () => {
@@ -119,6 +130,36 @@ describe('PlinkoEngine', () => {
     expect(/^[a-f0-9]+$/i.test(hash1)).toBe(true);
   });
 
+  test('should match peg map hash test vectors for both encodings', () => {
+    const serverSeed = 'b2a5f3f32a4d9c6ee7a8c1d33456677890abcdeffedcba0987654321ffeeddcc';
+    const json = PlinkoEngine.playRound(serverSeed, 'candidate-hello', '42', 6, ROWS, 100);
+    const canonical = PlinkoEngine.playRound(serverSeed, 'candidate-hello', '42', 6, ROWS, 100, {
+      hashVersion: HASH_VERSION_CANONICAL,
+    });
+
+    expect(json.hashVersion).toBe(HASH_VERSION_JSON);
+    expect(json.pegMapHash).toBe('21296c4b32a9cf0993d6988835d5a109d3337791239f411384794251c51e7784');
+    expect(canonical.hashVersion).toBe(HASH_VERSION_CANONICAL);
+    expect(canonical.pegMapHash).toBe('c7f4552afd8c6b3b282cc318a5a1b6bfcfe36e169cd9aa7fc864cacfe97414ed');
+
+    // The hash is the only difference
+    expect(canonical.binIndex).toBe(json.binIndex);
+    expect(canonical.path).toEqual(json.path);
+  });
+
+  test('should encode peg maps as integer millionths', () => {
+    const bytes = encodePegMap([[0.5], [0.4, 0.6]], HASH_VERSION_CANONICAL);
+    expect(Buffer.from(bytes).toString('hex')).toBe('02' + '0007a120' + '00061a80' + '000927c0');
+    expect(PlinkoEngine.createPegMapHash([[0.5], [0.4, 0.6]], HASH_VERSION_CANONICAL))
+      .toBe('28c5f89d0a4c46724e3f73af76c2aaebf26acae35e5a25f16ac0913958ccdaa7');
+
+    // Row count, then 4 bytes per peg: 0.422123 → 0x000670eb
+    const rng = new RoundRNG('e1dddf77de27d395ea2be2ed49aa2a59bd6bf12ee8d350c16c008abd406c07e0');
+    const encoded = Buffer.from(encodePegMap(PlinkoEngine.generatePegMap(rng, ROWS), HASH_VERSION_CANONICAL));
+    expect(encoded).toHaveLength(1 + 4 * (ROWS * (ROWS + 1)) / 2);
+    expect(encoded.subarray(0, 5).toString('hex')).toBe('0c000670eb');
+  });
+
   test('should validate payout multipliers are symmetric', () => {
     const multipliers = PlinkoEngine.getPayoutMultipliers(BINS);
     
@@ -150,4 +191,102 @@ describe('PlinkoEngine', () => {
     // Different payout amounts
     expect(result2.payoutCents).toBe(result1.payoutCents * 2);
   });
-});
\ No newline at end of file
+
+  test('should play any supported row count', () => {
+    for (let rows = MIN_ROWS; rows <= MAX_ROWS; rows++) {
+      const result = PlinkoEngine.playRound('server', 'client', '1', Math.floor(rows / 2), rows, 100);
+
+      expect(result.rows).toBe(rows);
+      expect(result.pegMap).toHaveLength(rows);
+      expect(result.path).toHaveLength(rows);
+      expect(result.binIndex).toBeGreaterThanOrEqual(0);
+      expect(result.binIndex).toBeLessThanOrEqual(rows);
+      expect(PlinkoEngine.getPayoutMultipliers(rows + 1)[result.binIndex]).toBe(result.payoutMultiplier);
+    }
+  });
+
+  test('should reject unsupported rows and drop columns', () => {
+    expect(() => PlinkoEngine.playRound('s', 'c', '1', 0, MIN_ROWS - 1, 100)).toThrow(RangeError);
+    expect(() => PlinkoEngine.playRound('s', 'c', '1', 0, MAX_ROWS + 1, 100)).toThrow(RangeError);
+    expect(() => PlinkoEngine.playRound('s', 'c', '1', 9, 8, 100)).toThrow(RangeError);
+    expect(() => PlinkoEngine.playRound('s', 'c', '1', -1, 8, 100)).toThrow(RangeError);
+
+    expect(PlinkoEngine.isValidDropColumn(16, 16)).toBe(true);
+    expect(PlinkoEngine.isValidDropColumn(1.5, 16)).toBe(false);
+  });
+
+  test('should replay stored rounds only with known versions', () => {
+    const stored = { paytableId: 'v2-medium-12', rngVersion: RNG_VERSION_HMAC_SHA256, hashVersion: HASH_VERSION_CANONICAL };
+
+    expect(PlinkoEngine.storedRoundOptions(stored)).toEqual(stored);
+    expect(() => PlinkoEngine.storedRoundOptions({ ...stored, rngVersion: 9 })).toThrow(RangeError);
+    expect(() => PlinkoEngine.storedRoundOptions({ ...stored, hashVersion: 9 })).toThrow(RangeError);
+  });
+
+  test('should replay HMAC-SHA256 rounds independently of XORShift32 rounds', () => {
+    const serverSeed = 'b2a5f3f32a4d9c6ee7a8c1d33456677890abcdeffedcba0987654321ffeeddcc';
+    const legacy = PlinkoEngine.playRound(serverSeed, 'candidate-hello', '42', 6, ROWS, 500);
+    const hmac1 = PlinkoEngine.playRound(serverSeed, 'candidate-hello', '42', 6, ROWS, 500, { rngVersion: RNG_VERSION_HMAC_SHA256 });
+    const hmac2 = PlinkoEngine.playRound(serverSeed, 'candidate-hello', '42', 6, ROWS, 500, { rngVersion: RNG_VERSION_HMAC_SHA256 });
+
+    // Old rounds keep verifying with the original test vector
+    expect(legacy.rngVersion).toBe(1);
+    expect(legacy.binIndex).toBe(6);
+
+    expect(hmac1).toEqual(hmac2);
+    expect(hmac1.rngVersion).toBe(RNG_VERSION_HMAC_SHA256);
+    expect(hmac1.combinedSeed).toBe(legacy.combinedSeed);
+    expect(hmac1.pegMapHash).not.toBe(legacy.pegMapHash);
+  });
+
+  test('should compute exact bin probabilities for a fair board', () => {
+    const fairMap: PegMap = Array.from({ length: 8 }, (_, row) => new Array(row + 1).fill(0.5));
+    const probabilities = PlinkoEngine.getBinProbabilities(fairMap, 4);
+
+    expect(probabilities).toHaveLength(9);
+    expect(probabilities[0]).toBeCloseTo(1 / 256, 12);
+    expect(probabilities[4]).toBeCloseTo(70 / 256, 12);
+  });
+
+  test('should match every path simulateDrop can take on a peg map', () => {
+    const rows = 8;
+    const pegMap = PlinkoEngine.generatePegMap(new RoundRNG('e1dddf77de27d395ea2be2ed49aa2a59bd6bf12ee8d350c16c008abd406c07e0'), rows);
+
+    for (const dropColumn of [0, 4, 8]) {
+      const expected = new Array(rows + 1).fill(0);
+
+      // Replay each left/right sequence and weight it by the chance of its decisions
+      for (let mask = 0; mask < 2 ** rows; mask++) {
+        const decisions = Array.from({ length: rows }, (_, row) => ((mask >> row) & 1 ? 0.999999 : 0));
+        const path = PlinkoEngine.simulateDrop({ next: () => decisions.shift()! }, pegMap, dropColumn);
+        const probability = path.reduce(
+          (product, step) => product * (step.direction === 'left' ? step.adjustedBias : 1 - step.adjustedBias),
+          1
+        );
+        expected[path[path.length - 1].column] += probability;
+      }
+
+      const probabilities = PlinkoEngine.getBinProbabilities(pegMap, dropColumn);
+      expect(probabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+      probabilities.forEach((p, bin) => expect(p).toBeCloseTo(expected[bin], 12));
+    }
+  });
+
+  test('should average board probabilities to the expected distribution', () => {
+    const rows = 8;
+    const boards = 2000;
+    const average = new Array(rows + 1).fill(0);
+    const rng = new RoundRNG('e1dddf77de27d395ea2be2ed49aa2a59bd6bf12ee8d350c16c008abd406c07e0');
+
+    for (let i = 0; i < boards; i++) {
+      const pegMap = PlinkoEngine.generatePegMap(rng, rows);
+      PlinkoEngine.getBinProbabilities(pegMap, 2).forEach((p, bin) => {
+        average[bin] += p / boards;
+      });
+    }
+
+    PlinkoEngine.getExpectedBinProbabilities(rows, 2).forEach((p, bin) => {
+      expect(Math.abs(average[bin] - p)).toBeLessThan(0.005);
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  EntropySource,
+  getEntropySource,
+  randomHex,
+  resetEntropySource,
+  setEntropySource,
+  webCryptoEntropySource,
+} from '../lib/entropy';
+import { ProvablyFairProtocol } from '../lib/prng';
+import { generateClientSeed } from '../lib/utils';
+
+// Deterministic source: bytes count up from a starting value
+function createCountingSource(start = 0): EntropySource {
+  let next = start;
+  return {
+    getRandomBytes(length: number) {
+      return Uint8Array.from({ length }, () => next++ & 0xff);
+    },
+  };
+}
+
+describe('Entropy source', () => {
+  afterEach(() => {
+    resetEntropySource();
+  });
+
+  test('should default to Web Crypto', () => {
+    expect(getEntropySource()).toBe(webCryptoEntropySource);
+  });
+
+  test('should let tests inject a deterministic source', () => {
+    setEntropySource(createCountingSource());
+
+    expect(randomHex(4)).toBe('00010203');
+    expect(ProvablyFairProtocol.generateServerSeed()).toBe(
+      '0405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f20212223'
+    );
+    expect(generateClientSeed()).toBe('2425262728292a2b2c2d2e2f30313233');
+  });
+
+  test('should restore the previous source', () => {
+    const injected = createCountingSource();
+    const previous = setEntropySource(injected);
+
+    expect(previous).toBe(webCryptoEntropySource);
+    expect(setEntropySource(previous)).toBe(injected);
+    expect(getEntropySource()).toBe(webCryptoEntropySource);
+  });
+
+  test('should reject short reads from a broken source', () => {
+    setEntropySource({ getRandomBytes: () => new Uint8Array(2) });
+
+    expect(() => randomHex(32)).toThrow('expected 32');
+  });
+
+  test('should fill buffers larger than one getRandomValues call', () => {
+    const bytes = webCryptoEntropySource.getRandomBytes(70000);
+
+    expect(bytes).toHaveLength(70000);
+    expect(bytes.subarray(65536).some(byte => byte !== 0)).toBe(true);
+  });
+});
+
+describe('Secure seed generation', () => {
+  const BATCH_SIZE = 10000;
+
+  test('should generate 256-bit hex server seeds', () => {
+    for (let i = 0; i < 100; i++) {
+      expect(ProvablyFairProtocol.generateServerSeed()).toMatch(/^[0-9a-f]{64}$/);
+    }
+  });
+
+  test('should never repeat server seeds across a large batch', () => {
+    const seeds = new Set<string>();
+    for (let i = 0; i < BATCH_SIZE; i++) {
+      seeds.add(ProvablyFairProtocol.generateServerSeed());
+    }
+
+    expect(seeds.size).toBe(BATCH_SIZE);
+  });
+
+  test('should never repeat nonces or client seeds across a large batch', () => {
+    const nonces = new Set<string>();
+    const clientSeeds = new Set<string>();
+    for (let i = 0; i < BATCH_SIZE; i++) {
+      nonces.add(ProvablyFairProtocol.generateNonce());
+      clientSeeds.add(generateClientSeed());
+    }
+
+    expect(nonces.size).toBe(BATCH_SIZE);
+    expect(clientSeeds.size).toBe(BATCH_SIZE);
+  });
+
+  test('should use every hex digit in every position', () => {
+    // A biased or truncated source would leave some nibble values unused
+    const seen = Array.from({ length: 64 }, () => new Set<string>());
+    for (let i = 0; i < 2000; i++) {
+      const seed = ProvablyFairProtocol.generateServerSeed();
+      for (let pos = 0; pos < 64; pos++) {
+        seen[pos].add(seed[pos]);
+      }
+    }
+
+    seen.forEach(digits => expect(digits.size).toBe(16));
+  });
+});
@@ -0,0 +1,205 @@
+import type { HashChain, LedgerEntry, Player, Prisma, Round, SeedPair, TableRound } from '@prisma/client';
+
+// In-memory stand-in for the Prisma transaction client
+//
+// Covers the part of the query API the lib modules use: equality and
+// lt/lte/gt/gte/in/not filters, increment/decrement updates, orderBy, select,
+// and `include` of a relation stored as `<relation>Id`. Rows are kept by
+// reference, so tests can seed them and inspect them after the call; queries
+// return copies, like Prisma does.
+
+interface FakeRow {
+  id: string;
+  [field: string]: unknown;
+}
+
+// A row as tests seed and read it: typed by its Prisma model, but only the
+// columns a test cares about need to be set
+export type FakeRecord<T extends { id: string }> = Pick<T, 'id'> & Partial<T>;
+
+type Comparable = string | number | Date;
+
+type ModelName = 'player' | 'ledgerEntry' | 'seedPair' | 'round' | 'hashChain' | 'tableRound';
+type Where = Record<string, unknown>;
+type OrderBy = Record<string, 'asc' | 'desc'> | Record<string, 'asc' | 'desc'>[];
+
+interface FindArgs {
+  where?: Where;
+  orderBy?: OrderBy;
+  include?: Partial<Record<ModelName, boolean>>;
+  select?: Record<string, boolean>;
+}
+
+interface WriteArgs {
+  where: Where;
+  data: Record<string, unknown>;
+}
+
+export interface FakeModel {
+  findUnique(args: FindArgs): Promise<FakeRow | null>;
+  findFirst(args?: FindArgs): Promise<FakeRow | null>;
+  findMany(args?: FindArgs): Promise<FakeRow[]>;
+  create(args: { data: Record<string, unknown> }): Promise<FakeRow>;
+  update(args: WriteArgs): Promise<FakeRow>;
+  updateMany(args: WriteArgs): Promise<{ count: number }>;
+}
+
+export interface FakeTxSeed {
+  players?: Record<string, number>; // Player ID to balance in cents
+  pairs?: FakeRecord<SeedPair>[];
+  rounds?: FakeRecord<Round>[];
+  chains?: FakeRecord<HashChain>[];
+  tableRounds?: FakeRecord<TableRound>[];
+}
+
+export interface FakeTx {
+  tx: Prisma.TransactionClient;
+  players: FakeRecord<Player>[];
+  entries: FakeRecord<LedgerEntry>[];
+  pairs: FakeRecord<SeedPair>[];
+  rounds: FakeRecord<Round>[];
+  chains: FakeRecord<HashChain>[];
+  tableRounds: FakeRecord<TableRound>[];
+  balanceOf(playerId: string): number | undefined;
+}
+
+// ID prefix and the nullable columns Prisma returns as null when not set
+const MODELS: Record<ModelName, { prefix: string; defaults: Record<string, unknown> }> = {
+  player: { prefix: 'player', defaults: { tokenHash: null } },
+  ledgerEntry: { prefix: 'entry', defaults: {} },
+  seedPair: { prefix: 'pair', defaults: { revealedAt: null } },
+  round: { prefix: 'round', defaults: {} },
+  hashChain: { prefix: 'chain', defaults: { exhaustedAt: null } },
+  tableRound: { prefix: 'table', defaults: { serverSeed: null, droppedAt: null } },
+};
+
+const isOperatorObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+
+// Missing columns read as null, as they would from the database
+const sameValue = (a: unknown, b: unknown) =>
+  a instanceof Date && b instanceof Date ? a.getTime() === b.getTime() : (a ?? null) === (b ?? null);
+
+function matchesCondition(value: unknown, condition: unknown): boolean {
+  if (condition === undefined) {
+    return true;
+  }
+  if (!isOperatorObject(condition)) {
+    return sameValue(value, condition);
+  }
+  return Object.entries(condition).every(([operator, operand]) => {
+    switch (operator) {
+      case 'lt': return (value as Comparable) < (operand as Comparable);
+      case 'lte': return (value as Comparable) <= (operand as Comparable);
+      case 'gt': return (value as Comparable) > (operand as Comparable);
+      case 'gte': return (value as Comparable) >= (operand as Comparable);
+      case 'in': return (operand as unknown[]).some(item => sameValue(value, item));
+      case 'not': return !sameValue(value, operand);
+      default: throw new Error(`Fake tx does not support the ${operator} filter`);
+    }
+  });
+}
+
+function matchesWhere(row: FakeRow, where: Where = {}): boolean {
+  return Object.entries(where).every(([field, condition]) => matchesCondition(row[field], condition));
+}
+
+function applyData(row: FakeRow, data: Record<string, unknown>) {
+  for (const [field, value] of Object.entries(data)) {
+    if (isOperatorObject(value) && ('increment' in value || 'decrement' in value)) {
+      row[field] = (row[field] as number) + ((value.increment as number) ?? 0) - ((value.decrement as number) ?? 0);
+    } else {
+      row[field] = value;
+    }
+  }
+}
+
+function sortRows(rows: FakeRow[], orderBy?: OrderBy): FakeRow[] {
+  const keys = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]).flatMap(entry => Object.entries(entry)) : [];
+  return [...rows].sort((a, b) => {
+    for (const [field, direction] of keys) {
+      const [left, right] = [a[field] as Comparable, b[field] as Comparable];
+      if (left < right) return direction === 'asc' ? -1 : 1;
+      if (left > right) return direction === 'asc' ? 1 : -1;
+    }
+    return 0;
+  });
+}
+
+export function createFakeTx(seed: FakeTxSeed = {}): FakeTx {
+  const tables: Record<ModelName, FakeRow[]> = {
+    player: Object.entries(seed.players ?? {}).map(([id, balanceCents]) => ({ id, balanceCents, tokenHash: null })),
+    ledgerEntry: [],
+    seedPair: seed.pairs ?? [],
+    round: seed.rounds ?? [],
+    hashChain: seed.chains ?? [],
+    tableRound: seed.tableRounds ?? [],
+  };
+  let counter = 0;
+
+  const view = (row: FakeRow, { include, select }: FindArgs = {}): FakeRow => {
+    const copy: FakeRow = { ...row };
+    for (const [relation, wanted] of Object.entries(include ?? {})) {
+      if (wanted) {
+        const related = tables[relation as ModelName].find(other => other.id === row[`${relation}Id`]);
+        copy[relation] = related ? { ...related } : null;
+      }
+    }
+    if (select) {
+      return Object.fromEntries(Object.keys(select).filter(field => select[field]).map(field => [field, copy[field]])) as FakeRow;
+    }
+    return copy;
+  };
+
+  const model = (name: ModelName): FakeModel => {
+    const rows = tables[name];
+    const find = (args: FindArgs = {}) => sortRows(rows.filter(row => matchesWhere(row, args.where)), args.orderBy);
+
+    return {
+      findUnique: async args => {
+        const row = rows.find(candidate => matchesWhere(candidate, args.where));
+        return row ? view(row, args) : null;
+      },
+      findFirst: async args => {
+        const [row] = find(args);
+        return row ? view(row, args) : null;
+      },
+      findMany: async args => find(args).map(row => view(row, args)),
+      create: async ({ data }) => {
+        const { prefix, defaults } = MODELS[name];
+        const row: FakeRow = { id: `${prefix}${counter++}`, createdAt: new Date(), ...defaults, ...data };
+        rows.push(row);
+        return { ...row };
+      },
+      update: async ({ where, data }) => {
+        const row = rows.find(candidate => matchesWhere(candidate, where));
+        if (!row) {
+          throw new Error(`Fake tx: no ${name} matches ${JSON.stringify(where)}`);
+        }
+        applyData(row, data);
+        return { ...row };
+      },
+      updateMany: async ({ where, data }) => {
+        const matching = rows.filter(row => matchesWhere(row, where));
+        matching.forEach(row => applyData(row, data));
+        return { count: matching.length };
+      },
+    };
+  };
+
+  const tx = Object.fromEntries(
+    (Object.keys(MODELS) as ModelName[]).map(name => [name, model(name)])
+  ) as Record<ModelName, FakeModel>;
+
+  // The same arrays, so rows tests push are visible to queries and vice versa
+  return {
+    tx: tx as unknown as Prisma.TransactionClient,
+    players: tables.player as FakeRecord<Player>[],
+    entries: tables.ledgerEntry as FakeRecord<LedgerEntry>[],
+    pairs: tables.seedPair as FakeRecord<SeedPair>[],
+    rounds: tables.round as FakeRecord<Round>[],
+    chains: tables.hashChain as FakeRecord<HashChain>[],
+    tableRounds: tables.tableRound as FakeRecord<TableRound>[],
+    balanceOf: playerId => tables.player.find(player => player.id === playerId)?.balanceCents as number | undefined,
+  };
+}
@@ -0,0 +1,134 @@
+import { HashChain, ProvablyFairProtocol } from '../lib/prng';
+import { HashChains, getHashChainSettings, toPublicHashChain } from '../lib/hash-chain';
+import { resetSeedVault } from '../lib/seed-vault';
+import { createFakeTx } from './fake-tx';
+
+// Use an in-memory key rather than creating a key file
+process.env.SEED_ENCRYPTION_KEY = '11'.repeat(32);
+resetSeedVault();
+
+const rootSeed = 'a3f1c2d4e5b60718293a4b5c6d7e8f90a1b2c3d4e5f60718293a4b5c6d7e8f90';
+
+describe('HashChain', () => {
+  test('should link each seed to the next with SHA-256', () => {
+    expect(HashChain.link(rootSeed)).toBe(ProvablyFairProtocol.createServerSeedHash(rootSeed));
+    expect(HashChain.walk(rootSeed, 3)).toBe(HashChain.link(HashChain.link(HashChain.link(rootSeed))));
+    expect(HashChain.walk(rootSeed, 0)).toBe(rootSeed);
+  });
+
+  test('should hand out seeds in reverse order back to the terminal hash', () => {
+    const { terminalHash, checkpoints } = HashChain.build(rootSeed, 50, 7);
+
+    expect(terminalHash).toBe(HashChain.walk(rootSeed, 50));
+    expect(checkpoints).toHaveLength(8);
+
+    const seeds = Array.from({ length: 50 }, (_, index) => HashChain.seedAt(checkpoints, 7, 50, index));
+    expect(seeds[0]).toBe(HashChain.walk(rootSeed, 49));
+    expect(seeds[49]).toBe(rootSeed);
+    seeds.forEach((seed, index) => {
+      expect(HashChain.link(seed)).toBe(index === 0 ? terminalHash : seeds[index - 1]);
+    });
+
+    expect(() => HashChain.seedAt(checkpoints, 7, 50, 50)).toThrow(RangeError);
+    expect(() => HashChain.build(rootSeed, 0, 7)).toThrow(RangeError);
+  });
+
+  test('should verify a seed against the terminal hash by walking the chain', () => {
+    const { terminalHash, checkpoints } = HashChain.build(rootSeed, 20, 5);
+    const seed = HashChain.seedAt(checkpoints, 5, 20, 12);
+
+    expect(HashChain.verify(seed, 12, terminalHash)).toBe(true);
+    expect(HashChain.verify(seed, 11, terminalHash)).toBe(false);
+    expect(HashChain.verify('f'.repeat(64), 12, terminalHash)).toBe(false);
+
+    expect(HashChain.findIndex(seed, terminalHash, 19)).toBe(12);
+    expect(HashChain.findIndex(seed, terminalHash, 10)).toBeNull();
+  });
+
+  test('should find where a sequence of seeds breaks the chain', () => {
+    const { terminalHash, checkpoints } = HashChain.build(rootSeed, 10, 3);
+    const seeds = Array.from({ length: 10 }, (_, index) => HashChain.seedAt(checkpoints, 3, 10, index));
+
+    expect(HashChain.verifySequence(seeds, terminalHash)).toBe(-1);
+    expect(HashChain.verifySequence(seeds.slice(0, 4), terminalHash)).toBe(-1);
+
+    const tampered = [...seeds];
+    tampered[6] = 'f'.repeat(64);
+    expect(HashChain.verifySequence(tampered, terminalHash)).toBe(6);
+    expect(HashChain.verifySequence(seeds.slice(1), terminalHash)).toBe(0);
+  });
+});
+
+describe('HashChains', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.HASH_CHAIN_LENGTH = '5';
+    process.env.HASH_CHAIN_CHECKPOINT_INTERVAL = '2';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('should commit one active chain per table without exposing its seeds', async () => {
+    const { tx } = createFakeTx();
+
+    const first = await HashChains.getOrCreateActive(tx, 'main');
+    const second = await HashChains.getOrCreateActive(tx, 'main');
+
+    expect(second.id).toBe(first.id);
+    expect(first.length).toBe(5);
+    expect(first).toMatchObject({ tableId: 'main', activeTableId: 'main' });
+
+    const other = await HashChains.getOrCreateActive(tx, 'high-roller');
+    expect(other.id).not.toBe(first.id);
+    await expect(HashChains.getActive(tx, 'high-roller')).resolves.toMatchObject({ id: other.id });
+    await expect(HashChains.getActive(tx, 'closed')).resolves.toBeNull();
+
+    const publicChain = toPublicHashChain(first);
+    expect(publicChain.terminalHash).toBe(first.terminalHash);
+    expect(publicChain).not.toHaveProperty('checkpointsEncrypted');
+  });
+
+  test('should allocate consecutive seeds that link to the terminal hash', async () => {
+    const { tx } = createFakeTx();
+
+    const allocated = [];
+    for (let i = 0; i < 5; i++) {
+      allocated.push(await HashChains.allocateSeed(tx, 'main'));
+    }
+
+    expect(allocated.map(seed => seed.chainIndex)).toEqual([0, 1, 2, 3, 4]);
+    const { terminalHash } = allocated[0].chain;
+    expect(HashChain.verifySequence(allocated.map(seed => seed.serverSeed), terminalHash)).toBe(-1);
+    allocated.forEach(({ serverSeed, chainIndex }) => {
+      expect(HashChain.verify(serverSeed, chainIndex, terminalHash)).toBe(true);
+    });
+  });
+
+  test('should commit a new chain once the active one is used up', async () => {
+    const { tx, chains } = createFakeTx();
+
+    for (let i = 0; i < 5; i++) {
+      await HashChains.allocateSeed(tx, 'main');
+    }
+    const next = await HashChains.allocateSeed(tx, 'main');
+
+    expect(chains).toHaveLength(2);
+    expect(chains[0].status).toBe('EXHAUSTED');
+    expect(chains[0].activeTableId).toBeNull();
+    expect(chains[0].nextIndex).toBe(5);
+    expect(chains[0].exhaustedAt).toBeInstanceOf(Date);
+    expect(next.chain.id).toBe(chains[1].id);
+    expect(next.chainIndex).toBe(0);
+    expect(HashChain.verify(next.serverSeed, 0, chains[1].terminalHash!)).toBe(true);
+  });
+
+  test('should fall back to default settings', () => {
+    delete process.env.HASH_CHAIN_LENGTH;
+    process.env.HASH_CHAIN_CHECKPOINT_INTERVAL = 'often';
+
+    expect(getHashChainSettings()).toEqual({ length: 1000000, checkpointInterval: 1000 });
+  });
+});
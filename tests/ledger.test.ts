@@ -0,0 +1,43 @@
+import { Ledger, InsufficientFundsError, PlayerNotFoundError } from '../lib/ledger';
+import { createFakeTx } from './fake-tx';
+
+describe('Ledger', () => {
+  test('should debit and record a negative entry', async () => {
+    const { tx, entries, balanceOf } = createFakeTx({ players: { p1: 1000 } });
+
+    const balance = await Ledger.debit(tx, 'p1', 250, 'BET', 'r1');
+
+    expect(balance).toBe(750);
+    expect(balanceOf('p1')).toBe(750);
+    expect(entries).toMatchObject([
+      { playerId: 'p1', roundId: 'r1', type: 'BET', amountCents: -250, balanceAfterCents: 750 },
+    ]);
+  });
+
+  test('should refuse to overdraw', async () => {
+    const { tx, entries, balanceOf } = createFakeTx({ players: { p1: 100 } });
+
+    await expect(Ledger.debit(tx, 'p1', 101, 'BET')).rejects.toBeInstanceOf(InsufficientFundsError);
+    expect(balanceOf('p1')).toBe(100);
+    expect(entries).toHaveLength(0);
+  });
+
+  test('should reject unknown players', async () => {
+    const { tx } = createFakeTx();
+
+    await expect(Ledger.debit(tx, 'nobody', 1, 'BET')).rejects.toBeInstanceOf(PlayerNotFoundError);
+    await expect(Ledger.credit(tx, 'nobody', 1, 'WIN')).rejects.toBeInstanceOf(PlayerNotFoundError);
+  });
+
+  test('should credit wins and skip empty credits', async () => {
+    const { tx, entries } = createFakeTx({ players: { p1: 500 } });
+
+    expect(await Ledger.credit(tx, 'p1', 0, 'WIN', 'r1')).toBe(500);
+    expect(entries).toHaveLength(0);
+
+    expect(await Ledger.credit(tx, 'p1', 1650, 'WIN', 'r1')).toBe(2150);
+    expect(entries).toMatchObject([
+      { playerId: 'p1', roundId: 'r1', type: 'WIN', amountCents: 1650, balanceAfterCents: 2150 },
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { OperatorAuth } from '../lib/operator-auth';
+
+// Only the Authorization header is read
+const requestWith = (authorization?: string) =>
+  ({ headers: { get: (name: string) => (name === 'authorization' ? authorization ?? null : null) } }) as unknown as Request;
+
+describe('OperatorAuth', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('should accept only the configured operator token', () => {
+    process.env.OPERATOR_TOKEN = 'operator-secret';
+
+    expect(OperatorAuth.isOperator(requestWith('Bearer operator-secret'))).toBe(true);
+    expect(OperatorAuth.isOperator(requestWith('Bearer operator'))).toBe(false);
+    expect(OperatorAuth.isOperator(requestWith())).toBe(false);
+  });
+
+  test('should refuse everyone when no operator token is configured', () => {
+    delete process.env.OPERATOR_TOKEN;
+
+    expect(OperatorAuth.isOperator(requestWith('Bearer '))).toBe(false);
+    expect(OperatorAuth.isOperator(requestWith('Bearer anything'))).toBe(false);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  CURRENT_PAYTABLE_VERSION,
+  RISK_LEVELS,
+  getCurrentPaytable,
+  getPaytable,
+  listPaytables,
+  paytableId,
+} from '../lib/paytables';
+import { PlinkoEngine, MIN_ROWS, MAX_ROWS } from '../lib/engine';
+import { RtpCalculator } from '../lib/rtp';
+
+describe('Paytables', () => {
+  test('should publish a current table for every risk level and row count', () => {
+    for (const risk of RISK_LEVELS) {
+      for (let rows = MIN_ROWS; rows <= MAX_ROWS; rows++) {
+        const table = getCurrentPaytable(risk, rows);
+
+        expect(table).toBeDefined();
+        expect(table!.id).toBe(paytableId(CURRENT_PAYTABLE_VERSION, risk, rows));
+        expect(table!.multipliers).toHaveLength(rows + 1);
+
+        // Symmetric, with the edges paying the most
+        const m = table!.multipliers;
+        for (let i = 0; i < m.length; i++) {
+          expect(m[i]).toBe(m[m.length - 1 - i]);
+        }
+        expect(Math.max(...m)).toBe(m[0]);
+      }
+    }
+  });
+
+  test('should keep the original linear table as version 1', () => {
+    const legacy = getPaytable('v1-medium-12');
+
+    expect(legacy).toBeDefined();
+    expect(legacy!.multipliers).toEqual([2.3, 2, 1.7, 1.4, 1.1, 0.8, 0.5, 0.8, 1.1, 1.4, 1.7, 2, 2.3]);
+    expect(listPaytables(1)).toHaveLength(MAX_ROWS - MIN_ROWS + 1);
+  });
+
+  test('should make higher risk more volatile', () => {
+    for (let rows = MIN_ROWS; rows <= MAX_ROWS; rows++) {
+      // Variance of the payout multiplier for a centre drop
+      const probabilities = RtpCalculator.getBinProbabilities(rows, Math.floor(rows / 2));
+      const variance = (multipliers: number[]) => {
+        const mean = probabilities.reduce((sum, p, bin) => sum + p * multipliers[bin], 0);
+        return probabilities.reduce((sum, p, bin) => sum + p * (multipliers[bin] - mean) ** 2, 0);
+      };
+      const [low, medium, high] = RISK_LEVELS.map(risk => getCurrentPaytable(risk, rows)!.multipliers);
+
+      expect(high[0]).toBeGreaterThan(low[0]);
+      expect(variance(medium)).toBeGreaterThan(variance(low));
+      expect(variance(high)).toBeGreaterThan(variance(medium));
+    }
+  });
+
+  test('should replay a round against the paytable it was played with', () => {
+    const args = ['server', 'client', '7', 6, 12, 100] as const;
+    const legacy = PlinkoEngine.playRound(...args, { paytableId: 'v1-medium-12' });
+    const high = PlinkoEngine.playRound(...args, { paytableId: 'v2-high-12' });
+
+    // Outcome is independent of the paytable; only the settlement changes
+    expect(legacy.binIndex).toBe(high.binIndex);
+    expect(legacy.paytableId).toBe('v1-medium-12');
+    expect(legacy.payoutMultiplier).toBe(getPaytable('v1-medium-12')!.multipliers[legacy.binIndex]);
+    expect(high.payoutMultiplier).toBe(getPaytable('v2-high-12')!.multipliers[high.binIndex]);
+  });
+
+  test('should reject paytables for a different board size', () => {
+    expect(() => PlinkoEngine.playRound('s', 'c', '1', 4, 8, 100, { paytableId: 'v2-low-12' }))
+      .toThrow(RangeError);
+    expect(() => PlinkoEngine.playRound('s', 'c', '1', 4, 8, 100, { paytableId: 'v9-low-8' }))
+      .toThrow(RangeError);
+  });
+});
@@ -0,0 +1,40 @@
+import { PlayerAuth } from '../lib/player-auth';
+import { createFakeTx } from './fake-tx';
+
+const token = PlayerAuth.generateToken();
+const { tx, players } = createFakeTx({ players: { p1: 1000 } });
+const player = players[0];
+player.tokenHash = PlayerAuth.hashToken(token);
+
+// Only the Authorization header is read
+const requestWith = (authorization?: string) =>
+  ({ headers: { get: (name: string) => (name === 'authorization' ? authorization ?? null : null) } }) as unknown as Request;
+
+describe('PlayerAuth', () => {
+  test('should generate distinct 32-byte tokens', () => {
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(PlayerAuth.generateToken()).not.toBe(token);
+    expect(player.tokenHash).not.toBe(token);
+  });
+
+  test('should read bearer tokens from the Authorization header', () => {
+    expect(PlayerAuth.readToken(requestWith(`Bearer ${token}`))).toBe(token);
+    expect(PlayerAuth.readToken(requestWith(`bearer ${token}`))).toBe(token);
+    expect(PlayerAuth.readToken(requestWith(`Basic ${token}`))).toBeNull();
+    expect(PlayerAuth.readToken(requestWith())).toBeNull();
+  });
+
+  test('should authenticate the player holding the token', async () => {
+    await expect(PlayerAuth.authenticate(tx, requestWith(`Bearer ${token}`), 'p1')).resolves.toEqual(player);
+  });
+
+  test('should refuse a missing or wrong token and unknown players alike', async () => {
+    await expect(PlayerAuth.authenticate(tx, requestWith(), 'p1')).resolves.toBeNull();
+    await expect(PlayerAuth.authenticate(tx, requestWith('Bearer wrong'), 'p1')).resolves.toBeNull();
+    await expect(PlayerAuth.authenticate(tx, requestWith(`Bearer ${token}`), 'p2')).resolves.toBeNull();
+  });
+
+  test('should refuse players created before tokens existed', () => {
+    expect(PlayerAuth.matches({ tokenHash: null }, token)).toBe(false);
+  });
+});
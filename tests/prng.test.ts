@@ -1,4 +1,13 @@
-import { XORShift32, ProvablyFairProtocol, RoundRNG } from '../lib/prng';
+import {
+  XORShift32,
+  ProvablyFairProtocol,
+  RoundRNG,
+  HmacSha256Stream,
+  createRandomSource,
+  RNG_VERSION_XORSHIFT32,
+  RNG_VERSION_HMAC_SHA256,
+} from '../lib/prng';
+import { createHmac } from 'crypto';
 
 describe('XORShift32 PRNG', () => {
   test('should produce deterministic sequence', () => {
@@ -93,6 +102,16 @@ describe('ProvablyFairProtocol', () => {
     expect(ProvablyFairProtocol.verifyCommit(serverSeed, nonce, incorrectHash)).toBe(false);
   });
 
+  test('should commit to a seed pair with SHA256(serverSeed)', () => {
+    const serverSeed = 'b2a5f3f32a4d9c6ee7a8c1d33456677890abcdeffedcba0987654321ffeeddcc';
+    const hash = ProvablyFairProtocol.createServerSeedHash(serverSeed);
+
+    expect(hash).toHaveLength(64);
+    expect(hash).not.toBe(ProvablyFairProtocol.createCommitHash(serverSeed, '0'));
+    expect(ProvablyFairProtocol.verifyServerSeedHash(serverSeed, hash)).toBe(true);
+    expect(ProvablyFairProtocol.verifyServerSeedHash('tampered', hash)).toBe(false);
+  });
+
   test('should extract PRNG seed correctly', () => {
     const combinedSeed = 'abcdef1234567890abcdef1234567890abcdef1234567890abcdef1234567890';
     const extracted = ProvablyFairProtocol.extractPRNGSeed(combinedSeed);
@@ -140,4 +159,63 @@ describe('RoundRNG', () => {
     const resetValue = rng.next();
     expect(resetValue).toBe(firstValue);
   });
-});
\ No newline at end of file
+});
+
+describe('HmacSha256Stream', () => {
+  const combinedSeed = 'e1dddf77de27d395ea2be2ed49aa2a59bd6bf12ee8d350c16c008abd406c07e0';
+
+  test('should read big-endian words from HMAC blocks keyed by the combined seed', () => {
+    const stream = new HmacSha256Stream(combinedSeed);
+    const block0 = createHmac('sha256', combinedSeed).update('0').digest();
+    const block1 = createHmac('sha256', combinedSeed).update('1').digest();
+
+    for (let i = 0; i < 8; i++) {
+      expect(stream.next()).toBe(block0.readUInt32BE(i * 4) / 0x100000000);
+    }
+    // Ninth value starts the next counter block
+    expect(stream.next()).toBe(block1.readUInt32BE(0) / 0x100000000);
+  });
+
+  test('should depend on the whole combined seed', () => {
+    // Same first 8 hex chars: XORShift32 streams collide, HMAC streams don't
+    const other = combinedSeed.substring(0, 63) + '1';
+
+    expect(new XORShift32(ProvablyFairProtocol.extractPRNGSeed(combinedSeed)).next())
+      .toBe(new XORShift32(ProvablyFairProtocol.extractPRNGSeed(other)).next());
+    expect(new HmacSha256Stream(combinedSeed).next()).not.toBe(new HmacSha256Stream(other).next());
+  });
+
+  test('should stay within [0, 1)', () => {
+    const stream = new HmacSha256Stream(combinedSeed);
+    for (let i = 0; i < 1000; i++) {
+      const value = stream.next();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('RNG versions', () => {
+  const combinedSeed = '1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef';
+
+  test('should default RoundRNG to XORShift32', () => {
+    const rng = new RoundRNG(combinedSeed);
+    const xorshift = new XORShift32(ProvablyFairProtocol.extractPRNGSeed(combinedSeed));
+
+    expect(rng.getRngVersion()).toBe(RNG_VERSION_XORSHIFT32);
+    expect(rng.next()).toBe(xorshift.next());
+  });
+
+  test('should select the HMAC stream for version 2 and keep it on reset', () => {
+    const rng = new RoundRNG(combinedSeed, RNG_VERSION_HMAC_SHA256);
+    const first = rng.next();
+
+    expect(first).toBe(new HmacSha256Stream(combinedSeed).next());
+    rng.reset(combinedSeed);
+    expect(rng.next()).toBe(first);
+  });
+
+  test('should reject unknown versions', () => {
+    expect(() => createRandomSource(combinedSeed, 3 as any)).toThrow(RangeError);
+  });
+});
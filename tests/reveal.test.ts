@@ -0,0 +1,152 @@
+import { RoundReveal, toRevealPayload } from '../lib/reveal';
+import { SeedPairs } from '../lib/seed-pairs';
+import { HashChain, ProvablyFairProtocol } from '../lib/prng';
+import { resetSeedVault } from '../lib/seed-vault';
+import type { Round } from '@prisma/client';
+import { FakeRecord, FakeTx, createFakeTx } from './fake-tx';
+
+process.env.SEED_ENCRYPTION_KEY = '22'.repeat(32);
+resetSeedVault();
+
+const HOUR = 60 * 60 * 1000;
+
+async function addSeedPairRound(
+  fake: FakeTx,
+  playerId: string,
+  createdAt: Date,
+  status = 'STARTED'
+) {
+  const pair = await SeedPairs.getOrCreateActive(fake.tx, playerId);
+  const round: FakeRecord<Round> = {
+    id: `round${fake.rounds.length}`,
+    createdAt,
+    status,
+    playerId,
+    seedPairId: pair.id,
+    nonce: String(fake.rounds.length),
+    commitHex: pair.serverSeedHash,
+    serverSeed: null,
+    clientSeed: pair.clientSeed,
+    combinedSeed: 'combined',
+    revealedAt: null,
+    tableRoundId: null,
+  };
+  fake.rounds.push(round);
+  return round;
+}
+
+function addLegacyRound(fake: FakeTx, createdAt: Date) {
+  const serverSeed = 'ab'.repeat(32);
+  const nonce = 'cd'.repeat(8);
+  const round: FakeRecord<Round> = {
+    id: `round${fake.rounds.length}`,
+    createdAt,
+    status: 'STARTED',
+    playerId: null,
+    seedPairId: null,
+    nonce,
+    commitHex: ProvablyFairProtocol.createCommitHash(serverSeed, nonce),
+    serverSeed,
+    clientSeed: 'client',
+    combinedSeed: 'combined',
+    revealedAt: null,
+    tableRoundId: null,
+  };
+  fake.rounds.push(round);
+  return round;
+}
+
+describe('RoundReveal', () => {
+  test('should reveal a seed pair round by rotating its pair', async () => {
+    const fake = createFakeTx();
+    const round = await addSeedPairRound(fake, 'p1', new Date());
+
+    const revealed = await RoundReveal.reveal(fake.tx, round.id);
+    const payload = toRevealPayload(revealed!);
+
+    expect(revealed!.status).toBe('REVEALED');
+    expect(payload.isValid).toBe(true);
+    expect(fake.pairs[0].status).toBe('ROTATED');
+    expect(fake.pairs[1].status).toBe('ACTIVE');
+  });
+
+  test('should return the same payload when revealed twice', async () => {
+    const fake = createFakeTx();
+    const round = addLegacyRound(fake, new Date());
+
+    const first = toRevealPayload((await RoundReveal.reveal(fake.tx, round.id))!);
+    const second = toRevealPayload((await RoundReveal.reveal(fake.tx, round.id))!);
+
+    expect(first.isValid).toBe(true);
+    expect(second).toEqual(first);
+  });
+
+  test('should validate shared table rounds against their hash chain commitment', () => {
+    // Dropped table balls have no seed pair; their commitment is the next link in the chain
+    const serverSeed = 'ef'.repeat(32);
+    const payload = toRevealPayload({
+      id: 'table-ball',
+      seedPairId: null,
+      hashChainId: 'chain1',
+      nonce: '4',
+      commitHex: HashChain.link(serverSeed),
+      serverSeed,
+      clientSeed: 'client',
+      combinedSeed: 'combined',
+      revealedAt: new Date(),
+    });
+
+    expect(payload.isValid).toBe(true);
+  });
+
+  test('should only sweep rounds older than the TTL', async () => {
+    const fake = createFakeTx();
+    const now = new Date();
+    const old = new Date(now.getTime() - 2 * HOUR);
+
+    await addSeedPairRound(fake, 'p1', old);
+    await addSeedPairRound(fake, 'p1', old);
+    await addSeedPairRound(fake, 'p2', now);
+    const legacyOld = addLegacyRound(fake, old);
+    const legacyNew = addLegacyRound(fake, now);
+
+    const result = await RoundReveal.sweepExpired(fake.tx, HOUR, now);
+
+    expect(result).toEqual({ rotatedSeedPairs: 1, revealedRounds: 1, expiredRounds: 0 });
+    expect(fake.rounds.filter(r => r.playerId === 'p1').every(r => r.status === 'REVEALED')).toBe(true);
+    expect(fake.rounds.find(r => r.playerId === 'p2')!.status).toBe('STARTED');
+    expect(legacyOld.status).toBe('REVEALED');
+    expect(legacyNew.status).toBe('STARTED');
+  });
+
+  test('should expire rounds committed but never started', async () => {
+    const fake = createFakeTx();
+    const now = new Date();
+    const old = new Date(now.getTime() - 2 * HOUR);
+
+    const stale = await addSeedPairRound(fake, 'p1', old, 'CREATED');
+    const fresh = await addSeedPairRound(fake, 'p1', now, 'CREATED');
+    // Shared table bets wait for their table round to drop instead
+    const tableBet: FakeRecord<Round> = { id: 'table-bet', createdAt: old, status: 'CREATED', seedPairId: null, tableRoundId: 'tr1' };
+    fake.rounds.push(tableBet);
+
+    const result = await RoundReveal.sweepExpired(fake.tx, HOUR, now);
+
+    expect(result).toEqual({ rotatedSeedPairs: 0, revealedRounds: 0, expiredRounds: 1 });
+    expect(stale).toMatchObject({ status: 'EXPIRED', expiredAt: now });
+    expect(fresh.status).toBe('CREATED');
+    expect(tableBet.status).toBe('CREATED');
+  });
+
+  test('should void unstarted rounds when their seed pair is revealed', async () => {
+    const fake = createFakeTx();
+    const played = await addSeedPairRound(fake, 'p1', new Date());
+    const unplayed = await addSeedPairRound(fake, 'p1', new Date(), 'CREATED');
+
+    await RoundReveal.reveal(fake.tx, played.id);
+
+    expect(played.status).toBe('REVEALED');
+    expect(unplayed.status).toBe('VOIDED');
+    expect(unplayed.voidedAt).toBeInstanceOf(Date);
+  });
+});
@@ -0,0 +1,72 @@
+import {
+  IllegalRoundTransitionError,
+  ROUND_STATUSES,
+  RoundStateConflictError,
+  RoundStateMachine,
+  isRoundStatus,
+} from '../lib/round-state';
+import { createFakeTx } from './fake-tx';
+
+describe('RoundStateMachine', () => {
+  test('should allow only forward transitions', () => {
+    expect(RoundStateMachine.canTransition('CREATED', 'STARTED')).toBe(true);
+    expect(RoundStateMachine.canTransition('CREATED', 'EXPIRED')).toBe(true);
+    expect(RoundStateMachine.canTransition('STARTED', 'REVEALED')).toBe(true);
+    expect(RoundStateMachine.canTransition('STARTED', 'VOIDED')).toBe(true);
+
+    expect(RoundStateMachine.canTransition('CREATED', 'REVEALED')).toBe(false);
+    expect(RoundStateMachine.canTransition('STARTED', 'STARTED')).toBe(false);
+    expect(RoundStateMachine.canTransition('STARTED', 'EXPIRED')).toBe(false);
+    expect(RoundStateMachine.canTransition('BOGUS', 'STARTED')).toBe(false);
+
+    for (const terminal of ['REVEALED', 'EXPIRED', 'VOIDED'] as const) {
+      expect(RoundStateMachine.isTerminal(terminal)).toBe(true);
+      for (const to of ROUND_STATUSES) {
+        expect(RoundStateMachine.canTransition(terminal, to)).toBe(false);
+      }
+    }
+  });
+
+  test('should stamp the timestamp for the new status', () => {
+    const now = new Date('2026-10-19T12:00:00Z');
+
+    expect(RoundStateMachine.createData()).toEqual({ status: 'CREATED' });
+    expect(RoundStateMachine.createData('STARTED', now)).toEqual({ status: 'STARTED', startedAt: now });
+    expect(RoundStateMachine.transitionData('CREATED', 'EXPIRED', now)).toEqual({ status: 'EXPIRED', expiredAt: now });
+    expect(RoundStateMachine.transitionData('STARTED', 'VOIDED', now)).toEqual({ status: 'VOIDED', voidedAt: now });
+    expect(() => RoundStateMachine.transitionData('REVEALED', 'STARTED', now)).toThrow(IllegalRoundTransitionError);
+  });
+
+  test('should only move rounds still in the expected state', async () => {
+    const rounds = [{ id: 'r1', status: 'CREATED' }];
+    const { tx } = createFakeTx({ rounds });
+
+    const started = await RoundStateMachine.transition(tx, 'r1', 'CREATED', 'STARTED', { binIndex: 3 });
+    expect(started).toMatchObject({ status: 'STARTED', binIndex: 3 });
+    expect(started.startedAt).toBeInstanceOf(Date);
+
+    await expect(RoundStateMachine.transition(tx, 'r1', 'CREATED', 'STARTED')).rejects.toThrow(RoundStateConflictError);
+    await expect(RoundStateMachine.transition(tx, 'r1', 'STARTED', 'EXPIRED')).rejects.toThrow(IllegalRoundTransitionError);
+    expect(rounds[0].status).toBe('STARTED');
+  });
+
+  test('should move matching rounds in bulk', async () => {
+    const rounds = [
+      { id: 'r1', seedPairId: 'p1', status: 'CREATED' },
+      { id: 'r2', seedPairId: 'p1', status: 'STARTED' },
+      { id: 'r3', seedPairId: 'p2', status: 'CREATED' },
+    ];
+    const { tx } = createFakeTx({ rounds });
+
+    const count = await RoundStateMachine.transitionMany(tx, { seedPairId: 'p1' }, 'CREATED', 'VOIDED');
+
+    expect(count).toBe(1);
+    expect(rounds.map(r => r.status)).toEqual(['VOIDED', 'STARTED', 'CREATED']);
+  });
+
+  test('should recognise round statuses', () => {
+    expect(isRoundStatus('EXPIRED')).toBe(true);
+    expect(isRoundStatus('expired')).toBe(false);
+    expect(isRoundStatus(1)).toBe(false);
+  });
+});
@@ -0,0 +1,125 @@
+import {
+  DEFAULT_HISTORY_LIMIT,
+  buildRoundHistoryWhere,
+  decodeCursor,
+  encodeCursor,
+  parseRoundHistoryQuery,
+  toPublicRound,
+} from '../lib/rounds';
+import type { Round } from '@prisma/client';
+
+function parse(query: string) {
+  return parseRoundHistoryQuery(new URLSearchParams(query));
+}
+
+describe('Round history query', () => {
+  test('should round-trip cursors', () => {
+    const createdAt = new Date('2026-10-19T09:00:00.000Z');
+    const cursor = encodeCursor({ createdAt, id: 'round1' });
+
+    expect(decodeCursor(cursor)).toEqual({ createdAt, id: 'round1' });
+    expect(decodeCursor('not-a-cursor')).toBeNull();
+  });
+
+  test('should parse filters', () => {
+    const result = parse('playerId=p1&status=started,revealed&from=2026-10-01&bin=3&minMultiplier=1.5&clientSeed=abc&limit=5');
+
+    expect(result).toEqual({
+      query: {
+        limit: 5,
+        statuses: ['STARTED', 'REVEALED'],
+        from: new Date('2026-10-01'),
+        to: undefined,
+        binIndex: 3,
+        minMultiplier: 1.5,
+        maxMultiplier: undefined,
+        playerId: 'p1',
+        clientSeed: 'abc',
+      },
+    });
+    expect(parse('playerId=p1')).toMatchObject({ query: { playerId: 'p1', limit: DEFAULT_HISTORY_LIMIT } });
+    expect(parse('')).toMatchObject({ query: { limit: DEFAULT_HISTORY_LIMIT } });
+  });
+
+  test('should reject bad parameters', () => {
+    expect(parse('playerId=p1&limit=0')).toEqual({ errors: { limit: 'must be at least 1' } });
+    expect(parse('limit=1000')).toHaveProperty('errors.limit');
+    expect(parse('limit=2.5')).toHaveProperty('errors.limit');
+    expect(parse('from=yesterday')).toHaveProperty('errors.from');
+    expect(parse('bin=-1')).toHaveProperty('errors.bin');
+    expect(parse('minMultiplier=lots')).toHaveProperty('errors.minMultiplier');
+    expect(parse('cursor=garbage')).toHaveProperty('errors.cursor');
+    expect(parse('playerId=p1&status=started,finished')).toEqual({ errors: { status: 'has an unknown status: FINISHED' } });
+  });
+
+  test('should report every bad parameter at once', () => {
+    expect(parse('playerId=p1&limit=0&bin=x')).toEqual({
+      errors: { limit: 'must be at least 1', bin: 'must be an integer' },
+    });
+  });
+
+  test('should treat empty parameters as absent', () => {
+    expect(parse('playerId=&cursor=&limit=')).toEqual({ query: { limit: DEFAULT_HISTORY_LIMIT } });
+  });
+
+  test('should page strictly after the cursor', () => {
+    const createdAt = new Date('2026-10-19T09:00:00.000Z');
+    const where = buildRoundHistoryWhere({ limit: 10, playerId: 'p1', cursor: { createdAt, id: 'r5' } });
+
+    expect(where).toEqual({
+      AND: [
+        { playerId: 'p1' },
+        {
+          OR: [
+            { createdAt: { lt: createdAt } },
+            { createdAt, id: { lt: 'r5' } },
+          ],
+        },
+      ],
+    });
+    expect(buildRoundHistoryWhere({ limit: 10, playerId: 'p1' })).toEqual({ AND: [{ playerId: 'p1' }] });
+    expect(buildRoundHistoryWhere({ limit: 10 })).toEqual({});
+  });
+});
+
+describe('toPublicRound', () => {
+  const round: Round = {
+    id: 'r1',
+    createdAt: new Date('2026-10-19T09:00:00.000Z'),
+    status: 'STARTED',
+    nonce: '0',
+    commitHex: 'commit',
+    serverSeed: 'secret',
+    clientSeed: 'client',
+    combinedSeed: 'combined',
+    pegMapHash: 'pegs',
+    rows: 12,
+    paytableId: 'v2-medium-12',
+    rngVersion: 2,
+    hashVersion: 2,
+    dropColumn: 6,
+    binIndex: 5,
+    payoutMultiplier: 1.5,
+    betCents: 100,
+    pathJson: [],
+    startedAt: new Date('2026-10-19T09:00:01.000Z'),
+    revealedAt: null,
+    expiredAt: null,
+    voidedAt: null,
+    playerId: 'p1',
+    seedPairId: 'pair1',
+    hashChainId: null,
+    chainIndex: null,
+    tableRoundId: null,
+  };
+
+  test('should hide the server seed until revealed', () => {
+    expect(toPublicRound(round).serverSeed).toBeUndefined();
+    expect(toPublicRound(round).winAmount).toBe(150);
+    expect(toPublicRound({ ...round, status: 'REVEALED' }).serverSeed).toBe('secret');
+  });
+
+  test('should hide results before the round starts', () => {
+    expect(toPublicRound({ ...round, status: 'CREATED' }).binIndex).toBeUndefined();
+  });
+});
@@ -0,0 +1,96 @@
+import {
+  RtpCalculator,
+  PaytableRtpError,
+  getActivePaytable,
+  getRtpBand,
+  isWithinBand,
+  validatePaytable,
+} from '../lib/rtp';
+import { RISK_LEVELS, getCurrentPaytable, getPaytable, listPaytables } from '../lib/paytables';
+import { MIN_ROWS, MAX_ROWS } from '../lib/engine';
+
+describe('RtpCalculator', () => {
+  test('should average peg bias to a fair bounce with no drop adjustment', () => {
+    expect(RtpCalculator.expectedLeftProbability(0)).toBeCloseTo(0.5, 12);
+    expect(RtpCalculator.expectedLeftProbability(0.05)).toBeCloseTo(0.55, 12);
+  });
+
+  test('should account for clamping at the ends of the bias range', () => {
+    // bias + adj uniform on [0.9, 1.1]: half the mass clamps to 1
+    expect(RtpCalculator.expectedLeftProbability(0.5)).toBeCloseTo(0.975, 12);
+    expect(RtpCalculator.expectedLeftProbability(-0.5)).toBeCloseTo(0.025, 12);
+  });
+
+  test('should produce a binomial distribution for the centre column', () => {
+    const probabilities = RtpCalculator.getBinProbabilities(8, 4);
+
+    expect(probabilities).toHaveLength(9);
+    expect(probabilities.reduce((a, b) => a + b, 0)).toBeCloseTo(1, 12);
+    expect(probabilities[0]).toBeCloseTo(1 / 256, 12);
+    expect(probabilities[4]).toBeCloseTo(70 / 256, 12);
+  });
+
+  test('should skew toward the left bins for drop columns right of centre', () => {
+    // Positive adjustment raises the left bias, so fewer right moves
+    const probabilities = RtpCalculator.getBinProbabilities(12, 12);
+    const mean = probabilities.reduce((sum, p, bin) => sum + p * bin, 0);
+
+    expect(mean).toBeCloseTo(12 * 0.44, 10);
+  });
+
+  test('should report RTP per drop column', () => {
+    const report = RtpCalculator.computeReport(getPaytable('v2-medium-12')!);
+
+    expect(report.columns).toHaveLength(13);
+    expect(report.rtp).toBeCloseTo(0.9750, 4);
+    expect(report.houseEdge).toBeCloseTo(1 - report.rtp, 12);
+    expect(report.minRtp).toBe(report.rtp);
+    expect(report.maxRtp).toBeGreaterThan(report.rtp);
+  });
+});
+
+describe('Paytable validation', () => {
+  test('should activate every current paytable with the default band', () => {
+    for (const risk of RISK_LEVELS) {
+      for (let rows = MIN_ROWS; rows <= MAX_ROWS; rows++) {
+        expect(() => getActivePaytable(risk, rows)).not.toThrow();
+
+        // Every column the player can choose, not just the centre
+        const report = RtpCalculator.computeReport(getCurrentPaytable(risk, rows)!);
+        for (const column of report.columns) {
+          expect(isWithinBand(column.rtp, getRtpBand())).toBe(true);
+        }
+      }
+    }
+  });
+
+  test('should refuse a paytable that is only balanced for the centre column', () => {
+    // Fair for a centre drop, but the edge columns push balls toward the 33x bins
+    const edgeHeavy = [33, 11, 4, 2, 1.1, 0.6, 0.3, 0.6, 1.1, 2, 4, 11, 33];
+    const paytable = { id: 'test-medium-12', version: 0, risk: 'medium' as const, rows: 12, multipliers: edgeHeavy };
+
+    expect(RtpCalculator.computeReport(paytable).rtp).toBeLessThan(0.995);
+    expect(() => validatePaytable(paytable)).toThrow(PaytableRtpError);
+    expect(() => validatePaytable(paytable)).toThrow(/RTP 1\.1225 at drop column 0/);
+  });
+
+  test('should refuse paytables outside the band', () => {
+    // The legacy linear table pays out more than it takes in
+    const legacy = getPaytable('v1-medium-12')!;
+    expect(() => validatePaytable(legacy)).toThrow(PaytableRtpError);
+
+    const current = listPaytables()[listPaytables().length - 1];
+    expect(() => validatePaytable(current, { min: 0.5, max: 0.6 })).toThrow(PaytableRtpError);
+  });
+
+  test('should read the band from the environment', () => {
+    const original = process.env.PAYTABLE_RTP_MIN;
+    process.env.PAYTABLE_RTP_MIN = '0.98';
+    try {
+      expect(() => getActivePaytable('medium', 12)).toThrow(PaytableRtpError);
+    } finally {
+      if (original === undefined) delete process.env.PAYTABLE_RTP_MIN;
+      else process.env.PAYTABLE_RTP_MIN = original;
+    }
+  });
+});
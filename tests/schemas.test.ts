@@ -0,0 +1,85 @@
+import {
+  MAX_CLIENT_SEED_LENGTH,
+  autoBetBody,
+  commitRoundBody,
+  paytablesQuery,
+  setClientSeedBody,
+  startRoundBody,
+  verifyBatchBody,
+  verifyQuery,
+} from '../lib/schemas';
+import { validate } from '../lib/validation';
+import { ROWS } from '../lib/plinko-core';
+import { DEFAULT_RISK } from '../lib/paytables';
+
+describe('Request schemas', () => {
+  test('should default rows and risk on commit', () => {
+    expect(validate(commitRoundBody, { playerId: 'p1' })).toEqual({
+      value: { playerId: 'p1', rows: ROWS, risk: DEFAULT_RISK },
+    });
+    expect(validate(commitRoundBody, { playerId: 'p1', rows: 7, risk: 'extreme' })).toEqual({
+      errors: { rows: 'must be at least 8', risk: 'must be one of: low, medium, high' },
+    });
+  });
+
+  test('should reject fractional, string and missing start fields', () => {
+    expect(validate(startRoundBody, { playerId: 'p1', betCents: 100, dropColumn: 6 })).toHaveProperty('value');
+    expect(validate(startRoundBody, { playerId: 'p1', betCents: 0.5, dropColumn: 6 })).toEqual({
+      errors: { betCents: 'must be an integer' },
+    });
+    expect(validate(startRoundBody, { playerId: 'p1', betCents: '100', dropColumn: 6 })).toEqual({
+      errors: { betCents: 'must be an integer' },
+    });
+    expect(validate(startRoundBody, { playerId: 'p1', betCents: 100 })).toEqual({
+      errors: { dropColumn: 'is required' },
+    });
+  });
+
+  test('should combine board and auto-bet fields', () => {
+    expect(validate(autoBetBody, { playerId: 'p1', dropColumn: 6, count: 10, betCents: 100 })).toHaveProperty('value');
+    expect(validate(autoBetBody, { playerId: 'p1', dropColumn: 6, count: 0, betCents: 100 })).toEqual({
+      errors: { count: 'must be at least 1' },
+    });
+  });
+
+  test('should limit client seed length and charset', () => {
+    expect(validate(setClientSeedBody, { clientSeed: 'lucky-seed_1.0' })).toHaveProperty('value');
+    expect(validate(setClientSeedBody, { clientSeed: 'x'.repeat(MAX_CLIENT_SEED_LENGTH + 1) })).toHaveProperty(
+      'errors.clientSeed'
+    );
+    expect(validate(setClientSeedBody, { clientSeed: 'has spaces' })).toEqual({
+      errors: { clientSeed: "may only contain letters, digits, '.', '_' and '-'" },
+    });
+  });
+
+  test('should parse verify queries strictly with version defaults', () => {
+    const query = { serverSeed: 's', clientSeed: 'c', nonce: '1', dropColumn: '6' };
+
+    expect(validate(verifyQuery, query)).toEqual({
+      value: { ...query, dropColumn: 6, rows: ROWS, paytableId: undefined, rngVersion: 1, hashVersion: 1 },
+    });
+    expect(validate(verifyQuery, { ...query, dropColumn: '6abc' })).toEqual({
+      errors: { dropColumn: 'must be an integer' },
+    });
+    expect(validate(verifyQuery, { ...query, rngVersion: '9', hashVersion: '2' })).toEqual({
+      errors: { rngVersion: 'must be a known RNG version' },
+    });
+  });
+
+  test('should validate batch verification lists and ranges', () => {
+    expect(validate(verifyBatchBody, { roundIds: ['r1'] })).toHaveProperty('value');
+    expect(validate(verifyBatchBody, { roundIds: [] })).toHaveProperty('errors.roundIds');
+    expect(validate(verifyBatchBody, { nonces: ['1', 2] })).toHaveProperty('value.nonces', ['1', 2]);
+    expect(validate(verifyBatchBody, { nonces: [1.5] })).toHaveProperty('errors');
+    expect(validate(verifyBatchBody, { nonceRange: { from: 0 } })).toEqual({
+      errors: { 'nonceRange.to': 'is required' },
+    });
+  });
+
+  test('should accept "all" or a number for the paytable version', () => {
+    expect(validate(paytablesQuery, { version: 'all' })).toEqual({ value: { version: 'all' } });
+    expect(validate(paytablesQuery, { version: '1' })).toEqual({ value: { version: 1 } });
+    expect(validate(paytablesQuery, {})).toEqual({ value: { version: undefined } });
+    expect(validate(paytablesQuery, { version: 'latest' })).toHaveProperty('errors.version');
+  });
+});
@@ -0,0 +1,94 @@
+import { SeedPairConflictError, SeedPairs, toPublicSeedPair } from '../lib/seed-pairs';
+import { ProvablyFairProtocol } from '../lib/prng';
+import { resetSeedVault } from '../lib/seed-vault';
+import { createFakeTx } from './fake-tx';
+
+// Use an in-memory key rather than creating a key file
+process.env.SEED_ENCRYPTION_KEY = '11'.repeat(32);
+resetSeedVault();
+
+describe('SeedPairs', () => {
+  test('should create one active pair per player and reuse it', async () => {
+    const { tx, pairs } = createFakeTx();
+
+    const first = await SeedPairs.getOrCreateActive(tx, 'p1');
+    const second = await SeedPairs.getOrCreateActive(tx, 'p1');
+
+    expect(second.id).toBe(first.id);
+    expect(pairs).toHaveLength(1);
+    expect(ProvablyFairProtocol.verifyServerSeedHash(SeedPairs.getServerSeed(first), first.serverSeedHash)).toBe(true);
+  });
+
+  test('should only store the server seed encrypted while active', async () => {
+    const { tx, pairs } = createFakeTx();
+    const pair = await SeedPairs.getOrCreateActive(tx, 'p1');
+    const serverSeed = SeedPairs.getServerSeed(pair);
+
+    expect(pairs[0].serverSeed).toBeUndefined();
+    expect(pairs[0].serverSeedEncrypted).toMatch(/^v1\./);
+    expect(pairs[0].serverSeedEncrypted).not.toContain(serverSeed);
+  });
+
+  test('should still read legacy plaintext seeds', () => {
+    const legacy = { id: 'old', serverSeed: 'ab'.repeat(32), serverSeedEncrypted: null } as any;
+    expect(SeedPairs.getServerSeed(legacy)).toBe('ab'.repeat(32));
+  });
+
+  test('should hand out increasing nonces', async () => {
+    const { tx } = createFakeTx();
+    const pair = await SeedPairs.getOrCreateActive(tx, 'p1');
+
+    expect(await SeedPairs.allocateNonce(tx, pair.id)).toBe(0);
+    expect(await SeedPairs.allocateNonce(tx, pair.id)).toBe(1);
+    expect(await SeedPairs.allocateNonce(tx, pair.id)).toBe(2);
+  });
+
+  test('should reveal the old server seed and commit a new one on rotate', async () => {
+    const { tx, rounds } = createFakeTx();
+    const original = await SeedPairs.getOrCreateActive(tx, 'p1', 'my-seed');
+    const originalSeed = SeedPairs.getServerSeed(original);
+    await SeedPairs.allocateNonce(tx, original.id);
+    const played = { id: 'r1', seedPairId: original.id, status: 'STARTED', serverSeed: null };
+    rounds.push(played);
+
+    const { active, revealed } = await SeedPairs.rotate(tx, 'p1');
+
+    expect(revealed!.id).toBe(original.id);
+    expect(revealed!.status).toBe('ROTATED');
+    expect(revealed!.serverSeedEncrypted).toBeNull();
+    expect(toPublicSeedPair(revealed!).serverSeed).toBe(originalSeed);
+    expect(active.id).not.toBe(original.id);
+    expect(SeedPairs.getServerSeed(active)).not.toBe(originalSeed);
+    expect(active.clientSeed).toBe('my-seed');
+    expect(active.nextNonce).toBe(0);
+    expect(toPublicSeedPair(active).serverSeed).toBeUndefined();
+
+    // Played rounds get the revealed seed
+    expect(played).toMatchObject({ status: 'REVEALED', serverSeed: originalSeed });
+  });
+
+  test('should only rotate on client seed change once the pair is used', async () => {
+    const { tx } = createFakeTx();
+    const pair = await SeedPairs.getOrCreateActive(tx, 'p1');
+
+    const unused = await SeedPairs.setClientSeed(tx, 'p1', 'first');
+    expect(unused.active.id).toBe(pair.id);
+    expect(unused.revealed).toBeUndefined();
+
+    await SeedPairs.allocateNonce(tx, pair.id);
+    const used = await SeedPairs.setClientSeed(tx, 'p1', 'second');
+    expect(used.revealed!.id).toBe(pair.id);
+    expect(used.active.clientSeed).toBe('second');
+  });
+
+  test('should refuse to rotate a pair another request already rotated', async () => {
+    const { tx, pairs } = createFakeTx();
+    const pair = await SeedPairs.getOrCreateActive(tx, 'p1');
+    await SeedPairs.rotate(tx, 'p1');
+
+    // The losing request read the pair while it was still active
+    jest.spyOn(tx.seedPair, 'findFirst').mockResolvedValueOnce(pair);
+    await expect(SeedPairs.rotate(tx, 'p1')).rejects.toThrow(SeedPairConflictError);
+    expect(pairs).toHaveLength(2);
+  });
+});
@@ -0,0 +1,112 @@
+import { mkdtempSync, readFileSync, rmSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import {
+  SeedVault,
+  SeedVaultError,
+  generateKeyHex,
+  getSeedVault,
+  keyIdFor,
+  loadKeyring,
+  resetSeedVault,
+  writeKeyFile,
+} from '../lib/seed-vault';
+
+const KEY_A = 'aa'.repeat(32);
+const KEY_B = 'bb'.repeat(32);
+const SEED = '3f'.repeat(32);
+
+describe('SeedVault', () => {
+  test('should round-trip a server seed', () => {
+    const vault = new SeedVault([KEY_A]);
+    const payload = vault.encrypt(SEED);
+
+    expect(payload).not.toContain(SEED);
+    expect(payload.split('.')[1]).toBe(vault.currentKeyId);
+    expect(vault.decrypt(payload)).toBe(SEED);
+  });
+
+  test('should use a fresh IV for every encryption', () => {
+    const vault = new SeedVault([KEY_A]);
+    expect(vault.encrypt(SEED)).not.toBe(vault.encrypt(SEED));
+  });
+
+  test('should decrypt with previous keys and flag payloads for re-encryption', () => {
+    const old = new SeedVault([KEY_A]);
+    const payload = old.encrypt(SEED);
+
+    const rotated = new SeedVault([KEY_B, KEY_A]);
+    expect(rotated.decrypt(payload)).toBe(SEED);
+    expect(rotated.needsReencryption(payload)).toBe(true);
+    expect(rotated.needsReencryption(rotated.encrypt(SEED))).toBe(false);
+  });
+
+  test('should reject unknown keys and tampered payloads', () => {
+    const payload = new SeedVault([KEY_A]).encrypt(SEED);
+
+    expect(() => new SeedVault([KEY_B]).decrypt(payload)).toThrow(SeedVaultError);
+
+    const parts = payload.split('.');
+    parts[4] = Buffer.from('00'.repeat(32), 'hex').toString('base64url');
+    expect(() => new SeedVault([KEY_A]).decrypt(parts.join('.'))).toThrow();
+  });
+
+  test('should reject malformed keys', () => {
+    expect(() => new SeedVault([])).toThrow(SeedVaultError);
+    expect(() => new SeedVault(['abc'])).toThrow(SeedVaultError);
+    expect(generateKeyHex()).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('Seed keyring', () => {
+  const env = { ...process.env };
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'seed-vault-'));
+    delete process.env.SEED_ENCRYPTION_KEY;
+    delete process.env.SEED_ENCRYPTION_PREVIOUS_KEYS;
+    process.env.SEED_KEY_FILE = path.join(dir, '.seed-key');
+    resetSeedVault();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    rmSync(dir, { recursive: true, force: true });
+    resetSeedVault();
+  });
+
+  test('should read keys from the environment', () => {
+    process.env.SEED_ENCRYPTION_KEY = KEY_B;
+    process.env.SEED_ENCRYPTION_PREVIOUS_KEYS = ` ${KEY_A} ,`;
+
+    expect(loadKeyring()).toEqual({ keys: [KEY_B, KEY_A], source: 'env' });
+  });
+
+  test('should create a local key file when none exists', () => {
+    const { keys, source } = loadKeyring();
+
+    expect(source).toBe('file');
+    expect(keys).toHaveLength(1);
+    expect(readFileSync(process.env.SEED_KEY_FILE!, 'utf8').trim()).toBe(keys[0]);
+
+    // The same key is used on the next load
+    const payload = getSeedVault().encrypt(SEED);
+    resetSeedVault();
+    expect(getSeedVault().decrypt(payload)).toBe(SEED);
+  });
+
+  test('should reload the key file once it is rewritten', () => {
+    writeKeyFile([KEY_A]);
+    const before = getSeedVault();
+    expect(getSeedVault()).toBe(before);
+
+    writeKeyFile([KEY_B, KEY_A]);
+    // Later modification time, as a rotation run would leave
+    utimesSync(process.env.SEED_KEY_FILE!, new Date(), new Date(Date.now() + 1000));
+
+    const after = getSeedVault();
+    expect(after.currentKeyId).toBe(keyIdFor(Buffer.from(KEY_B, 'hex')));
+    expect(after.decrypt(before.encrypt(SEED))).toBe(SEED);
+  });
+});
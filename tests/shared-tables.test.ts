@@ -0,0 +1,177 @@
+import { HashChain } from '../lib/prng';
+import { PlinkoEngine } from '../lib/engine';
+import {
+  DuplicateTableBetError,
+  ORPHANED_ROUND_GRACE_MS,
+  SHARED_TABLES,
+  SharedTable,
+  SharedTables,
+  TableRoundClosedError,
+  UnrevealedChainSeedError,
+  getSharedTable,
+  listSharedTables,
+  toPublicTableRound,
+} from '../lib/shared-tables';
+import { DEFAULT_TABLE_CONFIG } from '../lib/table-config';
+import { HashChains } from '../lib/hash-chain';
+import { resetSeedVault } from '../lib/seed-vault';
+import { createFakeTx } from './fake-tx';
+
+// Use an in-memory key rather than creating a key file
+process.env.SEED_ENCRYPTION_KEY = '11'.repeat(32);
+resetSeedVault();
+
+const table: SharedTable = { id: 'test', name: 'Test Table', rows: 12, risk: 'medium', betWindowSeconds: 10 };
+const otherTable: SharedTable = { id: 'other', name: 'Other Table', rows: 16, risk: 'high', betWindowSeconds: 10 };
+const opensAt = new Date('2026-01-01T00:00:00Z');
+const afterClose = new Date(opensAt.getTime() + 10000);
+
+describe('SharedTables', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    process.env.HASH_CHAIN_LENGTH = '10';
+    process.env.HASH_CHAIN_CHECKPOINT_INTERVAL = '3';
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('should open rounds committed to consecutive hash chain seeds', async () => {
+    const { tx, chains } = createFakeTx();
+
+    const first = await SharedTables.open(tx, table, opensAt);
+    const { dropped, current: second } = await SharedTables.tick(tx, table, true, afterClose);
+
+    expect(first.status).toBe('OPEN');
+    expect(first.closesAt).toEqual(afterClose);
+    expect([first.chainIndex, second!.chainIndex]).toEqual([0, 1]);
+    // Each round commits to the seed before it; the first to the terminal hash
+    expect(first.commitHex).toBe(chains[0].terminalHash);
+    expect(second!.commitHex).toBe(dropped!.round.serverSeed);
+    expect(toPublicTableRound(first).serverSeed).toBeUndefined();
+  });
+
+  test('should refuse to publish a chain index while a lower one is unrevealed', async () => {
+    const { tx, tableRounds } = createFakeTx();
+    await SharedTables.open(tx, table, opensAt);
+
+    // Its commitment would be the open round's server seed
+    await expect(SharedTables.open(tx, table, opensAt)).rejects.toThrow(UnrevealedChainSeedError);
+    expect(tableRounds).toHaveLength(1);
+  });
+
+  test('should never commit one table to another open table\'s seed', async () => {
+    const { tx } = createFakeTx();
+
+    const rounds = [await SharedTables.open(tx, table, opensAt), await SharedTables.open(tx, otherTable, opensAt)];
+    const seeds = await Promise.all(rounds.map(async round => {
+      const chain = await tx.hashChain.findUnique({ where: { id: round.hashChainId } });
+      return HashChains.getSeed(chain!, round.chainIndex);
+    }));
+
+    expect(rounds[0].hashChainId).not.toBe(rounds[1].hashChainId);
+    rounds.forEach((round, i) => {
+      const otherSeed = seeds[1 - i];
+      // Hashing forward from a commitment reaches every lower seed on its chain
+      for (let links = 0; links <= 10; links++) {
+        expect(HashChain.walk(round.commitHex, links)).not.toBe(otherSeed);
+      }
+    });
+  });
+
+  test('should only open a round while the table is watched', async () => {
+    const { tx, tableRounds } = createFakeTx();
+
+    const idle = await SharedTables.tick(tx, table, false, opensAt);
+    expect(idle.current).toBeNull();
+    expect(tableRounds).toHaveLength(0);
+
+    const watched = await SharedTables.tick(tx, table, true, opensAt);
+    const again = await SharedTables.tick(tx, table, true, opensAt);
+    expect(watched.opened).toBe(true);
+    expect(again.opened).toBe(false);
+    expect(again.current!.id).toBe(watched.current!.id);
+  });
+
+  test('should take one bet per player until the round closes', async () => {
+    const { tx, rounds, balanceOf } = createFakeTx({ players: { p1: 1000, p2: 1000 } });
+    const tableRound = await SharedTables.open(tx, table, opensAt);
+    const placed = { playerId: 'p1', clientSeed: 'seed1', dropColumn: 6, betCents: 250 };
+
+    const { bet, balanceCents } = await SharedTables.placeBet(tx, tableRound, placed, opensAt);
+
+    expect(bet).toEqual({ roundId: rounds[0].id, clientSeed: 'seed1', dropColumn: 6, betCents: 250 });
+    expect(rounds[0].playerId).toBe('p1');
+    expect(balanceCents).toBe(750);
+    expect(balanceOf('p1')).toBe(750);
+    expect(rounds[0].status).toBe('CREATED');
+    expect(rounds[0].nonce).toBe(String(tableRound.chainIndex));
+
+    await expect(SharedTables.placeBet(tx, tableRound, placed, opensAt))
+      .rejects.toThrow(DuplicateTableBetError);
+    await expect(SharedTables.placeBet(tx, tableRound, { ...placed, playerId: 'p2' }, afterClose))
+      .rejects.toThrow(TableRoundClosedError);
+    expect(balanceOf('p2')).toBe(1000);
+  });
+
+  test('should drop every ball with the revealed seed and pay the wins', async () => {
+    const { tx, rounds, entries, balanceOf } = createFakeTx({ players: { p1: 1000, p2: 1000 } });
+    const tableRound = await SharedTables.open(tx, table, opensAt);
+    await SharedTables.placeBet(tx, tableRound, { playerId: 'p1', clientSeed: 'seed1', dropColumn: 6, betCents: 100 }, opensAt);
+    await SharedTables.placeBet(tx, tableRound, { playerId: 'p2', clientSeed: 'seed2', dropColumn: 0, betCents: 200 }, opensAt);
+
+    const { dropped, current } = await SharedTables.tick(tx, table, false, afterClose);
+
+    expect(current).toBeNull();
+    expect(dropped!.round.status).toBe('DROPPED');
+    const serverSeed = dropped!.round.serverSeed!;
+    expect(HashChain.link(serverSeed)).toBe(tableRound.commitHex);
+    expect(toPublicTableRound(dropped!.round).serverSeed).toBe(serverSeed);
+
+    expect(dropped!.balls).toHaveLength(2);
+    dropped!.balls.forEach((ball, i) => {
+      const expected = PlinkoEngine.playRound(
+        serverSeed, ball.clientSeed, String(tableRound.chainIndex), ball.dropColumn, 12, ball.betCents,
+        PlinkoEngine.storedRoundOptions({
+          paytableId: tableRound.paytableId, rngVersion: rounds[i].rngVersion!, hashVersion: rounds[i].hashVersion!,
+        })
+      );
+      expect(ball.binIndex).toBe(expected.binIndex);
+      expect(ball.winAmount).toBe(expected.payoutCents);
+      expect(rounds[i]).toMatchObject({ status: 'REVEALED', serverSeed, binIndex: expected.binIndex });
+    });
+
+    const wins = entries.filter(entry => entry.type === 'WIN');
+    expect(wins.map(entry => entry.amountCents)).toEqual(dropped!.balls.map(ball => ball.winAmount));
+    expect(balanceOf('p1')).toBe(900 + dropped!.balls[0].winAmount);
+
+    // A second tick has nothing left to drop
+    await expect(SharedTables.drop(tx, tableRound, afterClose)).resolves.toBeNull();
+  });
+
+  test('should drop rounds left open past the grace period without a ticker', async () => {
+    const { tx, tableRounds, balanceOf } = createFakeTx({ players: { p1: 1000 } });
+    const tableRound = await SharedTables.open(tx, table, opensAt);
+    await SharedTables.placeBet(tx, tableRound, { playerId: 'p1', clientSeed: 'seed1', dropColumn: 6, betCents: 100 }, opensAt);
+    const withinGrace = new Date(afterClose.getTime() + ORPHANED_ROUND_GRACE_MS - 1000);
+    const pastGrace = new Date(afterClose.getTime() + ORPHANED_ROUND_GRACE_MS + 1000);
+
+    await expect(SharedTables.dropOrphaned(tx, ORPHANED_ROUND_GRACE_MS, withinGrace)).resolves.toBe(0);
+    expect(tableRounds[0].status).toBe('OPEN');
+
+    await expect(SharedTables.dropOrphaned(tx, ORPHANED_ROUND_GRACE_MS, pastGrace)).resolves.toBe(1);
+    expect(tableRounds[0]).toMatchObject({ status: 'DROPPED', droppedAt: pastGrace });
+    expect(balanceOf('p1')).toBeGreaterThan(900);
+  });
+
+  test('should only offer tables whose board the configuration allows', () => {
+    const config = { ...DEFAULT_TABLE_CONFIG, allowedRisks: ['low' as const, 'medium' as const] };
+
+    expect(listSharedTables(DEFAULT_TABLE_CONFIG)).toEqual(SHARED_TABLES);
+    expect(listSharedTables(config).map(offered => offered.id)).toEqual(['main']);
+    expect(getSharedTable('high-roller', config)).toBeUndefined();
+    expect(getSharedTable('main', { ...DEFAULT_TABLE_CONFIG, allowedRows: [8, 16] })).toBeUndefined();
+  });
+});
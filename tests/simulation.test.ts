@@ -0,0 +1,64 @@
+import { MAX_SIMULATION_ROUNDS, Simulator } from '../lib/simulation';
+import { getCurrentPaytable } from '../lib/paytables';
+import { PlinkoEngine } from '../lib/engine';
+import { RNG_VERSION_HMAC_SHA256 } from '../lib/prng';
+
+const paytable = getCurrentPaytable('medium', 12)!;
+const options = {
+  paytable,
+  dropColumn: 6,
+  rounds: 2000,
+  betCents: 100,
+  serverSeed: 'simulation-server-seed',
+  clientSeed: 'simulation-client-seed',
+};
+
+describe('Simulator', () => {
+  test('should be reproducible from its seeds', () => {
+    const report = Simulator.run(options);
+
+    expect(Simulator.run(options)).toEqual(report);
+    expect(report.rngVersion).toBe(RNG_VERSION_HMAC_SHA256);
+    expect(report.histogram.reduce((sum, count) => sum + count, 0)).toBe(options.rounds);
+  });
+
+  test('should summarise the rounds it played', () => {
+    const rounds = Array.from({ length: 200 }, (_, nonce) =>
+      PlinkoEngine.playRound(options.serverSeed, options.clientSeed, String(nonce), 6, 12, 100, {
+        paytableId: paytable.id,
+        rngVersion: RNG_VERSION_HMAC_SHA256,
+      })
+    );
+    const report = Simulator.run({ ...options, rounds: 200 });
+
+    const totalWinCents = rounds.reduce((sum, round) => sum + round.payoutCents, 0);
+    expect(report.totalBetCents).toBe(20000);
+    expect(report.totalWinCents).toBe(totalWinCents);
+    expect(report.profitCents).toBe(totalWinCents - 20000);
+    expect(report.rtp).toBeCloseTo(totalWinCents / 20000, 10);
+    expect(report.hitFrequency).toBe(rounds.filter(round => round.payoutCents > 100).length / 200);
+
+    // Drawdown from the running net result
+    let balance = 0;
+    let peak = 0;
+    let drawdown = 0;
+    for (const round of rounds) {
+      balance += round.payoutCents - 100;
+      peak = Math.max(peak, balance);
+      drawdown = Math.max(drawdown, peak - balance);
+    }
+    expect(report.maxDrawdownCents).toBe(drawdown);
+  });
+
+  test('should stay close to the theoretical distribution', () => {
+    const report = Simulator.run(options);
+
+    expect(report.theoreticalProbabilities.reduce((sum, p) => sum + p, 0)).toBeCloseTo(1, 10);
+    expect(Math.abs(report.rtp - report.theoreticalRtp)).toBeLessThan(5 * report.standardDeviation / Math.sqrt(options.rounds));
+  });
+
+  test('should reject round counts out of range', () => {
+    expect(() => Simulator.run({ ...options, rounds: 0 })).toThrow(RangeError);
+    expect(() => Simulator.run({ ...options, rounds: MAX_SIMULATION_ROUNDS + 1 })).toThrow(RangeError);
+  });
+});
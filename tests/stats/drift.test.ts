@@ -0,0 +1,91 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { MAX_ROWS, MIN_ROWS, PlinkoEngine } from '../../lib/engine';
+import { RNG_VERSION_HMAC_SHA256, RNG_VERSION_XORSHIFT32 } from '../../lib/prng';
+import { listPaytables } from '../../lib/paytables';
+import { PEG_BIAS_MAX, PEG_BIAS_MIN, RtpCalculator } from '../../lib/rtp';
+
+// Snapshot of the engine's statistical behaviour. A change to the peg bias
+// range, the drop adjustment, the paytables or the RNG shows up as drift
+// against the committed baseline; regenerate it deliberately with
+// UPDATE_STATS_BASELINE=1 npm run test:stats
+const BASELINE_FILE = path.join(__dirname, 'baseline.json');
+const TOLERANCE = 1e-9;
+const SAMPLE_ROUNDS = 10000;
+
+interface Baseline {
+  pegBias: { min: number; max: number };
+  leftProbabilities: Record<string, number>; // "<rows>-<dropColumn>"
+  rtp: Record<string, number>; // Every drop column, "<paytable ID>:<dropColumn>"
+  sampleCounts: Record<string, number[]>; // Bins of fixed-seed rounds, "v<rngVersion>-<rows>-<dropColumn>"
+}
+
+function currentSnapshot(): Baseline {
+  const leftProbabilities: Record<string, number> = {};
+  for (let rows = MIN_ROWS; rows <= MAX_ROWS; rows++) {
+    for (let dropColumn = 0; dropColumn <= rows; dropColumn++) {
+      leftProbabilities[`${rows}-${dropColumn}`] = RtpCalculator.expectedLeftProbability(
+        RtpCalculator.dropAdjustment(dropColumn, rows)
+      );
+    }
+  }
+
+  const rtp: Record<string, number> = {};
+  for (const paytable of listPaytables()) {
+    for (const column of RtpCalculator.computeReport(paytable).columns) {
+      rtp[`${paytable.id}:${column.dropColumn}`] = column.rtp;
+    }
+  }
+
+  const sampleCounts: Record<string, number[]> = {};
+  for (const rngVersion of [RNG_VERSION_XORSHIFT32, RNG_VERSION_HMAC_SHA256] as const) {
+    const counts = new Array(13).fill(0);
+    for (let nonce = 0; nonce < SAMPLE_ROUNDS; nonce++) {
+      const { binIndex } = PlinkoEngine.playRound('drift-server-seed', 'drift-client-seed', String(nonce), 6, 12, 100, {
+        rngVersion,
+      });
+      counts[binIndex]++;
+    }
+    sampleCounts[`v${rngVersion}-12-6`] = counts;
+  }
+
+  return { pegBias: { min: PEG_BIAS_MIN, max: PEG_BIAS_MAX }, leftProbabilities, rtp, sampleCounts };
+}
+
+/**
+ * Human-readable list of every value that moved
+ */
+function findDrift(baseline: Baseline, current: Baseline): string[] {
+  const drift: string[] = [];
+  const compareNumbers = (label: string, before: Record<string, number>, after: Record<string, number>) => {
+    for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+      if (!(key in before) || !(key in after) || Math.abs(before[key] - after[key]) > TOLERANCE) {
+        drift.push(`${label} ${key}: ${before[key]} -> ${after[key]}`);
+      }
+    }
+  };
+
+  compareNumbers('peg bias', baseline.pegBias, current.pegBias);
+  compareNumbers('left probability', baseline.leftProbabilities, current.leftProbabilities);
+  compareNumbers('RTP', baseline.rtp, current.rtp);
+  for (const key of new Set([...Object.keys(baseline.sampleCounts), ...Object.keys(current.sampleCounts)])) {
+    if (JSON.stringify(baseline.sampleCounts[key]) !== JSON.stringify(current.sampleCounts[key])) {
+      drift.push(`sample bins ${key}: ${baseline.sampleCounts[key]} -> ${current.sampleCounts[key]}`);
+    }
+  }
+  return drift;
+}
+
+describe('Engine drift', () => {
+  test('should match the committed statistical baseline', () => {
+    const current = currentSnapshot();
+
+    if (process.env.UPDATE_STATS_BASELINE || !existsSync(BASELINE_FILE)) {
+      writeFileSync(BASELINE_FILE, JSON.stringify(current, null, 2) + '\n');
+      return;
+    }
+
+    const baseline: Baseline = JSON.parse(readFileSync(BASELINE_FILE, 'utf8'));
+    expect(findDrift(baseline, current)).toEqual([]);
+  });
+});
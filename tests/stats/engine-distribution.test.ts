@@ -0,0 +1,73 @@
+import { PlinkoEngine } from '../../lib/engine';
+import { RNG_VERSION_HMAC_SHA256, RNG_VERSION_XORSHIFT32, RngVersion } from '../../lib/prng';
+import { getCurrentPaytable } from '../../lib/paytables';
+import { RtpCalculator } from '../../lib/rtp';
+import { chiSquareTest, getStatsRounds } from './statistics';
+
+// Seeds and nonces are fixed, so every run sees the same rounds and a pass or
+// fail is reproducible; the threshold only has to rule out real bias
+const P_VALUE_FLOOR = 1e-4;
+const SERVER_SEED = 'fairness-suite-server-seed';
+const ROUNDS = getStatsRounds();
+
+interface Case {
+  rows: number;
+  dropColumn: number;
+  rngVersion: RngVersion;
+  rounds: number;
+}
+
+const CASES: Case[] = [
+  { rows: 12, dropColumn: 6, rngVersion: RNG_VERSION_HMAC_SHA256, rounds: ROUNDS },
+  { rows: 12, dropColumn: 6, rngVersion: RNG_VERSION_XORSHIFT32, rounds: ROUNDS },
+  // Board edges, where the drop adjustment is largest
+  { rows: 8, dropColumn: 0, rngVersion: RNG_VERSION_HMAC_SHA256, rounds: Math.ceil(ROUNDS / 4) },
+  { rows: 16, dropColumn: 16, rngVersion: RNG_VERSION_HMAC_SHA256, rounds: Math.ceil(ROUNDS / 4) },
+];
+
+// Bin counts per case, shared between tests
+const played = new Map<Case, number[]>();
+
+function playBins(testCase: Case): number[] {
+  const cached = played.get(testCase);
+  if (cached) return cached;
+
+  const { rows, dropColumn, rngVersion, rounds } = testCase;
+  const counts = new Array(rows + 1).fill(0);
+  const clientSeed = `stats-${rows}-${dropColumn}-v${rngVersion}`;
+  for (let nonce = 0; nonce < rounds; nonce++) {
+    const { binIndex } = PlinkoEngine.playRound(SERVER_SEED, clientSeed, String(nonce), dropColumn, rows, 100, {
+      rngVersion,
+    });
+    counts[binIndex]++;
+  }
+  played.set(testCase, counts);
+  return counts;
+}
+
+describe('playRound bin distribution', () => {
+  test.each(CASES)(
+    'should match the theoretical distribution ($rows rows, column $dropColumn, RNG v$rngVersion)',
+    testCase => {
+      const counts = playBins(testCase);
+      const probabilities = RtpCalculator.getBinProbabilities(testCase.rows, testCase.dropColumn);
+
+      const result = chiSquareTest(counts, probabilities);
+      expect(result.pValue).toBeGreaterThan(P_VALUE_FLOOR);
+    }
+  );
+
+  test('should pay the theoretical RTP within sampling error', () => {
+    const paytable = getCurrentPaytable('medium', 12)!;
+    const testCase = CASES[0];
+    const counts = playBins(testCase);
+    const probabilities = RtpCalculator.getBinProbabilities(testCase.rows, testCase.dropColumn);
+
+    const expected = probabilities.reduce((sum, p, bin) => sum + p * paytable.multipliers[bin], 0);
+    const variance = probabilities.reduce((sum, p, bin) => sum + p * (paytable.multipliers[bin] - expected) ** 2, 0);
+    const observed = counts.reduce((sum, count, bin) => sum + count * paytable.multipliers[bin], 0) / testCase.rounds;
+
+    // Five standard errors either side
+    expect(Math.abs(observed - expected)).toBeLessThan(5 * Math.sqrt(variance / testCase.rounds));
+  });
+});
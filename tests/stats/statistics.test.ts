@@ -0,0 +1,26 @@
+import { chiSquarePValue, chiSquareTest, serialCorrelation } from './statistics';
+
+describe('Fairness suite statistics', () => {
+  test('should match chi-square critical values', () => {
+    // 5% critical values from standard tables
+    expect(chiSquarePValue(3.841, 1)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(18.307, 10)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(124.342, 100)).toBeCloseTo(0.05, 3);
+    expect(chiSquarePValue(0, 5)).toBe(1);
+  });
+
+  test('should pool sparse bins', () => {
+    const result = chiSquareTest([1, 50, 48, 1], [0.01, 0.49, 0.49, 0.01]);
+
+    expect(result.degreesOfFreedom).toBe(1);
+    expect(result.pValue).toBeGreaterThan(0.5);
+    expect(chiSquareTest([90, 10], [0.5, 0.5]).pValue).toBeLessThan(1e-10);
+  });
+
+  test('should detect correlated sequences', () => {
+    const alternating = Array.from({ length: 1000 }, (_, i) => i % 2);
+
+    expect(serialCorrelation(alternating, 1)).toBeCloseTo(-1, 6);
+    expect(serialCorrelation(alternating, 2)).toBeCloseTo(1, 6);
+  });
+});
@@ -0,0 +1,134 @@
+// Statistics helpers for the fairness suite
+
+// Bins expected to see fewer hits than this are pooled before a chi-square test
+const MIN_EXPECTED_COUNT = 5;
+
+export interface ChiSquareResult {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number; // Chance of a statistic at least this large if the distribution is right
+}
+
+/**
+ * log Γ(x), Lanczos approximation
+ */
+function logGamma(x: number): number {
+  const g = 7;
+  const c = [
+    0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+    -176.61582193222565, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+    1.5056327351493116e-7,
+  ];
+  if (x < 0.5) {
+    return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  }
+  x -= 1;
+  let a = c[0];
+  const t = x + g + 0.5;
+  for (let i = 1; i < g + 2; i++) {
+    a += c[i] / (x + i);
+  }
+  return 0.5 * Math.log(2 * Math.PI) + (x + 0.5) * Math.log(t) - t + Math.log(a);
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ * Series below a + 1, continued fraction above (Numerical Recipes gser / gcf).
+ */
+export function upperIncompleteGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logPrefix = -x + a * Math.log(x) - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < 1000; n++) {
+      term *= x / (a + n);
+      sum += term;
+      if (Math.abs(term) < Math.abs(sum) * 1e-15) break;
+    }
+    return 1 - sum * Math.exp(logPrefix);
+  }
+
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let i = 1; i < 1000; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-15) break;
+  }
+  return Math.exp(logPrefix) * h;
+}
+
+export function chiSquarePValue(statistic: number, degreesOfFreedom: number): number {
+  return upperIncompleteGamma(degreesOfFreedom / 2, statistic / 2);
+}
+
+/**
+ * Pearson's chi-square goodness of fit
+ * Sparse bins are merged into their neighbour until every cell expects at
+ * least MIN_EXPECTED_COUNT hits.
+ */
+export function chiSquareTest(observed: number[], probabilities: number[]): ChiSquareResult {
+  const total = observed.reduce((sum, count) => sum + count, 0);
+  const cells: { observed: number; expected: number }[] = [];
+  let pending = { observed: 0, expected: 0 };
+
+  observed.forEach((count, i) => {
+    pending = { observed: pending.observed + count, expected: pending.expected + probabilities[i] * total };
+    if (pending.expected >= MIN_EXPECTED_COUNT) {
+      cells.push(pending);
+      pending = { observed: 0, expected: 0 };
+    }
+  });
+  if (pending.expected > 0 || pending.observed > 0) {
+    if (cells.length > 0) {
+      const last = cells[cells.length - 1];
+      cells[cells.length - 1] = { observed: last.observed + pending.observed, expected: last.expected + pending.expected };
+    } else {
+      cells.push(pending);
+    }
+  }
+
+  const statistic = cells.reduce((sum, cell) => sum + (cell.observed - cell.expected) ** 2 / cell.expected, 0);
+  const degreesOfFreedom = cells.length - 1;
+  return { statistic, degreesOfFreedom, pValue: chiSquarePValue(statistic, degreesOfFreedom) };
+}
+
+/**
+ * Pearson correlation between values[i] and values[i + lag]
+ */
+export function serialCorrelation(values: ArrayLike<number>, lag = 1): number {
+  const n = values.length - lag;
+  let sumX = 0, sumY = 0, sumXY = 0, sumXX = 0, sumYY = 0;
+  for (let i = 0; i < n; i++) {
+    const x = values[i];
+    const y = values[i + lag];
+    sumX += x;
+    sumY += y;
+    sumXY += x * y;
+    sumXX += x * x;
+    sumYY += y * y;
+  }
+  const covariance = sumXY - (sumX * sumY) / n;
+  const variance = Math.sqrt((sumXX - (sumX * sumX) / n) * (sumYY - (sumY * sumY) / n));
+  return covariance / variance;
+}
+
+/**
+ * Round count for the slow simulations, overridable with STATS_ROUNDS
+ */
+export function getStatsRounds(fallback = 1000000): number {
+  const configured = parseInt(process.env.STATS_ROUNDS ?? '', 10);
+  return isNaN(configured) || configured < 1 ? fallback : configured;
+}
@@ -0,0 +1,84 @@
+import { DEFAULT_TABLE_CONFIG, TableConfig, TableLimits, getTableConfig } from '../lib/table-config';
+import { getCurrentPaytable } from '../lib/paytables';
+
+const config: TableConfig = {
+  minBetCents: 10,
+  maxBetCents: 100000,
+  maxWinCents: 1000000,
+  allowedRows: [8, 12],
+  allowedRisks: ['low', 'medium'],
+};
+
+describe('Table limits', () => {
+  test('should only allow configured boards', () => {
+    expect(TableLimits.checkBoard(config, 12, 'medium')).toBeNull();
+    expect(TableLimits.checkBoard(config, 16, 'high')).toEqual({
+      rows: 'must be one of: 8, 12',
+      risk: 'must be one of: low, medium',
+    });
+  });
+
+  test('should lower the max bet so a round cannot pay more than the max win', () => {
+    const high16 = getCurrentPaytable('high', 16)!;
+    const low8 = getCurrentPaytable('low', 8)!;
+    const topMultiplier = Math.max(...high16.multipliers);
+
+    expect(TableLimits.maxBetFor(config, high16)).toBe(Math.floor(config.maxWinCents / topMultiplier));
+    expect(TableLimits.maxBetFor(config, high16) * topMultiplier).toBeLessThanOrEqual(config.maxWinCents);
+    // Low-risk boards stay at the table maximum
+    expect(TableLimits.maxBetFor(config, low8)).toBe(config.maxBetCents);
+  });
+
+  test('should check bets against the board limits', () => {
+    const paytable = getCurrentPaytable('high', 16)!;
+    const maxBet = TableLimits.maxBetFor(config, paytable);
+
+    expect(TableLimits.checkBet(config, paytable, 10)).toBeNull();
+    expect(TableLimits.checkBet(config, paytable, maxBet)).toBeNull();
+    expect(TableLimits.checkBet(config, paytable, 9)).toBe('must be at least 10 (table minimum)');
+    expect(TableLimits.checkBet(config, paytable, maxBet + 1)).toBe(
+      `must be at most ${maxBet} (table maximum for this board)`
+    );
+  });
+});
+
+describe('getTableConfig', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  test('should default without configuration', () => {
+    expect(getTableConfig()).toEqual(DEFAULT_TABLE_CONFIG);
+  });
+
+  test('should read limits and boards from the environment', () => {
+    process.env.TABLE_MIN_BET_CENTS = '50';
+    process.env.TABLE_MAX_BET_CENTS = '5000';
+    process.env.TABLE_MAX_WIN_CENTS = '250000';
+    process.env.TABLE_ROWS = '16, 8, 12';
+    process.env.TABLE_RISKS = 'high,low';
+
+    expect(getTableConfig()).toEqual({
+      minBetCents: 50,
+      maxBetCents: 5000,
+      maxWinCents: 250000,
+      allowedRows: [8, 12, 16],
+      allowedRisks: ['high', 'low'],
+    });
+  });
+
+  test('should ignore invalid values', () => {
+    process.env.TABLE_MIN_BET_CENTS = 'lots';
+    process.env.TABLE_MAX_WIN_CENTS = '-5';
+    process.env.TABLE_ROWS = '7,100,12';
+    process.env.TABLE_RISKS = 'extreme';
+
+    const tableConfig = getTableConfig();
+    expect(tableConfig.minBetCents).toBe(DEFAULT_TABLE_CONFIG.minBetCents);
+    expect(tableConfig.maxWinCents).toBe(DEFAULT_TABLE_CONFIG.maxWinCents);
+    expect(tableConfig.allowedRows).toEqual([12]);
+    expect(tableConfig.allowedRisks).toEqual(DEFAULT_TABLE_CONFIG.allowedRisks);
+  });
+});
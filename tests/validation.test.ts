@@ -0,0 +1,104 @@
+import {
+  array,
+  describeFieldErrors,
+  either,
+  integer,
+  isoDate,
+  object,
+  oneOf,
+  optional,
+  queryInteger,
+  queryNumber,
+  queryToObject,
+  refine,
+  string,
+  validate,
+  withDefault,
+} from '../lib/validation';
+
+describe('Validators', () => {
+  test('should only accept JSON integers', () => {
+    const schema = integer({ min: 1, max: 10 });
+
+    expect(validate(schema, 5)).toEqual({ value: 5 });
+    expect(validate(schema, 0.5)).toEqual({ errors: { request: 'must be an integer' } });
+    expect(validate(schema, '5')).toEqual({ errors: { request: 'must be an integer' } });
+    expect(validate(schema, 0)).toEqual({ errors: { request: 'must be at least 1' } });
+    expect(validate(schema, 11)).toEqual({ errors: { request: 'must be at most 10' } });
+    expect(validate(schema, undefined)).toEqual({ errors: { request: 'is required' } });
+  });
+
+  test('should parse query integers strictly', () => {
+    const schema = queryInteger({ min: 0 });
+
+    expect(validate(schema, '12')).toEqual({ value: 12 });
+    expect(validate(schema, '12abc')).toHaveProperty('errors');
+    expect(validate(schema, '1e3')).toHaveProperty('errors');
+    expect(validate(schema, '1.5')).toHaveProperty('errors');
+    expect(validate(schema, '')).toHaveProperty('errors');
+    expect(validate(schema, '-1')).toEqual({ errors: { request: 'must be at least 0' } });
+    expect(validate(queryNumber(), '1.5')).toEqual({ value: 1.5 });
+    expect(validate(queryNumber(), 'lots')).toHaveProperty('errors');
+  });
+
+  test('should check string length and charset', () => {
+    const schema = string({ max: 4, pattern: /^[a-z]+$/, patternMessage: 'must be lowercase' });
+
+    expect(validate(schema, 'abc')).toEqual({ value: 'abc' });
+    expect(validate(schema, '')).toEqual({ errors: { request: 'must not be empty' } });
+    expect(validate(schema, 'abcde')).toEqual({ errors: { request: 'must be at most 4 characters' } });
+    expect(validate(schema, 'ABC')).toEqual({ errors: { request: 'must be lowercase' } });
+    expect(validate(schema, 42)).toEqual({ errors: { request: 'must be a string' } });
+  });
+
+  test('should collect errors by field path', () => {
+    const schema = object({
+      name: string(),
+      size: withDefault(integer(), 3),
+      tags: optional(array(oneOf(['a', 'b'] as const), { max: 2 })),
+      range: object({ from: integer() }),
+    });
+
+    expect(validate(schema, { name: 'x', range: { from: 1 } })).toEqual({
+      value: { name: 'x', size: 3, tags: undefined, range: { from: 1 } },
+    });
+
+    const result = validate(schema, { size: 1.5, tags: ['a', 'c'], range: {} });
+    expect(result).toEqual({
+      errors: {
+        name: 'is required',
+        size: 'must be an integer',
+        'tags[1]': 'must be one of: a, b',
+        'range.from': 'is required',
+      },
+    });
+    expect(describeFieldErrors((result as { errors: Record<string, string> }).errors)).toBe(
+      'name is required; size must be an integer; tags[1] must be one of: a, b; range.from is required'
+    );
+  });
+
+  test('should reject a body that is not an object', () => {
+    const schema = object({ name: string() });
+
+    expect(validate(schema, undefined)).toEqual({ errors: { request: 'must be a JSON object' } });
+    expect(validate(schema, [])).toEqual({ errors: { request: 'must be a JSON object' } });
+  });
+
+  test('should refine, combine and parse dates', () => {
+    const even = refine(integer(), value => value % 2 === 0, 'must be even');
+    expect(validate(even, 4)).toEqual({ value: 4 });
+    expect(validate(even, 3)).toEqual({ errors: { request: 'must be even' } });
+
+    const version = either(oneOf(['all'] as const), queryInteger());
+    expect(validate(version, 'all')).toEqual({ value: 'all' });
+    expect(validate(version, '2')).toEqual({ value: 2 });
+    expect(validate(version, 'some')).toEqual({ errors: { request: 'must be an integer' } });
+
+    expect(validate(isoDate(), '2026-10-01')).toEqual({ value: new Date('2026-10-01') });
+    expect(validate(isoDate(), 'yesterday')).toEqual({ errors: { request: 'must be an ISO 8601 date' } });
+  });
+
+  test('should keep the first value of repeated query parameters', () => {
+    expect(queryToObject(new URLSearchParams('a=1&b=2&a=3'))).toEqual({ a: '1', b: '2' });
+  });
+});
@@ -0,0 +1,86 @@
+import { HASH_VERSION_CANONICAL, PlinkoEngine } from '../lib/engine';
+import { ProvablyFairProtocol, RNG_VERSION_HMAC_SHA256 } from '../lib/prng';
+import { RoundVerifier, StoredRound } from '../lib/verification';
+
+const serverSeed = 'b2a5f3f32a4d9c6ee7a8c1d33456677890abcdeffedcba0987654321ffeeddcc';
+const clientSeed = 'candidate-hello';
+
+function playStoredRound(nonce: string, dropColumn: number): StoredRound {
+  const result = PlinkoEngine.playRound(serverSeed, clientSeed, nonce, dropColumn, 12, 100, {
+    paytableId: 'v2-high-12',
+    rngVersion: RNG_VERSION_HMAC_SHA256,
+    hashVersion: HASH_VERSION_CANONICAL,
+  });
+
+  return {
+    id: `round-${nonce}`,
+    nonce,
+    clientSeed,
+    commitHex: ProvablyFairProtocol.createServerSeedHash(serverSeed),
+    rows: result.rows,
+    paytableId: result.paytableId,
+    rngVersion: result.rngVersion,
+    hashVersion: result.hashVersion,
+    dropColumn,
+    betCents: 100,
+    binIndex: result.binIndex,
+    pegMapHash: result.pegMapHash,
+    payoutMultiplier: result.payoutMultiplier,
+  };
+}
+
+describe('RoundVerifier', () => {
+  test('should pass honest rounds', () => {
+    const results = ['0', '1', '2'].map(nonce => RoundVerifier.verify(playStoredRound(nonce, 6), serverSeed));
+
+    expect(results.every(r => r.status === 'PASS' && r.commitValid)).toBe(true);
+    expect(RoundVerifier.summarize(results)).toEqual({ total: 3, passed: 3, failed: 0, missing: 0, allPassed: true });
+  });
+
+  test('should flag a tampered outcome', () => {
+    const round = playStoredRound('3', 6);
+    const result = RoundVerifier.verify({ ...round, binIndex: (round.binIndex + 1) % 13 }, serverSeed);
+
+    expect(result.status).toBe('FAIL');
+    expect(result.checks!.binIndex.match).toBe(false);
+    expect(result.checks!.pegMapHash.match).toBe(true);
+  });
+
+  test('should flag the wrong server seed', () => {
+    const result = RoundVerifier.verify(playStoredRound('4', 6), 'ff'.repeat(32));
+
+    expect(result.status).toBe('FAIL');
+    expect(result.commitValid).toBe(false);
+  });
+
+  test('should replay exports without a hash version as JSON hashes', () => {
+    const { hashVersion, ...round } = playStoredRound('5', 6);
+    const legacy = PlinkoEngine.playRound(serverSeed, clientSeed, '5', 6, 12, 100, {
+      paytableId: 'v2-high-12',
+      rngVersion: RNG_VERSION_HMAC_SHA256,
+    });
+
+    expect(RoundVerifier.verify(round, serverSeed).checks!.pegMapHash.match).toBe(false);
+    expect(RoundVerifier.verify({ ...round, pegMapHash: legacy.pegMapHash }, serverSeed).status).toBe('PASS');
+    expect(hashVersion).toBe(HASH_VERSION_CANONICAL);
+  });
+
+  test('should accept legacy per-round commitments', () => {
+    const round = playStoredRound('abc123', 6);
+    round.commitHex = ProvablyFairProtocol.createCommitHash(serverSeed, round.nonce);
+
+    expect(RoundVerifier.commitMatches(serverSeed, round)).toBe(true);
+  });
+
+  test('should fail rounds that cannot be replayed', () => {
+    const result = RoundVerifier.verify({ ...playStoredRound('5', 6), paytableId: 'v9-medium-12' }, serverSeed);
+
+    expect(result.status).toBe('FAIL');
+    expect(result.error).toMatch(/paytable/i);
+  });
+
+  test('should count missing rounds separately', () => {
+    const summary = RoundVerifier.summarize([{ nonce: '9', status: 'NOT_FOUND' }]);
+    expect(summary).toEqual({ total: 1, passed: 0, failed: 0, missing: 1, allPassed: false });
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * @jest-environment node
+ */
+// jsdom has no crypto.subtle; Node's Web Crypto is the same API browsers expose
+
+import { HASH_VERSION_CANONICAL, PlinkoEngine } from '../lib/engine';
+import { ProvablyFairProtocol, RNG_VERSION_HMAC_SHA256, RNG_VERSION_XORSHIFT32 } from '../lib/prng';
+import { WebVerifier, sha256Hex } from '../lib/web-verifier';
+
+const serverSeed = 'b2a5f3f32a4d9c6ee7a8c1d33456677890abcdeffedcba0987654321ffeeddcc';
+const clientSeed = 'candidate-hello';
+
+describe('WebVerifier', () => {
+  test('should hash like Node crypto', async () => {
+    expect(await sha256Hex(serverSeed)).toBe(ProvablyFairProtocol.createServerSeedHash(serverSeed));
+  });
+
+  test('should reproduce the reference test vector', async () => {
+    const result = await WebVerifier.replay({
+      serverSeed,
+      clientSeed,
+      nonce: '42',
+      dropColumn: 6,
+      rows: 12,
+      rngVersion: RNG_VERSION_XORSHIFT32,
+    });
+
+    expect(result.commitHex).toBe('bb9acdc67f3f18f3345236a01f0e5072596657a9005c7d8a22cff061451a6b34');
+    expect(result.combinedSeed).toBe('e1dddf77de27d395ea2be2ed49aa2a59bd6bf12ee8d350c16c008abd406c07e0');
+    expect(result.binIndex).toBe(6);
+  });
+
+  test.each([
+    [RNG_VERSION_XORSHIFT32, 8, 'v1-medium-8'],
+    [RNG_VERSION_HMAC_SHA256, 12, 'v2-high-12'],
+    [RNG_VERSION_HMAC_SHA256, 16, 'v2-low-16'],
+  ] as const)('should match the server engine (rng v%i, %i rows)', async (rngVersion, rows, paytableId) => {
+    for (const nonce of ['0', '1', '7']) {
+      const dropColumn = Math.floor(rows / 3);
+      const server = PlinkoEngine.playRound(serverSeed, clientSeed, nonce, dropColumn, rows, 100, { paytableId, rngVersion });
+      const browser = await WebVerifier.replay({ serverSeed, clientSeed, nonce, dropColumn, rows, paytableId, rngVersion });
+
+      expect(browser.pegMapHash).toBe(server.pegMapHash);
+      expect(browser.path).toEqual(server.path);
+      expect(browser.binIndex).toBe(server.binIndex);
+      expect(browser.payoutMultiplier).toBe(server.payoutMultiplier);
+    }
+  });
+
+  test('should hash peg maps like the server for every encoding', async () => {
+    const server = PlinkoEngine.playRound(serverSeed, clientSeed, '3', 6, 12, 100, { hashVersion: HASH_VERSION_CANONICAL });
+    const browser = await WebVerifier.replay({
+      serverSeed, clientSeed, nonce: '3', dropColumn: 6, rows: 12, rngVersion: 1, hashVersion: HASH_VERSION_CANONICAL,
+    });
+
+    expect(browser.hashVersion).toBe(HASH_VERSION_CANONICAL);
+    expect(browser.pegMapHash).toBe(server.pegMapHash);
+  });
+
+  test('should reject invalid input', async () => {
+    const input = { serverSeed, clientSeed, nonce: '1', dropColumn: 6, rows: 12, rngVersion: 1 };
+
+    await expect(WebVerifier.replay({ ...input, rows: 30 })).rejects.toThrow(RangeError);
+    await expect(WebVerifier.replay({ ...input, rngVersion: 9 })).rejects.toThrow(RangeError);
+    await expect(WebVerifier.replay({ ...input, hashVersion: 3 })).rejects.toThrow(RangeError);
+    await expect(WebVerifier.replay({ ...input, paytableId: 'v2-low-8' })).rejects.toThrow(RangeError);
+  });
+});